@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+
+/**
+ * CNJ Validate - Benchmark da base de distritos
+ *
+ * Uso: npm run benchmark:districts
+ *      node --expose-gc scripts/benchmark-districts.js [--lookups N]
+ *
+ * Compara o mapa indexado por string (formato de DISTRICTS, montado a partir
+ * de dist/data/districts/J.json) com o índice compacto (createDistrictIndex
+ * sobre dist/data/districts-packed.json): tamanho dos arquivos, memória
+ * retida após a carga e após consultar todas as chaves (o índice decodifica
+ * e guarda cada distrito na primeira consulta) e tempo médio por consulta.
+ * Mede também, em processos separados, o custo de importar o pacote a frio e
+ * o de percorrer DISTRICTS inteiro, que decodifica todos os distritos.
+ * Requer `npm run build`.
+ */
+
+const { execFileSync } = require('child_process')
+const fs = require('fs')
+const path = require('path')
+const zlib = require('zlib')
+const DIST_INDEX = path.join(__dirname, '..', 'dist', 'index.js')
+const DIST_DATA = path.join(__dirname, '..', 'dist', 'data')
+const CHUNKS_DIR = path.join(DIST_DATA, 'districts')
+const PACKED_FILE = path.join(DIST_DATA, 'districts-packed.json')
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? fallback : Number(process.argv[index + 1])
+}
+
+function collectGarbage() {
+  if (global.gc) {
+    global.gc()
+    global.gc()
+  }
+}
+
+/**
+ * Memória em uso: heap do V8 e buffers dos arrays tipados
+ */
+function usedMemory() {
+  const { heapUsed, arrayBuffers } = process.memoryUsage()
+  return heapUsed + arrayBuffers
+}
+
+/**
+ * Memória retida pelo resultado de build(), com coleta antes e depois
+ */
+function measureHeap(build) {
+  collectGarbage()
+  const before = usedMemory()
+  const start = process.hrtime.bigint()
+  const result = build()
+  const loadMs = Number(process.hrtime.bigint() - start) / 1e6
+  collectGarbage()
+  const retained = usedMemory() - before
+  return { result, before, retained, loadMs }
+}
+
+/**
+ * Tempo médio por consulta, em nanossegundos
+ */
+function measureLookups(lookup, keys, total) {
+  let found = 0
+  for (let i = 0; i < keys.length; i++) {
+    if (lookup(keys[i])) found++
+  }
+
+  const start = process.hrtime.bigint()
+  for (let i = 0; i < total; i++) {
+    if (lookup(keys[i % keys.length])) found++
+  }
+  const elapsed = Number(process.hrtime.bigint() - start)
+
+  return { nsPerLookup: elapsed / total, found }
+}
+
+/**
+ * Chaves existentes e inexistentes em ordem pseudoaleatória fixa
+ */
+function sampleKeys(keys) {
+  const sample = keys.concat(keys.slice(0, 1000).map((key) => `${key}0`))
+  let seed = 42
+  for (let i = sample.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    const j = seed % (i + 1)
+    ;[sample[i], sample[j]] = [sample[j], sample[i]]
+  }
+  return sample
+}
+
+/**
+ * Tempo e memória de um processo novo que importa dist/index.js e executa
+ * `after` (coleta antes de cada medição de memória)
+ */
+function measureColdImport(after = '') {
+  const script = `
+    const collect = global.gc || (() => {})
+    const memory = () => {
+      collect()
+      const { heapUsed, arrayBuffers } = process.memoryUsage()
+      return heapUsed + arrayBuffers
+    }
+    const before = memory()
+    const start = process.hrtime.bigint()
+    const lib = require(${JSON.stringify(DIST_INDEX)})
+    ${after}
+    const ms = Number(process.hrtime.bigint() - start) / 1e6
+    console.log(JSON.stringify({ ms, retained: memory() - before }))
+  `
+  const output = execFileSync(process.execPath, ['--expose-gc', '-e', script], {
+    encoding: 'utf8',
+  })
+  return JSON.parse(output)
+}
+
+function formatBytes(bytes) {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+function main() {
+  if (!fs.existsSync(PACKED_FILE)) {
+    console.error('❌ Base compacta não encontrada. Execute: npm run build')
+    process.exit(1)
+  }
+
+  // Medido antes de carregar a biblioteca neste processo
+  const coldImport = measureColdImport()
+  const fullMap = measureColdImport('Object.values(lib.DISTRICTS)')
+  const { createDistrictIndex } = require(DIST_INDEX)
+
+  if (!global.gc) {
+    console.warn(
+      '⚠️  Execute com node --expose-gc para medições de memória estáveis\n',
+    )
+  }
+
+  const lookups = readOption('--lookups', 1000000)
+  const chunkTexts = fs
+    .readdirSync(CHUNKS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => fs.readFileSync(path.join(CHUNKS_DIR, file), 'utf8'))
+  const packedText = fs.readFileSync(PACKED_FILE, 'utf8')
+
+  const map = measureHeap(() =>
+    chunkTexts.reduce(
+      (districts, text) => Object.assign(districts, JSON.parse(text)),
+      {},
+    ),
+  )
+  const index = measureHeap(() => createDistrictIndex(JSON.parse(packedText)))
+
+  const keys = sampleKeys(Object.keys(map.result))
+  const mapLookups = measureLookups(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(map.result, key)
+        ? map.result[key]
+        : null,
+    keys,
+    lookups,
+  )
+  const indexLookups = measureLookups(
+    (key) => index.result.get(key),
+    keys,
+    lookups,
+  )
+  collectGarbage()
+  map.decoded = map.retained
+  index.decoded = usedMemory() - index.before
+
+  if (mapLookups.found !== indexLookups.found) {
+    console.error('❌ As representações retornaram resultados diferentes')
+    process.exit(1)
+  }
+
+  const chunkText = chunkTexts.join('')
+  const rows = [
+    [
+      'Mapa (DISTRICTS)',
+      Buffer.byteLength(chunkText),
+      zlib.gzipSync(chunkText).length,
+      map,
+      mapLookups,
+    ],
+    [
+      'Índice compacto',
+      Buffer.byteLength(packedText),
+      zlib.gzipSync(packedText).length,
+      index,
+      indexLookups,
+    ],
+  ]
+
+  console.log(
+    `📊 ${index.result.size} distritos, ${lookups} consultas ` +
+      `(${keys.length - index.result.size} chaves inexistentes na amostra)\n`,
+  )
+  console.table(
+    rows.map(([name, size, gzip, load, lookup]) => ({
+      Representação: name,
+      Arquivo: formatBytes(size),
+      Gzip: formatBytes(gzip),
+      'Memória (carga)': formatBytes(load.retained),
+      'Memória (consultas)': formatBytes(load.decoded),
+      'Carga (ms)': load.loadMs.toFixed(1),
+      'Consulta (ns)': lookup.nsPerLookup.toFixed(0),
+    })),
+  )
+
+  console.log('\n📦 Importação a frio (processo novo)\n')
+  console.table(
+    [
+      ['require(cnj-validate)', coldImport],
+      ['require + Object.values(DISTRICTS)', fullMap],
+    ].map(([name, result]) => ({
+      Cenário: name,
+      'Memória retida': formatBytes(result.retained),
+      'Tempo (ms)': result.ms.toFixed(1),
+    })),
+  )
+}
+
+main()
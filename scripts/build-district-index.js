@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+
+/**
+ * CNJ Validate - Geração da base compacta de distritos
+ *
+ * Uso: node scripts/build-district-index.js [--check]
+ *
+ * Lê os arquivos por segmento (src/data/districts/J.json) e grava
+ * src/data/districts-packed.json, lido por createDistrictIndex():
+ * - strings: tabela de nomes, UFs e datas, sem repetição
+ * - keys: chaves J.CT.OOOO como números (JCTOOOO) em ordem crescente,
+ *   gravadas como diferença para a chave anterior
+ * - values: índices de sourceUnit, uf e district na tabela, três por distrito
+ * - periods: linha, validFrom e validUntil (-1 se ausente) dos distritos
+ *   com vigência
+ *
+ * Chaves fora do formato J.CT.OOOO não podem vir de um CNJ: são ignoradas e
+ * relatadas no console.
+ *
+ * Rode manualmente após editar os arquivos de segmento e inclua o resultado
+ * no commit. Com --check, nada é gravado: o script só compara a base com os
+ * arquivos de segmento e termina com erro se estiver desatualizada — é assim
+ * que scripts/build.js o executa.
+ */
+
+const fs = require('fs')
+const path = require('path')
+
+const DATA_DIR = path.join(__dirname, '..', 'src', 'data')
+const CHUNKS_DIR = path.join(DATA_DIR, 'districts')
+const OUTPUT_FILE = path.join(DATA_DIR, 'districts-packed.json')
+const FORMAT_VERSION = 1
+
+function readDistricts() {
+  return fs
+    .readdirSync(CHUNKS_DIR)
+    .filter((file) => /^\d\.json$/.test(file))
+    .sort()
+    .reduce(
+      (districts, file) => ({
+        ...districts,
+        ...JSON.parse(fs.readFileSync(path.join(CHUNKS_DIR, file), 'utf8')),
+      }),
+      {},
+    )
+}
+
+/**
+ * Chaves que um CNJ pode produzir (J.CT.OOOO); as demais ficam fora da base
+ * compacta e são relatadas em `skipped`
+ */
+function isPackableKey(key) {
+  return /^\d\.\d{2}\.\d{4}$/.test(key)
+}
+
+function encodeKey(key) {
+  return Number(key.replace(/\./g, ''))
+}
+
+function packDistricts(districts) {
+  const strings = []
+  const stringIndex = new Map()
+  const intern = (value) => {
+    if (!stringIndex.has(value)) {
+      stringIndex.set(value, strings.length)
+      strings.push(value)
+    }
+    return stringIndex.get(value)
+  }
+
+  const allKeys = Object.keys(districts)
+  const skipped = allKeys.filter((key) => !isPackableKey(key))
+  const entries = allKeys
+    .filter(isPackableKey)
+    .map((key) => [encodeKey(key), districts[key]])
+    .sort(([a], [b]) => a - b)
+
+  const keys = []
+  const values = []
+  const periods = []
+  let previous = 0
+
+  entries.forEach(([numericKey, info], row) => {
+    keys.push(numericKey - previous)
+    previous = numericKey
+    values.push(intern(info.sourceUnit), intern(info.uf), intern(info.district))
+
+    if (info.validFrom !== undefined || info.validUntil !== undefined) {
+      periods.push(
+        row,
+        info.validFrom === undefined ? -1 : intern(info.validFrom),
+        info.validUntil === undefined ? -1 : intern(info.validUntil),
+      )
+    }
+  })
+
+  return {
+    packed: { format: FORMAT_VERSION, strings, keys, values, periods },
+    skipped,
+  }
+}
+
+function formatSize(bytes) {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+function reportSkipped(skipped) {
+  if (skipped.length > 0) {
+    console.warn(
+      `⚠️  ${skipped.length} chave(s) fora do formato J.CT.OOOO ignorada(s): ${skipped.join(', ')}`,
+    )
+  }
+}
+
+function check(content) {
+  const current = fs.existsSync(OUTPUT_FILE)
+    ? fs.readFileSync(OUTPUT_FILE, 'utf8')
+    : ''
+  const file = path.relative(process.cwd(), OUTPUT_FILE)
+
+  if (current !== content) {
+    console.error(
+      `❌ ${file} está desatualizado; rode npm run build:districts e inclua o resultado no commit`,
+    )
+    process.exit(1)
+  }
+  console.log(`✅ ${file} em dia com os arquivos de segmento`)
+}
+
+function main() {
+  const districts = readDistricts()
+  const { packed, skipped } = packDistricts(districts)
+  const content = JSON.stringify(packed) + '\n'
+
+  reportSkipped(skipped)
+  if (process.argv.includes('--check')) {
+    check(content)
+    return
+  }
+
+  fs.writeFileSync(OUTPUT_FILE, content, 'utf8')
+
+  const sourceSize = Buffer.byteLength(JSON.stringify(districts))
+  console.log(
+    `📦 ${packed.keys.length} distritos, ${packed.strings.length} strings: ` +
+      `${formatSize(sourceSize)} → ${formatSize(Buffer.byteLength(content))}`,
+  )
+  console.log(`✅ ${path.relative(process.cwd(), OUTPUT_FILE)}`)
+}
+
+if (require.main === module) {
+  main()
+}
+
+module.exports = { packDistricts }
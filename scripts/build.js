@@ -3,10 +3,10 @@
 /**
  * Build Script - CNJ Validate Library
  *
- * Generates dual-format distribution:
- * - CommonJS (dist/index.js)
- * - ES Modules (dist/index.mjs)
- * - TypeScript definitions (dist/index.d.ts)
+ * Generates dual-format distribution for each entry point:
+ * - CommonJS (dist/index.js, dist/validator.js)
+ * - ES Modules (dist/index.mjs, dist/validator.mjs)
+ * - TypeScript definitions (dist/index.d.ts, dist/validator.d.ts)
  *
  * @version 1.0.0
  * @author CNJ Validate Team
@@ -25,6 +25,13 @@ const BUILD_CONFIG = {
     esm: 'index.mjs',
     types: 'index.d.ts',
   },
+  // Package entry points (package.json "exports"); "validator" has no district data
+  entries: ['index', 'validator'],
+  // Per-segment district files, loaded on demand (package.json "./districts/*")
+  districtChunks: {
+    src: 'src/data/districts',
+    dist: 'dist/data/districts',
+  },
 }
 
 // Logging utilities
@@ -51,11 +58,30 @@ function cleanDist() {
   log.success('Distribution directory prepared')
 }
 
+/**
+ * Check that the compact district database matches the per-segment files.
+ * The database is tracked in git and only regenerated manually
+ * (npm run build:districts), so the build never rewrites source files.
+ */
+function checkDistrictIndex() {
+  log.step('2️⃣', 'Checking compact district database...')
+
+  try {
+    execSync('node scripts/build-district-index.js --check', {
+      stdio: 'inherit',
+      encoding: 'utf8',
+    })
+    log.success('District database is up to date')
+  } catch (error) {
+    throw new Error(`District database check failed: ${error.message}`)
+  }
+}
+
 /**
  * Compile TypeScript to CommonJS
  */
 function compileCommonJS() {
-  log.step('2️⃣', 'Compiling TypeScript to CommonJS...')
+  log.step('3️⃣', 'Compiling TypeScript to CommonJS...')
 
   try {
     execSync(`npx tsc --project ${BUILD_CONFIG.tsConfig}`, {
@@ -69,10 +95,10 @@ function compileCommonJS() {
 }
 
 /**
- * Extract exports from the generated CommonJS file
+ * Extract exports from the generated CommonJS file of an entry point
  */
-function extractExports() {
-  const cjsPath = path.join(BUILD_CONFIG.distDir, BUILD_CONFIG.outputs.cjs)
+function extractExports(entry) {
+  const cjsPath = path.join(BUILD_CONFIG.distDir, `${entry}.js`)
 
   if (!fs.existsSync(cjsPath)) {
     throw new Error(`CommonJS file not found: ${cjsPath}`)
@@ -110,34 +136,36 @@ function extractExports() {
 }
 
 /**
- * Generate ES Modules wrapper
+ * Generate ES Modules wrappers
  */
 function generateESMWrapper() {
-  log.step('3️⃣', 'Generating ES Modules wrapper...')
-
-  const exports = extractExports()
-
-  if (exports.length === 0) {
-    log.warning('No exports found in CommonJS file')
-  } else {
-    log.info(
-      `Found ${exports.length} exports: ${exports.slice(0, 5).join(', ')}${
-        exports.length > 5 ? '...' : ''
-      }`,
-    )
-  }
+  log.step('4️⃣', 'Generating ES Modules wrappers...')
+
+  BUILD_CONFIG.entries.forEach((entry) => {
+    const exports = extractExports(entry)
+
+    if (exports.length === 0) {
+      log.warning(`No exports found in ${entry}.js`)
+    } else {
+      log.info(
+        `Found ${exports.length} exports in ${entry}.js: ${exports
+          .slice(0, 5)
+          .join(', ')}${exports.length > 5 ? '...' : ''}`,
+      )
+    }
 
-  const esmWrapper = generateESMWrapperContent(exports)
-  const esmPath = path.join(BUILD_CONFIG.distDir, BUILD_CONFIG.outputs.esm)
+    const esmWrapper = generateESMWrapperContent(exports, entry)
+    const esmPath = path.join(BUILD_CONFIG.distDir, `${entry}.mjs`)
 
-  fs.writeFileSync(esmPath, esmWrapper, 'utf8')
-  log.success(`ES Modules wrapper created: ${BUILD_CONFIG.outputs.esm}`)
+    fs.writeFileSync(esmPath, esmWrapper, 'utf8')
+    log.success(`ES Modules wrapper created: ${entry}.mjs`)
+  })
 }
 
 /**
  * Generate the content for ESM wrapper
  */
-function generateESMWrapperContent(exports) {
+function generateESMWrapperContent(exports, entry) {
   const header = `/**
  * ES Modules wrapper for cnj-validate
  * 
@@ -153,7 +181,7 @@ function generateESMWrapperContent(exports) {
     exports.length > 0
       ? `
 // Import the default export from CommonJS module
-import cjsModule from './index.js';
+import cjsModule from './${entry}.js';
 
 // Re-export all named exports individually  
 ${exports
@@ -170,17 +198,35 @@ export default cjsModule;
   return header + namedExports + defaultExport
 }
 
+/**
+ * Copy the per-segment district files, which are only loaded dynamically
+ * and therefore not emitted by tsc
+ */
+function copyDistrictChunks() {
+  log.step('5️⃣', 'Copying district chunks...')
+
+  const { src, dist } = BUILD_CONFIG.districtChunks
+  const files = fs.readdirSync(src).filter((file) => file.endsWith('.json'))
+
+  fs.mkdirSync(dist, { recursive: true })
+  files.forEach((file) =>
+    fs.copyFileSync(path.join(src, file), path.join(dist, file)),
+  )
+
+  log.success(`${files.length} district chunks copied to ${dist}/`)
+}
+
 /**
  * Validate the build output
  */
 function validateBuild() {
-  log.step('4️⃣', 'Validating build output...')
+  log.step('6️⃣', 'Validating build output...')
 
-  const requiredFiles = [
-    BUILD_CONFIG.outputs.cjs,
-    BUILD_CONFIG.outputs.esm,
-    BUILD_CONFIG.outputs.types,
-  ]
+  const requiredFiles = BUILD_CONFIG.entries.flatMap((entry) => [
+    `${entry}.js`,
+    `${entry}.mjs`,
+    `${entry}.d.ts`,
+  ])
 
   const missingFiles = requiredFiles.filter((file) => {
     const filePath = path.join(BUILD_CONFIG.distDir, file)
@@ -226,6 +272,8 @@ function displaySummary() {
   console.log(`   • ${BUILD_CONFIG.outputs.cjs} (CommonJS)`)
   console.log(`   • ${BUILD_CONFIG.outputs.esm} (ES Modules)`)
   console.log(`   • ${BUILD_CONFIG.outputs.types} (TypeScript definitions)`)
+  console.log('   • validator.js/.mjs/.d.ts (validator without district data)')
+  console.log('   • data/districts/*.json (district data per segment)')
   console.log(`   • *.map (Source maps)`)
 
   console.log('\n🚀 Ready for distribution!')
@@ -249,8 +297,10 @@ async function build() {
 
     // Execute build steps
     cleanDist()
+    checkDistrictIndex()
     compileCommonJS()
     generateESMWrapper()
+    copyDistrictChunks()
     validateBuild()
 
     // Display results
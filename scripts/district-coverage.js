@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+
+/**
+ * CNJ Validate CLI - Relatório de cobertura da base de distritos
+ *
+ * Uso global: cnj-coverage [arquivo-cnjs] [--json] [--limit N]
+ * Uso local:  node scripts/district-coverage.js [arquivo-cnjs] [--json]
+ *
+ * Sem arquivo, lista a cobertura por segmento e tribunal. Com um arquivo de
+ * CNJs (um por linha, primeira coluna do CSV), lista também as unidades de
+ * origem usadas no lote e ausentes da base.
+ */
+
+const fs = require('fs')
+const { findDistrictGaps, getDistrictCoverage } = require('../dist/index.js')
+
+function printHelp() {
+  console.log('🏛️ CNJ Validate - Cobertura da base de distritos')
+  console.log('')
+  console.log('📖 Uso:')
+  console.log('   cnj-coverage [arquivo-cnjs] [opções]')
+  console.log('')
+  console.log('📋 Exemplos:')
+  console.log('   cnj-coverage')
+  console.log('   cnj-coverage processes.csv --limit 50')
+  console.log('   cnj-coverage processes.csv --json > coverage.json')
+  console.log('')
+  console.log('ℹ️  Opções:')
+  console.log('   --json         Saída em JSON')
+  console.log(
+    '   --limit N      Máximo de chaves ausentes listadas (padrão: 20)',
+  )
+  console.log('   -h, --help     Mostrar esta ajuda')
+  console.log('')
+}
+
+function readCNJs(file) {
+  return fs
+    .readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((line) => line.split(/[,;]/)[0].trim())
+    .filter((cnj) => cnj)
+}
+
+function printCoverage(coverage) {
+  console.log(`📊 Unidades de origem na base: ${coverage.totalUnits}\n`)
+
+  coverage.segments.forEach((segment) => {
+    const covered = segment.courts.length - segment.emptyCourts.length
+    console.log(
+      `${segment.segment} - ${segment.name}: ${segment.units} unidades, ` +
+        `${covered}/${segment.courts.length} tribunais com dados`,
+    )
+    segment.courts
+      .filter((court) => court.units > 0)
+      .forEach((court) => {
+        console.log(
+          `   • ${court.key} ${court.acronym || ''}`.trimEnd() +
+            `: ${court.units}`,
+        )
+      })
+  })
+
+  if (coverage.emptyCourts.length > 0) {
+    console.log(
+      `\n⚠️  Tribunais sem unidades (${coverage.emptyCourts.length}):`,
+    )
+    console.log(`   ${coverage.emptyCourts.join(', ')}`)
+  }
+}
+
+function printGaps(gaps, limit) {
+  console.log(`\n🔎 Lote: ${gaps.total} CNJs`)
+  console.log(`   • Com unidade na base: ${gaps.resolved}`)
+  console.log(`   • Chaves ausentes: ${gaps.missing.length}`)
+  console.log(`   • Entradas inválidas: ${gaps.invalid.length}`)
+
+  gaps.missing.slice(0, limit).forEach((gap) => {
+    console.log(`   • ${gap.key}: ${gap.count} (ex.: ${gap.examples[0]})`)
+  })
+
+  if (gaps.missing.length > limit) {
+    console.log(`   • ... e mais ${gaps.missing.length - limit} chaves`)
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2)
+
+  if (args.includes('--help') || args.includes('-h')) {
+    printHelp()
+    process.exit(0)
+  }
+
+  const json = args.includes('--json')
+  const limitIndex = args.indexOf('--limit')
+  const limit = limitIndex === -1 ? 20 : parseInt(args[limitIndex + 1], 10)
+  const inputFile = args.find(
+    (arg, index) =>
+      !arg.startsWith('--') && (limitIndex === -1 || index !== limitIndex + 1),
+  )
+
+  if (isNaN(limit) || limit < 0) {
+    console.error('❌ Erro: --limit deve ser um número não negativo')
+    process.exit(1)
+  }
+
+  try {
+    const coverage = getDistrictCoverage()
+    const gaps = inputFile ? findDistrictGaps(readCNJs(inputFile)) : undefined
+
+    if (json) {
+      console.log(JSON.stringify({ coverage, gaps }, null, 2))
+      return
+    }
+
+    printCoverage(coverage)
+    if (gaps) {
+      printGaps(gaps, limit)
+    }
+  } catch (error) {
+    console.error('❌ Erro ao gerar relatório:', error.message)
+    process.exit(1)
+  }
+}
+
+// Executa apenas se chamado diretamente
+if (require.main === module) {
+  main()
+}
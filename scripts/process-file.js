@@ -3,13 +3,54 @@
 /**
  * CNJ Validate CLI - Processar arquivos CNJ
  *
- * Uso global: cnj-process <arquivo-entrada> [arquivo-saida]
+ * Uso global: cnj-process <arquivo-entrada> [arquivo-saida] [--instance <nível>]
  * Uso local:  node scripts/process-file.js <arquivo-entrada> [arquivo-saida]
  * Uso npx:   npx cnj-validate <arquivo-entrada> [arquivo-saida]
  */
 
-const { processFile } = require('../dist/csv/processor.js')
-const path = require('path')
+const { processFile } = require('../dist/csv/file-processor.js')
+const { parseInstanceLevel } = require('../dist/core/instance-analyzer.js')
+const { InstanceLevel } = require('../dist/types/instance.js')
+
+/**
+ * Separa os argumentos posicionais das opções --instance
+ * (aceita "--instance <nível>", "--instance=<nível>" e listas separadas por vírgula)
+ */
+function parseArgs(args) {
+  const files = []
+  const instances = []
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+    let value = null
+
+    if (arg === '--instance') {
+      value = args[++index]
+      if (value === undefined) {
+        throw new Error('Opção --instance requer um valor')
+      }
+    } else if (arg.startsWith('--instance=')) {
+      value = arg.slice('--instance='.length)
+    } else {
+      files.push(arg)
+      continue
+    }
+
+    value.split(',').forEach((name) => {
+      const level = parseInstanceLevel(name)
+      if (!level) {
+        throw new Error(
+          `Instância desconhecida: ${name} (use ${Object.values(InstanceLevel)
+            .map((level) => level.replace(/ /g, '-'))
+            .join(', ')})`,
+        )
+      }
+      instances.push(level)
+    })
+  }
+
+  return { files, instances }
+}
 
 async function main() {
   // Obter argumentos da linha de comando
@@ -24,31 +65,58 @@ async function main() {
     console.log('🏛️ CNJ Validate - CLI Tool')
     console.log('')
     console.log('📖 Uso:')
-    console.log('   cnj-process <arquivo-entrada> [arquivo-saida]')
-    console.log('   npx cnj-validate <arquivo-entrada> [arquivo-saida]')
+    console.log('   cnj-process <arquivo-entrada> [arquivo-saida] [opções]')
+    console.log(
+      '   npx cnj-validate <arquivo-entrada> [arquivo-saida] [opções]',
+    )
     console.log('')
     console.log('📋 Exemplos:')
     console.log('   cnj-process processes.csv')
     console.log('   cnj-process input.csv output.csv')
+    console.log(
+      '   cnj-process input.csv --instance primeiro-grau,turma-recursal',
+    )
     console.log('   npx cnj-validate@latest data.csv')
     console.log('')
     console.log('ℹ️  Opções:')
-    console.log('   -h, --help     Mostrar esta ajuda')
+    console.log('   -h, --help              Mostrar esta ajuda')
+    console.log(
+      '   --instance <nível>      Exportar apenas CNJs das instâncias informadas',
+    )
+    console.log(
+      `                           (${Object.values(InstanceLevel)
+        .map((level) => level.replace(/ /g, '-'))
+        .join(', ')})`,
+    )
     console.log('')
     process.exit(args.length === 0 ? 1 : 0)
   }
 
-  const inputFile = args[0]
-  const outputFile = args[1] // Opcional
+  let files
+  let instances
+  try {
+    ;({ files, instances } = parseArgs(args))
+  } catch (error) {
+    console.error(`❌ Erro: ${error.message}`)
+    process.exit(1)
+  }
+
+  const inputFile = files[0]
+  const outputFile = files[1] // Opcional
 
   console.log('🚀 Iniciando processamento de arquivo CNJ...\n')
   console.log(`📁 Arquivo de entrada: ${inputFile}`)
+  if (instances.length > 0) {
+    console.log(`🏛️  Instâncias: ${instances.join(', ')}`)
+  }
 
   try {
     const startTime = Date.now()
 
-    // Processa o arquivo usando processor.ts
-    const result = await processFile(inputFile, outputFile)
+    // Processa o arquivo usando file-processor.ts
+    const result = await processFile(inputFile, outputFile, {
+      ...(instances.length > 0 && { instances }),
+    })
 
     const endTime = Date.now()
     const totalTime = endTime - startTime
@@ -60,6 +128,9 @@ async function main() {
     console.log(`   • CNJs válidos: ${result.statistics.validCNJs}`)
     console.log(`   • CNJs inválidos: ${result.statistics.invalidCNJs}`)
     console.log(`   • Erros: ${result.statistics.errorCount}`)
+    if (instances.length > 0) {
+      console.log(`   • CNJs exportados: ${result.statistics.exportedCNJs}`)
+    }
     console.log(
       `   • Tempo de processamento: ${result.statistics.processingTime}ms`,
     )
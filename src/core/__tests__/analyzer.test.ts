@@ -5,15 +5,25 @@
 import {
   analyzeCNJ,
   analyzeCNJBatch,
+  filterByInstance,
   getBatchStatistics,
   isValidCNJComplete,
   writeCNJ,
 } from '../analyzer'
+import { InstanceLevel } from '../../types/instance'
+import { buildCNJ } from '../builder'
 
 describe('CNJ Analyzer', () => {
   const validCNJ = '0001327-64.2018.8.26.0158'
   const invalidCNJ = '0001327-65.2018.8.26.0158'
   const malformedCNJ = 'invalid-cnj'
+  const originalCompetenceCNJ = buildCNJ({
+    lawsuitNumber: 1,
+    protocolYear: 2020,
+    segment: 8,
+    court: 26,
+    sourceUnit: 0,
+  }).formatted
 
   describe('analyzeCNJ', () => {
     test('should analyze valid CNJ completely', () => {
@@ -30,6 +40,16 @@ describe('CNJ Analyzer', () => {
       expect(analysis.detailed).toBeTruthy()
     })
 
+    test('should classify the instance', () => {
+      expect(analyzeCNJ(validCNJ).instance).toEqual({
+        level: InstanceLevel.FIRST_GRADE,
+        explanation: 'Unidade de origem 0158 (foro): primeiro grau',
+      })
+      expect(analyzeCNJ(originalCompetenceCNJ).instance?.level).toBe(
+        InstanceLevel.SECOND_GRADE,
+      )
+    })
+
     test('should have correct detailed information', () => {
       const analysis = analyzeCNJ(validCNJ)
 
@@ -41,6 +61,37 @@ describe('CNJ Analyzer', () => {
       expect(analysis.detailed.sourceUnit).toBe('0158')
     })
 
+    test('should expose the resolved tribunal', () => {
+      const analysis = analyzeCNJ(validCNJ)
+
+      expect(analysis.tribunal?.acronym).toBe('TJSP')
+      expect(analysis.tribunal?.name).toBe(
+        'Tribunal de Justiça do Estado de São Paulo',
+      )
+      expect(analysis.tribunal?.seat).toEqual({ uf: 'SP', city: 'São Paulo' })
+    })
+
+    test('should accept TRF6 numbers and check when the court existed', () => {
+      const current = analyzeCNJ('0000001-22.2023.4.06.3800')
+      const beforeCreation = analyzeCNJ('0000001-22.2023.4.06.3800', {
+        asOf: new Date('2021-01-01'),
+      })
+
+      expect(current.tribunal?.acronym).toBe('TRF6')
+      expect(current.validity?.isValid).toBe(true)
+      expect(beforeCreation.validity?.isValid).toBe(false)
+      expect(beforeCreation.validity?.asOf).toBe('2021-01-01')
+    })
+
+    test('should not throw for an invalid reference date', () => {
+      const analysis = analyzeCNJ('0001327-64.2018.8.26.0158', {
+        asOf: new Date('x'),
+      })
+
+      expect(analysis.validity?.isValid).toBe(false)
+      expect(analysis.validity?.issues[0].code).toBe('INVALID_REFERENCE_DATE')
+    })
+
     test('should analyze unformatted CNJ', () => {
       const analysis = analyzeCNJ('00013276420188260158')
       expect(analysis.validCNJ).toBe(true)
@@ -163,6 +214,28 @@ describe('CNJ Analyzer', () => {
     })
   })
 
+  describe('filterByInstance', () => {
+    const results = analyzeCNJBatch([validCNJ, originalCompetenceCNJ, 'x'])
+
+    test('should keep only analyses at the given instance', () => {
+      const filtered = filterByInstance(results, InstanceLevel.SECOND_GRADE)
+
+      expect(filtered.map((a) => a.receivedCNJ)).toEqual([
+        originalCompetenceCNJ,
+      ])
+    })
+
+    test('should accept several instances', () => {
+      const filtered = filterByInstance(results, [
+        InstanceLevel.FIRST_GRADE,
+        InstanceLevel.SECOND_GRADE,
+      ])
+
+      expect(filtered).toHaveLength(2)
+      expect(filterByInstance(results, InstanceLevel.COUNCIL)).toEqual([])
+    })
+  })
+
   describe('getBatchStatistics', () => {
     test('should calculate statistics for mixed results', () => {
       const validAnalysis = analyzeCNJ(validCNJ)
@@ -181,6 +254,21 @@ describe('CNJ Analyzer', () => {
       expect(stats.validityRate).toBeCloseTo(33.33, 1)
     })
 
+    test('should count analyses by instance', () => {
+      const firstGrade = analyzeCNJ(validCNJ)
+      const secondGrade = analyzeCNJ(originalCompetenceCNJ)
+      const stats = getBatchStatistics([
+        firstGrade,
+        firstGrade,
+        secondGrade,
+        { error: 'Test error', cnj: 'test' },
+      ])
+
+      expect(stats.byInstance[InstanceLevel.FIRST_GRADE]).toBe(2)
+      expect(stats.byInstance[InstanceLevel.SECOND_GRADE]).toBe(1)
+      expect(stats.byInstance[InstanceLevel.APPEALS_PANEL]).toBe(0)
+    })
+
     test('should handle all valid results', () => {
       const validAnalysis = analyzeCNJ(validCNJ)
       const results = [validAnalysis, validAnalysis]
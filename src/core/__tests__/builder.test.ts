@@ -0,0 +1,171 @@
+/**
+ * Tests for CNJ builder module
+ */
+
+import { getDistrictInfo } from '../../data/districts'
+import { CNJValidationError } from '../../types/errors'
+import { buildCNJ, createCNJBuilder } from '../builder'
+import { decomposeCNJ } from '../decomposer'
+import { isValidCNJ } from '../validator'
+
+describe('CNJ Builder', () => {
+  const components = {
+    lawsuitNumber: '0001327',
+    protocolYear: '2018',
+    segment: '8',
+    court: '26',
+    sourceUnit: '0158',
+  }
+
+  describe('buildCNJ', () => {
+    test('should compute verifying digit and format', () => {
+      const cnj = buildCNJ(components)
+
+      expect(cnj.formatted).toBe('0001327-64.2018.8.26.0158')
+      expect(cnj.unformatted).toBe('00013276420188260158')
+      expect(cnj.verifyingDigit).toBe('64')
+      expect(isValidCNJ(cnj.formatted)).toBe(true)
+    })
+
+    test('should pad numeric components', () => {
+      const cnj = buildCNJ({
+        lawsuitNumber: 1327,
+        protocolYear: 2018,
+        segment: 8,
+        court: 26,
+        sourceUnit: 158,
+      })
+
+      expect(cnj.formatted).toBe('0001327-64.2018.8.26.0158')
+      expect(cnj.components.sourceUnit).toBe('0158')
+    })
+
+    test('should be the inverse of decomposeCNJ', () => {
+      const cnj = buildCNJ(components)
+      const decomposed = decomposeCNJ(cnj.formatted)
+
+      expect(decomposed.lawsuitNumber).toBe(cnj.components.lawsuitNumber)
+      expect(decomposed.verifyingDigit).toBe(cnj.components.verifyingDigit)
+      expect(decomposed.sourceUnit).toBe(cnj.components.sourceUnit)
+    })
+
+    test('should reject malformed components', () => {
+      expect(() =>
+        buildCNJ({ ...components, lawsuitNumber: '12345678' }),
+      ).toThrow('Número do processo deve ter 7 dígitos')
+      expect(() => buildCNJ({ ...components, sourceUnit: 'AB' })).toThrow(
+        CNJValidationError,
+      )
+    })
+
+    test('should reject unknown segments and courts', () => {
+      expect(() => buildCNJ({ ...components, segment: 0 })).toThrow(
+        'Código de segmento inválido',
+      )
+      expect(() => buildCNJ({ ...components, court: 99 })).toThrow(
+        'Código de tribunal inválido',
+      )
+    })
+  })
+
+  describe('createCNJBuilder', () => {
+    test('should build from chained components', () => {
+      const cnj = createCNJBuilder()
+        .lawsuitNumber(1327)
+        .protocolYear(2018)
+        .segment(8)
+        .court(26)
+        .sourceUnit(158)
+        .build()
+
+      expect(cnj.formatted).toBe('0001327-64.2018.8.26.0158')
+    })
+
+    test('should be immutable', () => {
+      const base = createCNJBuilder()
+        .fromDistrict('8.26.0158')
+        .protocolYear(2018)
+      const first = base.lawsuitNumber(1327)
+      const second = base.lawsuitNumber(1328)
+
+      expect(base.components.lawsuitNumber).toBeUndefined()
+      expect(first.build().formatted).toBe('0001327-64.2018.8.26.0158')
+      expect(second.build().formatted).not.toBe(first.build().formatted)
+    })
+
+    test('should not expose its internal components', () => {
+      const builder = createCNJBuilder()
+        .fromDistrict('8.26.0158')
+        .lawsuitNumber(1327)
+        .protocolYear(2018)
+      const components = builder.components as { court?: number | string }
+
+      expect(Object.isFrozen(builder.components)).toBe(true)
+      expect(() => {
+        components.court = '99'
+      }).toThrow(TypeError)
+      expect(builder.build().formatted).toBe('0001327-64.2018.8.26.0158')
+    })
+
+    test('should seed from district key and info', () => {
+      const info = getDistrictInfo('8.26.0158')
+      expect(info).not.toBeNull()
+
+      const fromKey = createCNJBuilder().fromDistrict('8.26.0158')
+      const fromInfo = createCNJBuilder().segment(8).fromDistrict(info!)
+
+      expect(fromKey.components).toEqual({
+        segment: '8',
+        court: '26',
+        sourceUnit: '0158',
+      })
+      expect(fromInfo.components).toEqual(fromKey.components)
+    })
+
+    test('should match districts by content', () => {
+      const builder = createCNJBuilder().fromDistrict({
+        sourceUnit: 'São Paulo',
+        uf: 'SP',
+        district: 'São Paulo',
+      })
+
+      const { segment, court, sourceUnit } = builder.components
+
+      expect(getDistrictInfo(`${segment}.${court}.${sourceUnit}`)).toEqual({
+        sourceUnit: 'São Paulo',
+        uf: 'SP',
+        district: 'São Paulo',
+      })
+    })
+
+    test('should seed from UF', () => {
+      const builder = createCNJBuilder().fromUF('sp')
+
+      expect(builder.components).toEqual({ segment: '8', court: '26' })
+      expect(createCNJBuilder().fromUF('MG').components.court).toBe('13')
+    })
+
+    test('should seed from tribunal acronym', () => {
+      expect(createCNJBuilder().fromTribunal('TRT15').components).toEqual({
+        segment: '5',
+        court: '15',
+      })
+      expect(() => createCNJBuilder().fromTribunal('TJXX')).toThrow(
+        'Tribunal não encontrado: TJXX',
+      )
+    })
+
+    test('should reject unknown districts and UFs', () => {
+      expect(() => createCNJBuilder().fromDistrict('8.26.9999')).toThrow(
+        CNJValidationError,
+      )
+      expect(() => createCNJBuilder().fromUF('XX')).toThrow(CNJValidationError)
+    })
+
+    test('should report missing components', () => {
+      expect(() => createCNJBuilder().fromUF('SP').build()).toThrow(
+        'Componentes não informados: lawsuitNumber, protocolYear, sourceUnit',
+      )
+    })
+  })
+})
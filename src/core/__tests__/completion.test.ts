@@ -0,0 +1,122 @@
+/**
+ * Tests for CNJ wildcard completion module
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { CNJValidationError } from '../../types/errors'
+import { completeCNJ } from '../completion'
+import { isValidCNJ } from '../validator'
+
+describe('CNJ Completion', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+
+  describe('completeCNJ', () => {
+    test('should complete a single unknown digit', () => {
+      const candidates = Array.from(completeCNJ('00013?7-64.2018.8.26.0158'))
+      expect(candidates).toEqual([validCNJ])
+    })
+
+    test('should complete unformatted patterns', () => {
+      const candidates = Array.from(completeCNJ('00013?76420188260158'))
+      expect(candidates).toEqual([validCNJ])
+    })
+
+    test('should compute unknown verifying digits directly', () => {
+      const candidates = Array.from(completeCNJ('0001327-??.2018.8.26.0158'))
+      expect(candidates).toEqual([validCNJ])
+    })
+
+    test('should return only valid CNJs', () => {
+      const candidates = Array.from(completeCNJ('000??27-64.2018.8.26.0158'))
+
+      expect(candidates).toContain(validCNJ)
+      candidates.forEach((cnj) => expect(isValidCNJ(cnj)).toBe(true))
+    })
+
+    test('should be lazy and respect limit', () => {
+      const iterator = completeCNJ('000????-??.2018.8.26.0158', { limit: 5 })
+      const first = iterator.next()
+
+      expect(first.done).toBe(false)
+      expect(isValidCNJ(first.value as string)).toBe(true)
+      expect(Array.from(iterator)).toHaveLength(4)
+    })
+
+    test('should discard implausible years by default', () => {
+      const candidates = Array.from(completeCNJ('0001327-??.?018.8.26.0158'))
+      expect(candidates).toEqual([validCNJ])
+
+      const all = Array.from(
+        completeCNJ('0001327-??.?018.8.26.0158', { validateYear: false }),
+      )
+      expect(all).toHaveLength(10)
+    })
+
+    test('should constrain to known districts', () => {
+      const candidates = Array.from(
+        completeCNJ('0001327-??.2018.8.26.01??', { knownDistrictsOnly: true }),
+      )
+
+      expect(candidates).toContain(validCNJ)
+      expect(candidates.length).toBeLessThan(100)
+      candidates.forEach((cnj) => {
+        expect(cnj.startsWith('0001327-')).toBe(true)
+        expect(cnj).toMatch(/\.8\.26\.01\d\d$/)
+      })
+    })
+
+    test('should constrain to the given district registry', () => {
+      const districts = new DistrictRegistry({
+        '8.26.9876': {
+          sourceUnit: 'Foro de teste',
+          uf: 'SP',
+          district: 'São Paulo',
+        },
+      })
+      const candidates = Array.from(
+        completeCNJ('0001327-??.2018.8.26.????', {
+          knownDistrictsOnly: true,
+          districts,
+        }),
+      )
+
+      expect(candidates).toEqual(['0001327-10.2018.8.26.9876'])
+    })
+
+    test('should throw for invalid patterns', () => {
+      expect(() => Array.from(completeCNJ('invalid'))).toThrow(
+        CNJValidationError,
+      )
+      expect(() => Array.from(completeCNJ('00013?7-64.2018'))).toThrow(
+        CNJValidationError,
+      )
+    })
+
+    test('should throw when there are too many unknown digits', () => {
+      expect(() =>
+        Array.from(completeCNJ('???????-??.????.8.26.0158')),
+      ).toThrow('Dígitos desconhecidos demais')
+      expect(() =>
+        Array.from(
+          completeCNJ('00013?7-64.2018.8.26.0158', { maxUnknownDigits: 0 }),
+        ),
+      ).toThrow(CNJValidationError)
+    })
+
+    test('should validate the pattern when called, before iteration', () => {
+      expect(() => completeCNJ('?'.repeat(20))).toThrow(
+        'Dígitos desconhecidos demais',
+      )
+      expect(() => completeCNJ('invalid')).toThrow(CNJValidationError)
+    })
+
+    test('should count unknown district digits with knownDistrictsOnly', () => {
+      expect(() =>
+        completeCNJ('0001327-64.2018.?.??.????', {
+          knownDistrictsOnly: true,
+          maxUnknownDigits: 6,
+        }),
+      ).toThrow('Dígitos desconhecidos demais: 7')
+    })
+  })
+})
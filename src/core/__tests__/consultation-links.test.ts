@@ -0,0 +1,172 @@
+/**
+ * Tests for tribunal consultation URL builder
+ */
+
+import { CONSULTATION_LINKS } from '../../data/consultation-links'
+import { getAllTribunals } from '../../data/tribunals'
+import { ConsultationLinkTable } from '../../types/consultation'
+import { InstanceLevel } from '../../types/instance'
+import { buildCNJ } from '../builder'
+import { buildConsultationLinks } from '../consultation-links'
+
+describe('Consultation Links', () => {
+  const tjspCNJ = '0001327-64.2018.8.26.0158'
+  const cnj = (segment: number, court: number, sourceUnit: number) =>
+    buildCNJ({
+      lawsuitNumber: 1327,
+      protocolYear: 2018,
+      segment,
+      court,
+      sourceUnit,
+    }).formatted
+
+  describe('buildConsultationLinks', () => {
+    test('should build the first grade e-SAJ link for TJSP', () => {
+      const result = buildConsultationLinks(tjspCNJ)
+      const { links } = result
+
+      expect(result).toMatchObject({
+        tribunal: '8.26',
+        supported: true,
+        tableVersion: CONSULTATION_LINKS.version,
+      })
+      expect(result.reason).toBeUndefined()
+      expect(links).toHaveLength(1)
+      expect(links[0]).toMatchObject({
+        system: 'esaj',
+        label: 'e-SAJ - TJSP (1º grau)',
+        prefilled: true,
+      })
+      expect(links[0].url).toContain('cpopg/search.do')
+      expect(links[0].url).toContain(
+        'numeroDigitoAnoUnificado=0001327-64.2018&foroNumeroUnificado=0158',
+      )
+      expect(links[0].url).toContain(
+        'dadosConsulta.valorConsultaNuUnificado=0001327-64.2018.8.26.0158',
+      )
+    })
+
+    test('should pick the link for the decoded instance', () => {
+      const { links } = buildConsultationLinks(cnj(8, 26, 0))
+
+      expect(links.map((link) => link.label)).toEqual([
+        'e-SAJ - TJSP (2º grau)',
+      ])
+      expect(links[0].url).toContain('cposg/search.do')
+    })
+
+    test('should accept unformatted numbers', () => {
+      expect(buildConsultationLinks('00013276420188260158')).toEqual(
+        buildConsultationLinks(tjspCNJ),
+      )
+    })
+
+    test('should build labor court links for every region', () => {
+      const [link] = buildConsultationLinks(cnj(5, 15, 1)).links
+
+      expect(link).toEqual({
+        system: 'pje',
+        label: 'PJe - TRT da 15ª Região',
+        url: `https://pje.trt15.jus.br/consultaprocessual/detalhe-processo/${cnj(5, 15, 1)}`,
+        prefilled: true,
+      })
+    })
+
+    test('should fall back to segment links', () => {
+      const { links } = buildConsultationLinks(cnj(6, 26, 1))
+
+      expect(links).toEqual([
+        {
+          system: 'pje',
+          label: 'PJe - Justiça Eleitoral',
+          url: 'https://consultaunificadapje.tse.jus.br/',
+          prefilled: false,
+        },
+      ])
+    })
+
+    test('should use the unformatted number placeholder', () => {
+      const [link] = buildConsultationLinks(cnj(3, 0, 0)).links
+
+      expect(link.url).toMatch(/termo=\d{20}$/)
+    })
+
+    test('should report tribunals without links as unsupported', () => {
+      expect(buildConsultationLinks(cnj(8, 13, 24))).toEqual({
+        tribunal: '8.13',
+        supported: false,
+        reason: 'TRIBUNAL_NOT_COVERED',
+        links: [],
+        tableVersion: CONSULTATION_LINKS.version,
+      })
+    })
+
+    test('should report instances without links as unsupported', () => {
+      const table: ConsultationLinkTable = {
+        version: 'test',
+        links: {
+          '8.26': [CONSULTATION_LINKS.links['8.26'][0]],
+        },
+      }
+
+      expect(buildConsultationLinks(cnj(8, 26, 0), table)).toMatchObject({
+        supported: false,
+        reason: 'INSTANCE_NOT_COVERED',
+        links: [],
+      })
+    })
+
+    test('should give every tribunal either links or a reason', () => {
+      getAllTribunals().forEach((tribunal) => {
+        const result = buildConsultationLinks(
+          cnj(tribunal.segment, Number(tribunal.court), 1),
+        )
+
+        expect(result.tribunal).toBe(`${tribunal.segment}.${tribunal.court}`)
+        expect(result.supported).toBe(result.links.length > 0)
+        expect(result.reason).toBe(
+          result.supported ? undefined : 'TRIBUNAL_NOT_COVERED',
+        )
+      })
+    })
+
+    test('should accept a custom table', () => {
+      const table: ConsultationLinkTable = {
+        version: 'test',
+        links: {
+          '8.13': [
+            {
+              system: 'pje',
+              label: 'PJe - TJMG',
+              url: 'https://example.test/{segment}/{court}/{sourceUnit}',
+              instances: [InstanceLevel.FIRST_GRADE],
+            },
+          ],
+        },
+      }
+
+      expect(buildConsultationLinks(cnj(8, 13, 24), table).links[0].url).toBe(
+        'https://example.test/8/13/0024',
+      )
+      expect(buildConsultationLinks(cnj(8, 13, 0), table).links).toEqual([])
+    })
+
+    test('should throw for malformed numbers', () => {
+      expect(() => buildConsultationLinks('invalid')).toThrow()
+    })
+  })
+
+  describe('CONSULTATION_LINKS', () => {
+    test('should be versioned', () => {
+      expect(CONSULTATION_LINKS.version).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+    })
+
+    test('should only use https URLs', () => {
+      const urls = Object.values(CONSULTATION_LINKS.links)
+        .flat()
+        .map((template) => template.url)
+
+      expect(urls.every((url) => url.startsWith('https://'))).toBe(true)
+    })
+  })
+})
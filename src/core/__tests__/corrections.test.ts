@@ -0,0 +1,106 @@
+/**
+ * Tests for CNJ correction suggestions module
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { suggestCorrections } from '../corrections'
+import { isValidCNJ } from '../validator'
+
+describe('CNJ Corrections', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+
+  describe('suggestCorrections', () => {
+    test('should return no suggestions for valid CNJ', () => {
+      expect(suggestCorrections(validCNJ)).toEqual([])
+    })
+
+    test('should return no suggestions for incomplete input', () => {
+      expect(suggestCorrections('0001327-64.2018')).toEqual([])
+      expect(suggestCorrections('')).toEqual([])
+    })
+
+    test('should detect swapped verifying digit', () => {
+      const [best] = suggestCorrections('0001327-46.2018.8.26.0158')
+
+      expect(best.cnj).toBe(validCNJ)
+      expect(best.kind).toBe('swapped-verifying-digit')
+      expect(best.positions).toEqual([7, 8])
+    })
+
+    test('should detect adjacent transpositions', () => {
+      const suggestions = suggestCorrections('0001372-64.2018.8.26.0158')
+      const [best] = suggestions
+
+      expect(best.cnj).toBe(validCNJ)
+      expect(best.kind).toBe('transposition')
+      expect(best.positions).toEqual([5, 6])
+    })
+
+    test('should detect single-digit substitutions', () => {
+      const suggestions = suggestCorrections('0001827-64.2018.8.26.0158')
+      const match = suggestions.find((s) => s.cnj === validCNJ)
+
+      expect(match).toBeDefined()
+      expect(match?.kind).toBe('substitution')
+      expect(match?.positions).toEqual([4])
+    })
+
+    test('should only suggest valid CNJs with known districts', () => {
+      const suggestions = suggestCorrections('0001327-11.2018.8.26.0158')
+
+      expect(suggestions.length).toBeGreaterThan(1)
+      suggestions.forEach((suggestion) => {
+        expect(isValidCNJ(suggestion.cnj)).toBe(true)
+        expect(suggestion.cnj.endsWith('.8.26.0158')).toBe(true)
+      })
+    })
+
+    test('should rank suggestions by score', () => {
+      const suggestions = suggestCorrections('0001327-11.2018.8.26.0158')
+      const scores = suggestions.map((s) => s.score)
+
+      expect(scores).toEqual([...scores].sort((a, b) => b - a))
+      expect(suggestions[suggestions.length - 1].kind).toBe('verifying-digit')
+    })
+
+    test('should favor visually similar digits', () => {
+      const [best] = suggestCorrections('0001327-11.2018.8.26.0100')
+
+      expect(best.kind).toBe('substitution')
+      expect(best.score).toBe(0.8)
+    })
+
+    test('should respect limit', () => {
+      expect(
+        suggestCorrections('0001327-11.2018.8.26.0158', { limit: 2 }),
+      ).toHaveLength(2)
+    })
+
+    test('should allow unknown districts when requested', () => {
+      // 8.26.9876 não existe na base de distritos
+      const cnj = '0001327-11.2018.8.26.9876'
+
+      expect(suggestCorrections(cnj)).toEqual([])
+      expect(
+        suggestCorrections(cnj, { requireKnownDistrict: false }).length,
+      ).toBeGreaterThan(0)
+    })
+
+    test('should use the given district registry', () => {
+      const districts = new DistrictRegistry({
+        '8.26.9876': {
+          sourceUnit: 'Foro de teste',
+          uf: 'SP',
+          district: 'São Paulo',
+        },
+      })
+
+      expect(
+        suggestCorrections('0001327-11.2018.8.26.9876', { districts }).length,
+      ).toBeGreaterThan(0)
+      expect(
+        suggestCorrections('0001327-46.2018.8.26.0158', { districts }),
+      ).toEqual([])
+    })
+  })
+})
@@ -114,7 +114,7 @@ describe('Court Analyzer', () => {
 
   describe('getMaxCourtBySegment', () => {
     test('should return correct limits for known segments', () => {
-      expect(getMaxCourtBySegment(4)).toBe(5) // TRF
+      expect(getMaxCourtBySegment(4)).toBe(6) // TRF
       expect(getMaxCourtBySegment(5)).toBe(24) // TRT
       expect(getMaxCourtBySegment(8)).toBe(27) // TJ
     })
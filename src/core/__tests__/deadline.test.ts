@@ -0,0 +1,221 @@
+/**
+ * Tests for procedural deadline calculator
+ */
+
+import { LOCAL_HOLIDAYS, mergeHolidayTables } from '../../data/holidays'
+import {
+  computeDeadline,
+  getEasterDate,
+  getHolidaysForYear,
+  isInRecess,
+} from '../deadline'
+import { buildCNJ } from '../builder'
+import { toISODate } from '../validity'
+import { CNJValidationError } from '../../types/errors'
+
+describe('Deadline Calculator', () => {
+  const tjspCNJ = '0001327-64.2018.8.26.0158'
+  const trf3CNJ = buildCNJ({
+    lawsuitNumber: 1,
+    protocolYear: 2020,
+    segment: 4,
+    court: 3,
+    sourceUnit: 6100,
+  }).formatted
+
+  describe('getEasterDate', () => {
+    test('should compute Easter Sunday', () => {
+      expect(toISODate(getEasterDate(2024))).toBe('2024-03-31')
+      expect(toISODate(getEasterDate(2025))).toBe('2025-04-20')
+      expect(toISODate(getEasterDate(2019))).toBe('2019-04-21')
+    })
+  })
+
+  describe('getHolidaysForYear', () => {
+    test('should resolve movable national holidays from Easter', () => {
+      const holidays = getHolidaysForYear(2024)
+      const byName = Object.fromEntries(holidays.map((h) => [h.name, h.date]))
+
+      expect(byName['Carnaval (segunda-feira)']).toBe('2024-02-12')
+      expect(byName['Carnaval (terça-feira)']).toBe('2024-02-13')
+      expect(byName['Sexta-feira Santa']).toBe('2024-03-29')
+      expect(byName['Corpus Christi']).toBe('2024-05-30')
+      expect(holidays.every((h) => h.scope === 'national')).toBe(true)
+    })
+
+    test('should respect holiday validity periods', () => {
+      const names = (year: number) =>
+        getHolidaysForYear(year).map((h) => h.name)
+
+      expect(names(2023)).not.toContain(
+        'Dia Nacional de Zumbi e da Consciência Negra',
+      )
+      expect(names(2024)).toContain(
+        'Dia Nacional de Zumbi e da Consciência Negra',
+      )
+    })
+
+    test('should include segment and tribunal tables', () => {
+      const tjsp = getHolidaysForYear(2024, '8.26.0158')
+      const federal = getHolidaysForYear(2024, '4.03.6100')
+
+      expect(tjsp).toContainEqual({
+        date: '2024-07-09',
+        name: 'Revolução Constitucionalista',
+        scope: 'tribunal',
+      })
+      expect(federal).toContainEqual({
+        date: '2024-03-27',
+        name: 'Quarta-feira Santa',
+        scope: 'segment',
+      })
+      expect(tjsp.map((h) => h.date)).not.toContain('2024-12-08')
+    })
+
+    test('should read local holidays from the given table', () => {
+      const holidays = getHolidaysForYear(2024, '8.26.0158', [], {
+        '8.26.0158': [{ name: 'Aniversário da cidade', date: '08-01' }],
+      })
+
+      expect(holidays).toContainEqual({
+        date: '2024-08-01',
+        name: 'Aniversário da cidade',
+        scope: 'district',
+      })
+      expect(holidays.map((h) => h.date)).not.toContain('2024-07-09')
+    })
+  })
+
+  describe('isInRecess', () => {
+    test('should cover December 20 to January 20', () => {
+      expect(isInRecess(new Date('2024-12-19T00:00:00Z'))).toBe(false)
+      expect(isInRecess(new Date('2024-12-20T00:00:00Z'))).toBe(true)
+      expect(isInRecess(new Date('2025-01-20T00:00:00Z'))).toBe(true)
+      expect(isInRecess(new Date('2025-01-21T00:00:00Z'))).toBe(false)
+    })
+  })
+
+  describe('computeDeadline', () => {
+    test('should skip weekends and tribunal holidays', () => {
+      const deadline = computeDeadline(tjspCNJ, '2024-07-05', 5)
+
+      expect(deadline).toMatchObject({
+        cnj: tjspCNJ,
+        tribunal: 'TJSP',
+        uf: 'SP',
+        startDate: '2024-07-05',
+        dueDate: '2024-07-15',
+        businessDays: 5,
+      })
+      expect(deadline.skipped.map((d) => [d.date, d.reason])).toEqual([
+        ['2024-07-06', 'weekend'],
+        ['2024-07-07', 'weekend'],
+        ['2024-07-09', 'holiday'],
+        ['2024-07-13', 'weekend'],
+        ['2024-07-14', 'weekend'],
+      ])
+    })
+
+    test('should apply segment holidays only to that segment', () => {
+      // Semana Santa 2024: quarta 27/03 e quinta 28/03 (Justiça Federal)
+      expect(computeDeadline(tjspCNJ, '2024-03-25', 3).dueDate).toBe(
+        '2024-03-28',
+      )
+      expect(computeDeadline(trf3CNJ, '2024-03-25', 3).dueDate).toBe(
+        '2024-04-02',
+      )
+    })
+
+    test('should suspend counting during the recess', () => {
+      const deadline = computeDeadline(tjspCNJ, '2024-12-18', 2)
+
+      expect(deadline.dueDate).toBe('2025-01-21')
+      expect(
+        deadline.skipped.filter((d) => d.reason === 'recess'),
+      ).toHaveLength(32)
+      expect(
+        computeDeadline(tjspCNJ, '2024-12-18', 2, { recess: false }).dueDate,
+      ).toBe('2024-12-20')
+    })
+
+    test('should accept extra holidays and Date inputs', () => {
+      const deadline = computeDeadline(tjspCNJ, new Date(2024, 6, 1), 1, {
+        holidays: [{ name: 'Suspensão de expediente', date: '2024-07-02' }],
+      })
+
+      expect(deadline.startDate).toBe('2024-07-01')
+      expect(deadline.dueDate).toBe('2024-07-03')
+      expect(deadline.skipped[0].holiday).toEqual({
+        date: '2024-07-02',
+        name: 'Suspensão de expediente',
+        scope: 'district',
+      })
+    })
+
+    test('should use district holidays from the given table', () => {
+      const holidayTable = mergeHolidayTables(LOCAL_HOLIDAYS, {
+        '8.26.0158': [{ name: 'Aniversário da cidade', date: '08-01' }],
+      })
+
+      expect(
+        computeDeadline(tjspCNJ, '2024-07-31', 1, { holidayTable }).dueDate,
+      ).toBe('2024-08-02')
+      expect(computeDeadline(tjspCNJ, '2024-07-31', 1).dueDate).toBe(
+        '2024-08-01',
+      )
+      expect(
+        computeDeadline(tjspCNJ, '2024-07-08', 1, { holidayTable: {} }).dueDate,
+      ).toBe('2024-07-09')
+      expect(LOCAL_HOLIDAYS['8.26.0158']).toBeUndefined()
+      expect(Object.isFrozen(LOCAL_HOLIDAYS)).toBe(true)
+    })
+
+    test('should start counting after a weekend notice', () => {
+      // Sábado, 06/07/2024: intimação considerada feita na segunda (08/07);
+      // 09/07 é feriado estadual em SP
+      const deadline = computeDeadline(tjspCNJ, '2024-07-06', 1)
+
+      expect(deadline.startDate).toBe('2024-07-06')
+      expect(deadline.dueDate).toBe('2024-07-10')
+      expect(deadline.skipped.map((d) => [d.date, d.reason])).toEqual([
+        ['2024-07-06', 'weekend'],
+        ['2024-07-07', 'weekend'],
+        ['2024-07-09', 'holiday'],
+      ])
+    })
+
+    test('should start counting after a holiday notice', () => {
+      expect(computeDeadline(tjspCNJ, '2024-07-09', 1).dueDate).toBe(
+        '2024-07-11',
+      )
+      expect(computeDeadline(tjspCNJ, '2024-07-09', 0).dueDate).toBe(
+        '2024-07-10',
+      )
+    })
+
+    test('should return the start date for zero days', () => {
+      expect(computeDeadline(tjspCNJ, '2024-07-05', 0).dueDate).toBe(
+        '2024-07-05',
+      )
+    })
+
+    test('should reject invalid arguments', () => {
+      expect(() => computeDeadline(tjspCNJ, '2024-07-05', -1)).toThrow(
+        'Quantidade de dias úteis deve ser um inteiro não negativo: -1',
+      )
+      expect(() => computeDeadline(tjspCNJ, 'amanhã', 1)).toThrow(
+        'Data de início inválida: amanhã',
+      )
+      expect(() => computeDeadline('invalid', '2024-07-05', 1)).toThrow()
+    })
+
+    test('should reject CNJs with an invalid verifying digit', () => {
+      expect(() =>
+        computeDeadline('0001327-99.2018.8.26.0158', '2024-07-05', 5),
+      ).toThrow(CNJValidationError)
+      expect(() =>
+        computeDeadline('0001327-99.2018.8.26.0158', '2024-07-05', 5),
+      ).toThrow('Dígito verificador inválido. Recebido: 99, Esperado: 64')
+    })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Tests for CNJ diagnostics module
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { CNJErrorType } from '../../types/errors'
+import { diagnoseCNJ } from '../diagnostics'
+
+describe('CNJ Diagnostics', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+  const validCNJUnformatted = '00013276420188260158'
+
+  const codesOf = (cnj: string) => diagnoseCNJ(cnj).issues.map((i) => i.code)
+
+  describe('valid input', () => {
+    test('should report no issues for valid formatted CNJ', () => {
+      const report = diagnoseCNJ(validCNJ)
+      expect(report.input).toBe(validCNJ)
+      expect(report.isValid).toBe(true)
+      expect(report.issues).toHaveLength(0)
+    })
+
+    test('should report no issues for valid unformatted CNJ', () => {
+      const report = diagnoseCNJ(validCNJUnformatted)
+      expect(report.isValid).toBe(true)
+      expect(report.issues).toHaveLength(0)
+    })
+  })
+
+  describe('multiple issues', () => {
+    test('should report every issue at once', () => {
+      // Segmento 0 (inválido) e dígito verificador incorreto
+      const report = diagnoseCNJ('0001327-65.2018.0.26.0158')
+
+      expect(report.isValid).toBe(false)
+      expect(report.issues.map((i) => i.code)).toEqual([
+        'INVALID_VERIFYING_DIGIT',
+        'INVALID_SEGMENT',
+      ])
+    })
+
+    test('should order issues by position', () => {
+      const report = diagnoseCNJ('0001327-65.2018.0.26.0158')
+      const starts = report.issues.map((i) => i.span.start)
+      expect(starts).toEqual([...starts].sort((a, b) => a - b))
+    })
+  })
+
+  describe('spans', () => {
+    test('should point to the verifying digit', () => {
+      const [issue] = diagnoseCNJ('0001327-65.2018.8.26.0158').issues
+      expect(issue.type).toBe(CNJErrorType.INVALID_VERIFYING_DIGIT)
+      expect(issue.severity).toBe('error')
+      expect(issue.span).toEqual({ start: 8, end: 10 })
+    })
+
+    test('should point to components in unformatted input', () => {
+      const [issue] = diagnoseCNJ('00013276520188260158').issues
+      expect(issue.span).toEqual({ start: 7, end: 9 })
+    })
+
+    test('should point to invalid characters', () => {
+      const report = diagnoseCNJ('0001327-64.2O18.8.26.0158')
+      const issue = report.issues.find((i) => i.code === 'INVALID_CHARACTER')
+      expect(issue?.span).toEqual({ start: 12, end: 13 })
+      expect(issue?.type).toBe(CNJErrorType.INVALID_FORMAT)
+    })
+
+    test('should group consecutive invalid characters', () => {
+      const report = diagnoseCNJ('0001327-64.2018.8.26.01ab')
+      const issues = report.issues.filter((i) => i.code === 'INVALID_CHARACTER')
+      expect(issues).toHaveLength(1)
+      expect(issues[0].span).toEqual({ start: 23, end: 25 })
+    })
+  })
+
+  describe('separators', () => {
+    test('should report wrong separators', () => {
+      const report = diagnoseCNJ('0001327.64.2018.8.26.0158')
+      expect(report.issues.map((i) => i.code)).toEqual(['INVALID_SEPARATOR'])
+      expect(report.issues[0].span).toEqual({ start: 7, end: 8 })
+    })
+
+    test('should report missing separators', () => {
+      const report = diagnoseCNJ('0001327-642018.8.26.0158')
+      const missing = report.issues.find((i) => i.code === 'MISSING_SEPARATOR')
+      expect(missing?.span).toEqual({ start: 10, end: 10 })
+      expect(codesOf('0001327-642018.8.26.0158')).toContain('INVALID_LENGTH')
+    })
+
+    test('should report unexpected separators', () => {
+      expect(codesOf('000-1327-64.2018.8.26.0158')).toContain(
+        'UNEXPECTED_SEPARATOR',
+      )
+    })
+
+    test('should point to surplus digits', () => {
+      const issue = diagnoseCNJ('0001327-64.2018.8.26.01589').issues.find(
+        (i) => i.code === 'SURPLUS_DIGITS',
+      )
+      expect(issue?.span).toEqual({ start: 25, end: 26 })
+    })
+  })
+
+  describe('length', () => {
+    test('should report invalid length', () => {
+      const report = diagnoseCNJ('123456789')
+      expect(report.isValid).toBe(false)
+      expect(report.issues[0].type).toBe(CNJErrorType.INVALID_LENGTH)
+      expect(report.issues[0].span).toEqual({ start: 0, end: 9 })
+    })
+
+    test('should handle empty input', () => {
+      const report = diagnoseCNJ('')
+      expect(report.isValid).toBe(false)
+      expect(report.issues.map((i) => i.code)).toEqual(['INVALID_LENGTH'])
+    })
+  })
+
+  describe('court and district', () => {
+    test('should report court out of range for segment', () => {
+      // Justiça Estadual possui apenas 27 tribunais
+      const report = diagnoseCNJ('0001327-38.2018.8.28.0158')
+      const issue = report.issues.find(
+        (i) => i.type === CNJErrorType.INVALID_COURT,
+      )
+      expect(issue?.span).toEqual({ start: 18, end: 20 })
+      expect(issue?.severity).toBe('error')
+    })
+
+    test('should warn about unknown district keys', () => {
+      const report = diagnoseCNJ('0001327-03.2018.8.26.9876')
+      const issue = report.issues.find(
+        (i) => i.type === CNJErrorType.DISTRICT_NOT_FOUND,
+      )
+      expect(issue?.severity).toBe('warning')
+      expect(issue?.span).toEqual({ start: 16, end: 25 })
+    })
+
+    test('should use the given district registry', () => {
+      const districts = new DistrictRegistry({
+        '8.26.9876': {
+          sourceUnit: 'Foro de teste',
+          uf: 'SP',
+          district: 'São Paulo',
+        },
+      })
+      const types = (cnj: string) =>
+        diagnoseCNJ(cnj, { districts }).issues.map((i) => i.type)
+
+      expect(types('0001327-10.2018.8.26.9876')).toEqual([])
+      expect(types(validCNJ)).toContain(CNJErrorType.DISTRICT_NOT_FOUND)
+    })
+
+    test('should warn about years out of range', () => {
+      const report = diagnoseCNJ('0000001-07.1997.8.26.0158')
+      const issue = report.issues.find(
+        (i) => i.type === CNJErrorType.INVALID_YEAR,
+      )
+      expect(issue?.severity).toBe('warning')
+      expect(report.isValid).toBe(true)
+    })
+  })
+})
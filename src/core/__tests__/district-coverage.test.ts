@@ -0,0 +1,115 @@
+/**
+ * Tests for district data coverage reports
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { DISTRICTS } from '../../data/districts'
+import { findDistrictGaps, getDistrictCoverage } from '../district-coverage'
+
+describe('District Coverage', () => {
+  describe('getDistrictCoverage', () => {
+    test('should count units per segment and court', () => {
+      const report = getDistrictCoverage()
+      const labor = report.segments.find((segment) => segment.segment === '5')
+
+      expect(report.totalUnits).toBe(Object.keys(DISTRICTS).length)
+      expect(labor?.name).toBe('Justiça do Trabalho')
+      expect(labor?.courts.find((court) => court.key === '5.02')).toEqual({
+        key: '5.02',
+        court: '02',
+        acronym: 'TRT2',
+        units: 225,
+      })
+      expect(
+        report.segments.reduce((total, segment) => total + segment.units, 0),
+      ).toBe(report.totalUnits)
+    })
+
+    test('should list tribunals without units', () => {
+      const report = getDistrictCoverage()
+      const military = report.segments.find(
+        (segment) => segment.segment === '7',
+      )
+
+      expect(military?.emptyCourts).toContain('7.01')
+      expect(military?.emptyCourts).not.toContain('7.00')
+      expect(report.emptyCourts).toEqual(
+        report.segments.reduce(
+          (keys, segment) => keys.concat(segment.emptyCourts),
+          [] as string[],
+        ),
+      )
+    })
+
+    test('should evaluate a custom registry', () => {
+      const registry = new DistrictRegistry({
+        '8.26.0100': { sourceUnit: 'Central', uf: 'SP', district: 'São Paulo' },
+        '8.99.0001': {
+          sourceUnit: 'Fictícia',
+          uf: 'SP',
+          district: 'São Paulo',
+        },
+      })
+      const report = getDistrictCoverage({ districts: registry })
+      const state = report.segments.find((segment) => segment.segment === '8')
+
+      expect(report.totalUnits).toBe(2)
+      expect(state?.units).toBe(2)
+      expect(state?.emptyCourts).toContain('8.13')
+      expect(state?.courts.find((court) => court.key === '8.99')).toEqual({
+        key: '8.99',
+        court: '99',
+        units: 1,
+      })
+    })
+  })
+
+  describe('findDistrictGaps', () => {
+    const registry = new DistrictRegistry({
+      '8.26.0158': { sourceUnit: 'Itaquera', uf: 'SP', district: 'São Paulo' },
+    })
+
+    test('should list missing district keys by frequency', () => {
+      const coverage = findDistrictGaps(
+        [
+          '0001327-64.2018.8.26.0158',
+          '0000001-00.2020.8.26.0100',
+          '00000020020208260100',
+          '0000003-00.2020.5.02.0001',
+        ],
+        { districts: registry },
+      )
+
+      expect(coverage.total).toBe(4)
+      expect(coverage.resolved).toBe(1)
+      expect(coverage.missing).toEqual([
+        {
+          key: '8.26.0100',
+          count: 2,
+          examples: ['0000001-00.2020.8.26.0100', '00000020020208260100'],
+        },
+        {
+          key: '5.02.0001',
+          count: 1,
+          examples: ['0000003-00.2020.5.02.0001'],
+        },
+      ])
+      expect(coverage.invalid).toEqual([])
+    })
+
+    test('should report entries that cannot be decomposed', () => {
+      const coverage = findDistrictGaps(['invalid-cnj', ''], {
+        districts: registry,
+      })
+
+      expect(coverage.invalid).toEqual(['invalid-cnj', ''])
+      expect(coverage.missing).toEqual([])
+    })
+
+    test('should use the global registry by default', () => {
+      const coverage = findDistrictGaps(['0001327-64.2018.8.26.0158'])
+
+      expect(coverage.resolved).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Tests for accent-insensitive district search
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { searchDistricts } from '../district-search'
+
+describe('District Search', () => {
+  const keysOf = (query: string, options = {}) =>
+    searchDistricts(query, options).map((result) => result.key)
+
+  test('should ignore accents, case and prepositions', () => {
+    const expected = [
+      '4.03.6103',
+      '4.03.6327',
+      '4.03.6903',
+      '8.26.0520',
+      '8.26.0577',
+    ]
+
+    expect(keysOf('São José dos Campos')).toEqual(expected)
+    expect(keysOf('SAO JOSE CAMPOS')).toEqual(expected)
+  })
+
+  test('should accept abbreviations', () => {
+    expect(keysOf('S. J. dos Campos', { uf: 'SP' })).toContain('8.26.0520')
+    expect(keysOf('Sto. André', { segment: 8 })).toContain('8.26.0554')
+    expect(keysOf('Pres. Prudente', { segment: 8 })).toContain('8.26.0482')
+  })
+
+  test('should rank typos by edit distance', () => {
+    const [result] = searchDistricts('Riberao Preto', { segment: 8 })
+
+    expect(result.info.sourceUnit).toBe('Ribeirão Preto')
+    expect(result.distance).toBe(1)
+  })
+
+  test('should complete the last word', () => {
+    const [result] = searchDistricts('Florianópo', { segment: 8 })
+
+    expect(result.info.sourceUnit).toBe('Florianópolis')
+    expect(result.distance).toBe(0.5)
+  })
+
+  test('should rank exact names before longer ones', () => {
+    const results = searchDistricts('Santa Rita', { segment: 8 })
+
+    expect(results[0].info.sourceUnit).toBe('Santa Rita')
+    expect(results.map((result) => result.info.sourceUnit)).toContain(
+      'Santa Rita do Sapucaí',
+    )
+  })
+
+  test('should filter by UF, segment and limit', () => {
+    const results = searchDistricts('Campinas', { uf: 'sp', limit: 3 })
+
+    expect(results).toHaveLength(3)
+    expect(results.every((result) => result.info.uf === 'SP')).toBe(true)
+    expect(
+      keysOf('Campinas', { segment: '5' }).every((key) => key.startsWith('5.')),
+    ).toBe(true)
+  })
+
+  test('should return nothing for empty or unknown queries', () => {
+    expect(searchDistricts('')).toEqual([])
+    expect(searchDistricts('de dos')).toEqual([])
+    expect(searchDistricts('Xyzwvut')).toEqual([])
+  })
+
+  test('should search a custom registry', () => {
+    const registry = new DistrictRegistry({
+      '8.26.9999': {
+        sourceUnit: 'Unidade Teste',
+        uf: 'SP',
+        district: 'São Paulo',
+      },
+    })
+
+    expect(searchDistricts('unidade teste', { districts: registry })).toEqual([
+      {
+        key: '8.26.9999',
+        info: registry.get('8.26.9999'),
+        distance: 0,
+      },
+    ])
+  })
+})
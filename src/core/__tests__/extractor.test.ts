@@ -0,0 +1,90 @@
+/**
+ * Tests for CNJ extraction module
+ */
+
+import { extractCNJs } from '../extractor'
+
+describe('CNJ Extractor', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+
+  describe('extractCNJs', () => {
+    test('should extract formatted CNJs with offsets', () => {
+      const text = `Processo nº ${validCNJ}, distribuído em 2018.`
+      const [match, ...rest] = extractCNJs(text)
+
+      expect(rest).toHaveLength(0)
+      expect(match.text).toBe(validCNJ)
+      expect(match.start).toBe(12)
+      expect(match.end).toBe(12 + validCNJ.length)
+      expect(text.slice(match.start, match.end)).toBe(validCNJ)
+      expect(match.normalized).toBe(validCNJ)
+      expect(match.validation.isValid).toBe(true)
+    })
+
+    test('should extract unformatted and partially formatted CNJs', () => {
+      const text =
+        'Autos 00013276420188260158; apenso 0001327-64.2018.8260158 e 0001327 64 2018 8 26 0158.'
+      const matches = extractCNJs(text)
+
+      expect(matches).toHaveLength(3)
+      matches.forEach((match) => {
+        expect(match.normalized).toBe(validCNJ)
+        expect(text.slice(match.start, match.end)).toBe(match.text)
+      })
+    })
+
+    test('should report invalid verifying digits', () => {
+      const matches = extractCNJs('Processo 0001327-65.2018.8.26.0158')
+
+      expect(matches).toHaveLength(1)
+      expect(matches[0].validation.isValid).toBe(false)
+      expect(matches[0].validation.errorCode).toBe('INVALID_VERIFYING_DIGIT')
+    })
+
+    test('should filter invalid CNJs with validOnly', () => {
+      const text = `0001327-65.2018.8.26.0158 e ${validCNJ}`
+      const matches = extractCNJs(text, { validOnly: true })
+
+      expect(matches.map((match) => match.normalized)).toEqual([validCNJ])
+    })
+
+    test('should respect limit', () => {
+      const text = `${validCNJ} ${validCNJ} ${validCNJ}`
+      expect(extractCNJs(text, { limit: 2 })).toHaveLength(2)
+    })
+
+    test('should ignore phone numbers and CPFs', () => {
+      const text =
+        'CPF 123.456.789-09, tel. (11) 98765-4321, +55 11 3456-7890, CNPJ 12.345.678/0001-95'
+      expect(extractCNJs(text)).toEqual([])
+    })
+
+    test('should ignore digits embedded in longer sequences', () => {
+      const barcode = '34191790010104351004791020150008291070026000'
+      expect(extractCNJs(barcode)).toEqual([])
+      expect(extractCNJs(`1${validCNJ}`)).toEqual([])
+      expect(extractCNJs(`${validCNJ}.1`)).toEqual([])
+    })
+
+    test('should ignore implausible segments and years', () => {
+      expect(extractCNJs('0001327-64.2018.0.26.0158')).toEqual([])
+      expect(extractCNJs('0001327-64.1970.8.26.0158')).toEqual([])
+    })
+
+    test('should keep implausible candidates when plausibleOnly is false', () => {
+      const matches = extractCNJs(
+        '0001327-64.2018.0.26.0158 e 00012348719958260100',
+        { plausibleOnly: false },
+      )
+      expect(matches.map((match) => match.normalized)).toEqual([
+        '0001327-64.2018.0.26.0158',
+        '0001234-87.1995.8.26.0100',
+      ])
+    })
+
+    test('should return empty array for text without CNJs', () => {
+      expect(extractCNJs('')).toEqual([])
+      expect(extractCNJs('Nenhum processo citado.')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Tests for CNJ faker module
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { getDistrictInfo, hasDistrict } from '../../data/districts'
+import { CNJErrorType } from '../../types/errors'
+import { FakeCNJErrorType } from '../../types/faker'
+import { diagnoseCNJ } from '../diagnostics'
+import { createCNJFaker } from '../faker'
+import { isValidCNJ } from '../validator'
+
+describe('CNJ Faker', () => {
+  describe('createCNJFaker', () => {
+    test('should be deterministic for the same seed', () => {
+      const first = createCNJFaker(42).take(20)
+      const second = createCNJFaker(42).take(20)
+      const other = createCNJFaker(43).take(20)
+
+      expect(first).toEqual(second)
+      expect(first).not.toEqual(other)
+    })
+
+    test('should not depend on the current date', () => {
+      const years = (year: number) => {
+        jest.useFakeTimers().setSystemTime(new Date(`${year}-06-01`))
+        try {
+          return createCNJFaker(42).take(50)
+        } finally {
+          jest.useRealTimers()
+        }
+      }
+
+      const sequence = years(2024)
+      expect(years(2031)).toEqual(sequence)
+      expect(
+        sequence.every((fake) => Number(fake.cnj.substring(11, 15)) <= 2024),
+      ).toBe(true)
+    })
+
+    test('should accept string seeds', () => {
+      const faker = createCNJFaker('fixtures')
+
+      expect(typeof faker.seed).toBe('number')
+      expect(faker.cnj()).toBe(createCNJFaker('fixtures').cnj())
+    })
+
+    test('should generate valid CNJs from known districts', () => {
+      createCNJFaker(1)
+        .take(200)
+        .forEach((fake) => {
+          expect(fake.isValid).toBe(true)
+          expect(isValidCNJ(fake.cnj)).toBe(true)
+          expect(hasDistrict(fake.districtKey)).toBe(true)
+          expect(fake.cnj.endsWith(fake.districtKey.substring(1))).toBe(true)
+        })
+    })
+
+    test('should restrict by UF, segment and year range', () => {
+      const fakes = createCNJFaker(7, {
+        uf: ['sp', 'RJ'],
+        segment: 8,
+        minYear: 2015,
+        maxYear: 2016,
+      }).take(100)
+
+      fakes.forEach(({ cnj, districtKey }) => {
+        expect(['SP', 'RJ']).toContain(getDistrictInfo(districtKey)?.uf)
+        expect(cnj).toMatch(/^\d{7}-\d{2}\.(2015|2016)\.8\.(19|26)\.\d{4}$/)
+      })
+    })
+
+    test('should generate unformatted CNJs', () => {
+      const cnj = createCNJFaker(3, { formatted: false }).cnj()
+      expect(cnj).toMatch(/^\d{20}$/)
+    })
+
+    test('should inject the configured ratio of invalid numbers', () => {
+      const fakes = createCNJFaker(5, {
+        invalidRatio: { INVALID_VERIFYING_DIGIT: 0.3 },
+      }).take(1000)
+      const invalid = fakes.filter((fake) => !fake.isValid)
+
+      expect(invalid.length).toBeGreaterThan(250)
+      expect(invalid.length).toBeLessThan(350)
+      invalid.forEach((fake) => {
+        expect(fake.errorType).toBe(CNJErrorType.INVALID_VERIFYING_DIGIT)
+        expect(isValidCNJ(fake.cnj)).toBe(false)
+      })
+    })
+
+    test('should inject each supported error type', () => {
+      const types: FakeCNJErrorType[] = [
+        CNJErrorType.INVALID_FORMAT,
+        CNJErrorType.INVALID_LENGTH,
+        CNJErrorType.INVALID_VERIFYING_DIGIT,
+        CNJErrorType.INVALID_SEGMENT,
+        CNJErrorType.INVALID_COURT,
+        CNJErrorType.INVALID_YEAR,
+        CNJErrorType.DISTRICT_NOT_FOUND,
+      ]
+
+      types.forEach((type) => {
+        createCNJFaker(11, { invalidRatio: { [type]: 1 } })
+          .take(20)
+          .forEach((fake) => {
+            expect(fake.errorType).toBe(type)
+            const issueTypes = diagnoseCNJ(fake.cnj).issues.map(
+              (issue) => issue.type,
+            )
+            expect(issueTypes).toContain(type)
+          })
+      })
+    })
+
+    test('should use the given district registry', () => {
+      const districts = new DistrictRegistry({
+        '8.26.9876': {
+          sourceUnit: 'Foro de teste',
+          uf: 'SP',
+          district: 'São Paulo',
+        },
+      })
+      const valid = createCNJFaker(17, { districts }).take(5)
+      const missing = createCNJFaker(17, {
+        districts,
+        invalidRatio: { DISTRICT_NOT_FOUND: 1 },
+      }).take(5)
+
+      valid.forEach((fake) => expect(fake.districtKey).toBe('8.26.9876'))
+      missing.forEach((fake) => {
+        const issueTypes = diagnoseCNJ(fake.cnj, { districts }).issues.map(
+          (issue) => issue.type,
+        )
+        expect(issueTypes).toContain(CNJErrorType.DISTRICT_NOT_FOUND)
+      })
+    })
+
+    test('should keep a valid digit for injected years', () => {
+      createCNJFaker(13, { invalidRatio: { INVALID_YEAR: 1 } })
+        .take(20)
+        .forEach((fake) => {
+          expect(isValidCNJ(fake.cnj)).toBe(true)
+          expect(isValidCNJ(fake.cnj, {})).toBe(false)
+        })
+    })
+
+    test('should return only valid numbers from cnj()', () => {
+      const faker = createCNJFaker(9, {
+        invalidRatio: { INVALID_COURT: 1 },
+      })
+
+      expect(isValidCNJ(faker.cnj())).toBe(true)
+      expect(faker.next().isValid).toBe(false)
+    })
+
+    test('should reject invalid options', () => {
+      expect(() => createCNJFaker(1, { uf: 'XX' })).toThrow(
+        'Nenhum distrito corresponde aos filtros informados',
+      )
+      expect(() => createCNJFaker(1, { minYear: 2020, maxYear: 2019 })).toThrow(
+        'Intervalo de anos inválido',
+      )
+      expect(() =>
+        createCNJFaker(1, {
+          invalidRatio: { INVALID_FORMAT: 0.6, INVALID_LENGTH: 0.6 },
+        }),
+      ).toThrow('Proporção total de inválidos maior que 1')
+    })
+  })
+})
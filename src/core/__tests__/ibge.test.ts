@@ -0,0 +1,109 @@
+/**
+ * Tests for IBGE municipality code mapping
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { IBGE_TABLE } from '../../data/ibge'
+import { IBGETable } from '../../types/ibge'
+import { analyzeCNJ } from '../analyzer'
+import { findIBGECode, getDistrictIBGE } from '../ibge'
+
+describe('IBGE Mapping', () => {
+  const saoPaulo = {
+    seat: '3550308',
+    municipalities: ['3550308'],
+    source: 'table',
+  }
+
+  describe('findIBGECode', () => {
+    test('should find municipalities ignoring accents and case', () => {
+      expect(findIBGECode('São José dos Campos', 'SP')).toBe('3549904')
+      expect(findIBGECode('sao jose dos campos', 'sp')).toBe('3549904')
+      expect(findIBGECode('BELEM', 'PA')).toBe('1501402')
+    })
+
+    test('should require the municipality to be in the given UF', () => {
+      expect(findIBGECode('Campo Grande', 'MS')).toBe('5002704')
+      expect(findIBGECode('Campo Grande', 'RJ')).toBeNull()
+    })
+
+    test('should use a custom table', () => {
+      const ibge: IBGETable = {
+        version: 'test',
+        municipalities: { '3304904': 'São Gonçalo' },
+        districts: {},
+      }
+
+      expect(findIBGECode('Sao Goncalo', 'RJ', { ibge })).toBe('3304904')
+      expect(findIBGECode('São Paulo', 'SP', { ibge })).toBeNull()
+    })
+  })
+
+  describe('getDistrictIBGE', () => {
+    test('should prefer explicit district links', () => {
+      expect(getDistrictIBGE('8.26.0100')).toEqual(saoPaulo)
+      expect(getDistrictIBGE('8.26.0007')).toEqual(saoPaulo)
+    })
+
+    test('should mark links by source unit name as inferred', () => {
+      expect(getDistrictIBGE('8.13.0024')).toEqual({
+        seat: '3106200',
+        municipalities: ['3106200'],
+        source: 'inferred',
+      })
+      expect(getDistrictIBGE('5.02.0001')?.seat).toBe('3550308')
+    })
+
+    test('should return null when no link is known', () => {
+      expect(getDistrictIBGE('8.26.0451')).toBeNull()
+      expect(getDistrictIBGE('8.26.9999')).toBeNull()
+    })
+
+    test('should use the given district registry', () => {
+      const districts = new DistrictRegistry({
+        '8.26.9999': {
+          sourceUnit: 'Campinas',
+          uf: 'SP',
+          district: 'São Paulo',
+        },
+      })
+
+      expect(getDistrictIBGE('8.26.9999', { districts })).toMatchObject({
+        seat: '3509502',
+        source: 'inferred',
+      })
+    })
+  })
+
+  describe('analyzeCNJ', () => {
+    test('should expose IBGE codes', () => {
+      expect(analyzeCNJ('0001327-64.2018.8.26.0158').ibge).toEqual({
+        ...saoPaulo,
+        source: 'inferred',
+      })
+      expect(analyzeCNJ('0001327-64.2018.8.26.0100').ibge?.source).toBe(
+        'table',
+      )
+    })
+
+    test('should accept an external table', () => {
+      const ibge: IBGETable = {
+        ...IBGE_TABLE,
+        districts: {
+          '8.26.0451': {
+            seat: '3538709',
+            municipalities: ['3538709'],
+          },
+        },
+      }
+      const cnj = '0000001-00.2020.8.26.0451'
+
+      expect(analyzeCNJ(cnj).ibge).toBeUndefined()
+      expect(analyzeCNJ(cnj, { ibge }).ibge).toEqual({
+        seat: '3538709',
+        municipalities: ['3538709'],
+        source: 'table',
+      })
+    })
+  })
+})
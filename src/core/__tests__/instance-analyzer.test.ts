@@ -0,0 +1,104 @@
+/**
+ * Tests for instance (grade) inference module
+ */
+
+import { getSegment } from '../../data/segments'
+import { InstanceLevel } from '../../types/instance'
+import { Segment } from '../../types/segment'
+import { getInstance, parseInstanceLevel } from '../instance-analyzer'
+
+describe('Instance Analyzer', () => {
+  const segment = (code: number): Segment => getSegment(code)!
+
+  describe('getInstance', () => {
+    test('should classify superior courts by segment', () => {
+      expect(getInstance('00', '0000', segment(1)).level).toBe(
+        InstanceLevel.SUPERIOR_COURT,
+      )
+      expect(getInstance('00', '0000', segment(3))).toEqual({
+        level: InstanceLevel.SUPERIOR_COURT,
+        explanation: 'Segmento 3: tribunal superior (STJ)',
+      })
+    })
+
+    test('should classify court 00 as superior court', () => {
+      expect(getInstance('00', '0000', segment(5))).toEqual({
+        level: InstanceLevel.SUPERIOR_COURT,
+        explanation:
+          'Tribunal 00 da Justiça do Trabalho: tribunal superior (TST)',
+      })
+      expect(getInstance('00', '0000', segment(6)).explanation).toContain(
+        '(TSE)',
+      )
+      expect(getInstance('00', '0000', segment(7)).explanation).toContain(
+        '(STM)',
+      )
+    })
+
+    test('should classify councils', () => {
+      expect(getInstance('00', '0000', segment(2)).level).toBe(
+        InstanceLevel.COUNCIL,
+      )
+      expect(getInstance('90', '0000', segment(4))).toEqual({
+        level: InstanceLevel.COUNCIL,
+        explanation:
+          'Tribunal 90 da Justiça Federal: Conselho da Justiça Federal',
+      })
+      expect(getInstance('90', '0000', segment(5)).level).toBe(
+        InstanceLevel.COUNCIL,
+      )
+    })
+
+    test('should classify original competence of the tribunal as second grade', () => {
+      expect(getInstance('26', '0000', segment(8))).toEqual({
+        level: InstanceLevel.SECOND_GRADE,
+        explanation:
+          'Unidade de origem 0000: competência originária do Tribunal (segundo grau)',
+      })
+      expect(getInstance('02', '0000', segment(5)).level).toBe(
+        InstanceLevel.SECOND_GRADE,
+      )
+    })
+
+    test('should classify source units starting with 9 as appeals panel', () => {
+      expect(getInstance('26', '9001', segment(8)).level).toBe(
+        InstanceLevel.APPEALS_PANEL,
+      )
+      expect(getInstance('03', '9201', segment(4)).level).toBe(
+        InstanceLevel.APPEALS_PANEL,
+      )
+    })
+
+    test('should classify other source units as first grade', () => {
+      expect(getInstance('26', '0158', segment(8))).toEqual({
+        level: InstanceLevel.FIRST_GRADE,
+        explanation: 'Unidade de origem 0158 (foro): primeiro grau',
+      })
+      expect(getInstance('02', '0061', segment(5)).explanation).toBe(
+        'Unidade de origem 0061 (vara do trabalho): primeiro grau',
+      )
+    })
+  })
+
+  describe('parseInstanceLevel', () => {
+    test('should accept level values and constant names', () => {
+      expect(parseInstanceLevel('primeiro grau')).toBe(
+        InstanceLevel.FIRST_GRADE,
+      )
+      expect(parseInstanceLevel(' Turma-Recursal ')).toBe(
+        InstanceLevel.APPEALS_PANEL,
+      )
+      expect(parseInstanceLevel('tribunal_superior')).toBe(
+        InstanceLevel.SUPERIOR_COURT,
+      )
+      expect(parseInstanceLevel('SECOND_GRADE')).toBe(
+        InstanceLevel.SECOND_GRADE,
+      )
+    })
+
+    test('should return null for unknown levels', () => {
+      expect(parseInstanceLevel('terceiro grau')).toBeNull()
+      expect(parseInstanceLevel('')).toBeNull()
+    })
+  })
+})
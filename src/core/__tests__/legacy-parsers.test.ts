@@ -0,0 +1,155 @@
+/**
+ * Tests for legacy (pre-unified) process number parsers
+ */
+
+import { LegacyNumberParser, LegacyParsedNumber } from '../../types/legacy'
+import {
+  getLegacyParsers,
+  isLegacyNumber,
+  parseLegacyNumber,
+  registerLegacyParser,
+  unregisterLegacyParser,
+} from '../legacy-parsers'
+import { createTJSPLegacyParser } from '../legacy-tjsp'
+
+describe('Legacy Number Parsers', () => {
+  const customParser: LegacyNumberParser = {
+    id: 'test-legacy',
+    tribunal: '8.13',
+    description: 'Test format (AAAA/NNNNN)',
+    recognize: (input) => /^\d{4}\/\d{5}$/.test(input.trim()),
+    parse: (input) => {
+      const [year, sequential] = input.trim().split('/')
+      return { formatted: input.trim(), fields: { year, sequential } }
+    },
+  }
+
+  afterEach(() => {
+    unregisterLegacyParser(customParser.id)
+  })
+
+  describe('createTJSPLegacyParser', () => {
+    const parser = createTJSPLegacyParser()
+
+    test('should recognize dotted and undotted TJSP numbers', () => {
+      expect(parser.recognize('583.00.2005.123456-7')).toBe(true)
+      expect(parser.recognize(' 5830020051234567 ')).toBe(true)
+      expect(parser.recognize('0001327-64.2018.8.26.0158')).toBe(false)
+      expect(parser.recognize('583.00.2005.12345-7')).toBe(false)
+    })
+
+    test('should decompose into the legacy fields', () => {
+      expect(parser.parse('5830020051234567')).toEqual({
+        formatted: '583.00.2005.123456-7',
+        fields: {
+          district: '583',
+          forum: '00',
+          year: '2005',
+          sequential: '123456',
+          checkDigit: '7',
+        },
+      })
+      expect(parser.parse('not a number')).toBeNull()
+    })
+
+    test('should not derive a CNJ without a lookup table', () => {
+      const parsed = parser.parse('583.00.2005.123456-7')!
+
+      expect(parser.toCNJ).toBeUndefined()
+      expect(parseLegacyNumber('583.00.2005.123456-7')?.cnj).toBeNull()
+      expect(parsed.formatted).toBe('583.00.2005.123456-7')
+    })
+
+    test('should accept any legacy check digit', () => {
+      expect(parser.parse('583.00.2005.123456-0')?.fields.checkDigit).toBe('0')
+      expect(parser.parse('583.00.2005.123456-9')?.fields.checkDigit).toBe('9')
+    })
+
+    test('should link numbers through an injected table', () => {
+      const linked = createTJSPLegacyParser({
+        '583.00.2005.123456-7': '00123451920058260100',
+        '583.01.2003.000321-0': '0000321-00.2003.8.26.0001',
+      })
+
+      expect(linked.toCNJ!(linked.parse('5830020051234567')!)).toBe(
+        '0012345-19.2005.8.26.0100',
+      )
+      expect(linked.toCNJ!(linked.parse('583.01.2003.000321-0')!)).toBeNull()
+      expect(linked.toCNJ!(linked.parse('114.01.2004.000001-2')!)).toBeNull()
+    })
+
+    test('should link numbers through a lookup function', () => {
+      const lookup = jest.fn(({ fields }: LegacyParsedNumber) =>
+        fields.sequential === '123456' ? '0012345-19.2005.8.26.0100' : null,
+      )
+      const linked = createTJSPLegacyParser(lookup)
+
+      expect(linked.toCNJ!(linked.parse('583.00.2005.123456-7')!)).toBe(
+        '0012345-19.2005.8.26.0100',
+      )
+      expect(linked.toCNJ!(linked.parse('583.00.2005.654321-7')!)).toBeNull()
+      expect(lookup).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('parseLegacyNumber', () => {
+    test('should use the built-in TJSP parser', () => {
+      const result = parseLegacyNumber('583.00.2005.123456-7')
+
+      expect(result).toMatchObject({
+        input: '583.00.2005.123456-7',
+        parser: 'tjsp-legacy',
+        tribunal: '8.26',
+        cnj: null,
+      })
+      expect(result?.fields.sequential).toBe('123456')
+    })
+
+    test('should return null when no parser recognizes the input', () => {
+      expect(parseLegacyNumber('2005/12345')).toBeNull()
+      expect(isLegacyNumber('2005/12345')).toBe(false)
+    })
+
+    test('should use registered parsers without CNJ mapping', () => {
+      registerLegacyParser(customParser)
+
+      expect(isLegacyNumber('2005/12345')).toBe(true)
+      expect(parseLegacyNumber('2005/12345')).toEqual({
+        input: '2005/12345',
+        parser: 'test-legacy',
+        tribunal: '8.13',
+        formatted: '2005/12345',
+        fields: { year: '2005', sequential: '12345' },
+        cnj: null,
+      })
+    })
+  })
+
+  describe('registry', () => {
+    test('should list the built-in parser', () => {
+      expect(getLegacyParsers().map(({ id }) => id)).toEqual(['tjsp-legacy'])
+    })
+
+    test('should reject duplicated ids', () => {
+      registerLegacyParser(customParser)
+
+      expect(() => registerLegacyParser(customParser)).toThrow(
+        'Parser de numeração legada já registrado: test-legacy',
+      )
+    })
+
+    test('should unregister parsers', () => {
+      registerLegacyParser(customParser)
+
+      expect(unregisterLegacyParser('test-legacy')).toBe(true)
+      expect(unregisterLegacyParser('test-legacy')).toBe(false)
+      expect(parseLegacyNumber('2005/12345')).toBeNull()
+    })
+
+    test('should return a copy of the parser list', () => {
+      getLegacyParsers().pop()
+
+      expect(getLegacyParsers()).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Tests for lenient CNJ normalization module
+ */
+
+import { normalizeCNJLenient } from '../normalizer'
+import { isValidCNJ } from '../validator'
+
+describe('CNJ Lenient Normalization', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+
+  describe('normalizeCNJLenient', () => {
+    test('should keep clean input unchanged', () => {
+      const result = normalizeCNJLenient(validCNJ)
+
+      expect(result.normalized).toBe('00013276420188260158')
+      expect(result.formatted).toBe(validCNJ)
+      expect(result.transformations).toEqual([])
+    })
+
+    test('should map OCR confusions to digits', () => {
+      const result = normalizeCNJLenient('OOO1327-64.2Ol8.8.26.Ol5B')
+
+      expect(result.formatted).toBe(validCNJ)
+      expect(
+        result.transformations.map(({ from, to, span }) => [
+          from,
+          to,
+          span.start,
+        ]),
+      ).toEqual([
+        ['O', '0', 0],
+        ['O', '0', 1],
+        ['O', '0', 2],
+        ['O', '0', 12],
+        ['l', '1', 13],
+        ['O', '0', 21],
+        ['l', '1', 22],
+        ['B', '8', 24],
+      ])
+      expect(
+        result.transformations.every((t) => t.kind === 'ocr-substitution'),
+      ).toBe(true)
+    })
+
+    test('should handle unicode dashes and non-breaking spaces', () => {
+      const result = normalizeCNJLenient('0001327–64.2018.8.26\u00A0.0158')
+
+      expect(result.formatted).toBe(validCNJ)
+      expect(result.transformations.map((t) => t.kind)).toEqual([
+        'unicode-dash',
+        'whitespace-removed',
+      ])
+      expect(result.transformations[0]).toEqual({
+        kind: 'unicode-dash',
+        from: '–',
+        to: '-',
+        span: { start: 7, end: 8 },
+      })
+    })
+
+    test('should strip prefixes and trailing punctuation', () => {
+      const inputs = [
+        `Processo nº ${validCNJ}.`,
+        `Autos n. ${validCNJ};`,
+        `Proc.: ${validCNJ}`,
+        `CNJ ${validCNJ})`,
+        `(${validCNJ}),`,
+      ]
+
+      inputs.forEach((input) => {
+        const result = normalizeCNJLenient(input)
+        expect(result.formatted).toBe(validCNJ)
+        expect(result.transformations.map((t) => t.kind)).not.toContain(
+          'ocr-substitution',
+        )
+      })
+    })
+
+    test('should report prefix and suffix spans', () => {
+      const input = `Processo nº ${validCNJ}.`
+      const result = normalizeCNJLenient(input)
+
+      expect(result.transformations).toEqual([
+        {
+          kind: 'prefix-removed',
+          from: 'Processo nº ',
+          to: '',
+          span: { start: 0, end: 12 },
+        },
+        {
+          kind: 'suffix-removed',
+          from: '.',
+          to: '',
+          span: { start: input.length - 1, end: input.length },
+        },
+      ])
+    })
+
+    test('should combine all transformations on OCR output', () => {
+      const result = normalizeCNJLenient(
+        'Processo nº OOO1327–64.2Ol8.8.26.0158.',
+      )
+
+      expect(result.formatted).toBe(validCNJ)
+      expect(isValidCNJ(result.formatted as string)).toBe(true)
+      expect(result.transformations[0].kind).toBe('prefix-removed')
+      expect(
+        result.transformations[result.transformations.length - 1].kind,
+      ).toBe('suffix-removed')
+    })
+
+    test('should drop unrecognized characters', () => {
+      const result = normalizeCNJLenient('0001327-64.2018.8.26.01#58')
+
+      expect(result.formatted).toBe(validCNJ)
+      expect(result.transformations).toEqual([
+        {
+          kind: 'character-removed',
+          from: '#',
+          to: '',
+          span: { start: 23, end: 24 },
+        },
+      ])
+    })
+
+    test('should drop trailing text after the 20 digits as a suffix', () => {
+      const input = `${validCNJ} (TJSP)`
+      const result = normalizeCNJLenient(input)
+
+      expect(result.formatted).toBe(validCNJ)
+      expect(result.transformations).toEqual([
+        {
+          kind: 'suffix-removed',
+          from: ' (TJSP)',
+          to: '',
+          span: { start: validCNJ.length, end: input.length },
+        },
+      ])
+      expect(
+        normalizeCNJLenient(`${validCNJ} TJSP - Foro de Sé`).formatted,
+      ).toBe(validCNJ)
+    })
+
+    test('should not substitute letters of words inside the number', () => {
+      const result = normalizeCNJLenient('0001327-64.2018.8.26 SP 0158')
+
+      expect(result.formatted).toBe(validCNJ)
+      expect(result.transformations.map((t) => [t.kind, t.from])).toEqual([
+        ['whitespace-removed', ' '],
+        ['character-removed', 'S'],
+        ['character-removed', 'P'],
+        ['whitespace-removed', ' '],
+      ])
+    })
+
+    test('should keep surplus digits after the number', () => {
+      const result = normalizeCNJLenient(`${validCNJ}9`)
+
+      expect(result.normalized).toHaveLength(21)
+      expect(result.formatted).toBeNull()
+    })
+
+    test('should return null formatted for incomplete numbers', () => {
+      const result = normalizeCNJLenient('Processo nº 0001327-64.2018')
+
+      expect(result.normalized).toBe('0001327642018')
+      expect(result.formatted).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Tests for the data-free CNJ parser
+ */
+
+import { CNJValidationError } from '../../types/errors'
+import { decomposeCNJ } from '../decomposer'
+import { parseCNJ } from '../parser'
+
+describe('CNJ Parser', () => {
+  const formatted = '0001327-64.2018.8.26.0158'
+  const unformatted = '00013276420188260158'
+
+  test('should parse formatted and unformatted numbers alike', () => {
+    const expected = {
+      lawsuitCNJFormat: formatted,
+      lawsuitNumber: '0001327',
+      verifyingDigit: '64',
+      protocolYear: '2018',
+      segment: '8',
+      court: '26',
+      sourceUnit: '0158',
+      argNumber: '000132720188260158' + '00',
+    }
+
+    expect(parseCNJ(formatted)).toEqual(expected)
+    expect(parseCNJ(unformatted)).toEqual(expected)
+  })
+
+  test('should not include district information', () => {
+    const parsed = parseCNJ(formatted)
+
+    expect(parsed).not.toHaveProperty('district')
+    expect(parsed).not.toHaveProperty('uf')
+    expect(parsed).not.toHaveProperty('tj')
+  })
+
+  test('should match the components returned by decomposeCNJ', () => {
+    const { district, uf, tj, ...components } = decomposeCNJ(formatted)
+
+    expect(parseCNJ(formatted)).toEqual(components)
+    expect([district, uf, tj]).toEqual(['São Paulo', 'SP', 'TJSP'])
+  })
+
+  test('should throw the same errors as decomposeCNJ', () => {
+    const inputs = [
+      '123',
+      '0001327-64.2018.8.26.0158.1',
+      '0001327-64-2018.8.26.0158',
+      '000132764201882601580',
+    ]
+
+    const messageOf = (parse: () => unknown): string => {
+      try {
+        parse()
+        return ''
+      } catch (error) {
+        return (error as Error).message
+      }
+    }
+
+    inputs.forEach((input) => {
+      expect(() => parseCNJ(input)).toThrow(CNJValidationError)
+      expect(messageOf(() => parseCNJ(input))).toBe(
+        messageOf(() => decomposeCNJ(input)),
+      )
+    })
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Tests for CNJ redaction module
+ */
+
+import { RedactionStrategy } from '../../types/redaction'
+import { pseudonymizeCNJs, redactCNJs, restoreCNJs } from '../redaction'
+
+describe('CNJ Redaction', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+  const text = `Processo ${validCNJ}; apenso 00013276520188260158.`
+
+  describe('redactCNJs', () => {
+    test('should fully mask CNJs preserving separators', () => {
+      const result = redactCNJs(text, { type: 'mask' })
+
+      expect(result.text).toBe(
+        'Processo *******-**.****.*.**.****; apenso ********************.',
+      )
+      expect(result.redactions).toHaveLength(2)
+      expect(result.mapping).toEqual({})
+    })
+
+    test('should report redactions with original positions', () => {
+      const { redactions } = redactCNJs(text, { type: 'mask' })
+
+      expect(redactions[0]).toMatchObject({
+        start: 9,
+        end: 9 + validCNJ.length,
+        original: validCNJ,
+        normalized: validCNJ,
+      })
+      expect(redactions[1].normalized).toBe('0001327-65.2018.8.26.0158')
+    })
+
+    test('should keep segment and court in partial masking', () => {
+      const result = redactCNJs(text, { type: 'partial', maskChar: 'X' })
+
+      expect(result.text).toBe(
+        'Processo XXXXXXX-XX.XXXX.8.26.XXXX; apenso XXXXXXXXXXXXX826XXXX.',
+      )
+    })
+
+    test('should keep custom components in partial masking', () => {
+      const result = redactCNJs(validCNJ, {
+        type: 'partial',
+        keep: ['protocolYear', 'segment', 'court', 'sourceUnit'],
+      })
+
+      expect(result.text).toBe('*******-**.2018.8.26.0158')
+    })
+
+    test('should mask numbers with protocol year before 1998', () => {
+      const legacy = '0001234-87.1995.8.26.0100'
+      const result = redactCNJs(`Autos ${legacy} e 00012348719958260100`, {
+        type: 'mask',
+      })
+
+      expect(result.text).toBe(
+        'Autos *******-**.****.*.**.**** e ********************',
+      )
+      expect(result.redactions.map((r) => r.normalized)).toEqual([
+        legacy,
+        legacy,
+      ])
+    })
+
+    test('should mask numbers with segment 0', () => {
+      const result = redactCNJs(
+        'Autos 0001327-64.2018.0.26.0158 e 00013276420180260158',
+        { type: 'partial' },
+      )
+
+      expect(result.text).toBe(
+        'Autos *******-**.****.0.26.**** e *************026****',
+      )
+    })
+
+    test('should leave text without CNJs unchanged', () => {
+      const plain = 'Sem processos. CPF 123.456.789-09'
+      const result = redactCNJs(plain, { type: 'mask' })
+
+      expect(result.text).toBe(plain)
+      expect(result.redactions).toEqual([])
+    })
+
+    test('should reject invalid strategies', () => {
+      expect(() => redactCNJs(text, { type: 'mask', maskChar: '**' })).toThrow(
+        'Caractere de máscara deve ter 1 caractere',
+      )
+      expect(() =>
+        redactCNJs(text, {
+          type: 'pseudonymize',
+          key: 'secret',
+        } as unknown as RedactionStrategy),
+      ).toThrow('Use pseudonymizeCNJs()')
+    })
+  })
+
+  describe('pseudonymizeCNJs', () => {
+    test('should pseudonymize with stable keyed tokens', async () => {
+      const options = { key: 'secret' }
+      const first = await pseudonymizeCNJs(`${validCNJ} e ${validCNJ}`, options)
+      const second = await pseudonymizeCNJs(
+        `Outro texto: 00013276420188260158`,
+        options,
+      )
+      const otherKey = await pseudonymizeCNJs(validCNJ, { key: 'other' })
+
+      const [token] = Object.keys(first.mapping)
+      expect(token).toMatch(/^CNJ-[0-9a-f]{16}$/)
+      expect(first.text).toBe(`${token} e ${token}`)
+      expect(second.text).toBe(`Outro texto: ${token}`)
+      expect(otherKey.text).not.toBe(token)
+      expect(first.mapping).toEqual({ [token]: validCNJ })
+    })
+
+    test('should customize token prefix and length', async () => {
+      const { text: redacted } = await pseudonymizeCNJs(validCNJ, {
+        key: 'secret',
+        prefix: 'PROC_',
+        tokenLength: 8,
+      })
+
+      expect(redacted).toMatch(/^PROC_[0-9a-f]{8}$/)
+    })
+
+    test('should pseudonymize implausible numbers', async () => {
+      const { text: redacted, mapping } = await pseudonymizeCNJs(
+        '0001234-87.1995.8.26.0100',
+        { key: 'secret' },
+      )
+
+      expect(redacted).toMatch(/^CNJ-[0-9a-f]{16}$/)
+      expect(mapping[redacted]).toBe('0001234-87.1995.8.26.0100')
+    })
+
+    test('should reject invalid options', async () => {
+      await expect(pseudonymizeCNJs(text, { key: '' })).rejects.toThrow(
+        'Chave da pseudonimização não informada',
+      )
+      await expect(
+        pseudonymizeCNJs(text, { key: 'k', tokenLength: 65 }),
+      ).rejects.toThrow('Tamanho do token deve ser entre 1 e 64')
+    })
+  })
+
+  describe('restoreCNJs', () => {
+    test('should reverse pseudonymization with the mapping', async () => {
+      const result = await pseudonymizeCNJs(text, { key: 'secret' })
+
+      expect(restoreCNJs(result.text, result.mapping)).toBe(
+        `Processo ${validCNJ}; apenso 0001327-65.2018.8.26.0158.`,
+      )
+    })
+
+    test('should leave unknown tokens untouched', () => {
+      expect(restoreCNJs('CNJ-abc', {})).toBe('CNJ-abc')
+    })
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Tests for CNJ tokenizer module
+ */
+
+import { getComponentToken, tokenizeCNJ } from '../tokenizer'
+
+describe('CNJ Tokenizer', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+  const validCNJUnformatted = '00013276420188260158'
+
+  describe('tokenizeCNJ', () => {
+    test('should return components with offsets for formatted CNJ', () => {
+      const tokens = tokenizeCNJ(validCNJ)
+
+      expect(tokens.formatted).toBe(true)
+      expect(tokens.digitCount).toBe(20)
+      expect(
+        tokens.components.map(({ name, value, span }) => ({
+          name,
+          value,
+          span,
+        })),
+      ).toEqual([
+        { name: 'lawsuitNumber', value: '0001327', span: { start: 0, end: 7 } },
+        { name: 'verifyingDigit', value: '64', span: { start: 8, end: 10 } },
+        { name: 'protocolYear', value: '2018', span: { start: 11, end: 15 } },
+        { name: 'segment', value: '8', span: { start: 16, end: 17 } },
+        { name: 'court', value: '26', span: { start: 18, end: 20 } },
+        { name: 'sourceUnit', value: '0158', span: { start: 21, end: 25 } },
+      ])
+      expect(tokens.separators).toHaveLength(5)
+      expect(tokens.unexpected).toHaveLength(0)
+      expect(tokens.missingSeparators).toHaveLength(0)
+    })
+
+    test('should return components with offsets for unformatted CNJ', () => {
+      const tokens = tokenizeCNJ(validCNJUnformatted)
+
+      expect(tokens.formatted).toBe(false)
+      expect(getComponentToken(tokens, 'court')?.span).toEqual({
+        start: 14,
+        end: 16,
+      })
+      expect(tokens.missingSeparators).toHaveLength(0)
+    })
+
+    test('should keep offsets relative to the original input', () => {
+      const tokens = tokenizeCNJ('  0001327-64.2018.8.26.0158')
+      expect(getComponentToken(tokens, 'lawsuitNumber')?.span).toEqual({
+        start: 2,
+        end: 9,
+      })
+      expect(tokens.unexpected).toEqual([
+        { kind: 'character', text: '  ', span: { start: 0, end: 2 } },
+      ])
+    })
+
+    test('should report unexpected characters', () => {
+      const tokens = tokenizeCNJ('0001327-64.2O18.8.26.0158')
+      expect(tokens.unexpected).toEqual([
+        { kind: 'character', text: 'O', span: { start: 12, end: 13 } },
+      ])
+      expect(tokens.digitCount).toBe(19)
+    })
+
+    test('should keep components aligned after invalid characters', () => {
+      const tokens = tokenizeCNJ('0001327-64.2O18.8.26.0158')
+
+      expect(getComponentToken(tokens, 'protocolYear')).toMatchObject({
+        value: '2O18',
+        span: { start: 11, end: 15 },
+      })
+      expect(getComponentToken(tokens, 'sourceUnit')).toMatchObject({
+        value: '0158',
+        span: { start: 21, end: 25 },
+      })
+      expect(tokens.separators).toHaveLength(5)
+    })
+
+    test('should report wrong and unexpected separators', () => {
+      const wrong = tokenizeCNJ('0001327.64.2018.8.26.0158')
+      expect(wrong.separators[0]).toEqual({
+        value: '.',
+        expected: '-',
+        span: { start: 7, end: 8 },
+      })
+
+      const extra = tokenizeCNJ('000-1327-64.2018.8.26.0158')
+      expect(extra.unexpected).toEqual([
+        { kind: 'separator', text: '-', span: { start: 3, end: 4 } },
+      ])
+    })
+
+    test('should report missing separators', () => {
+      const tokens = tokenizeCNJ('0001327-642018.8.26.0158')
+      expect(tokens.missingSeparators).toEqual([
+        { expected: '.', position: 10 },
+      ])
+    })
+
+    test('should report digits after the 20th as unexpected', () => {
+      const tokens = tokenizeCNJ(`${validCNJ}9`)
+
+      expect(tokens.digitCount).toBe(21)
+      expect(tokens.unexpected).toEqual([
+        { kind: 'digit', text: '9', span: { start: 25, end: 26 } },
+      ])
+      expect(getComponentToken(tokens, 'sourceUnit')?.span).toEqual({
+        start: 21,
+        end: 25,
+      })
+    })
+
+    test('should group consecutive surplus digits', () => {
+      const tokens = tokenizeCNJ(`${validCNJUnformatted}123 4`)
+
+      expect(tokens.unexpected).toEqual([
+        { kind: 'digit', text: '123', span: { start: 20, end: 23 } },
+        { kind: 'character', text: ' ', span: { start: 23, end: 24 } },
+        { kind: 'digit', text: '4', span: { start: 24, end: 25 } },
+      ])
+    })
+
+    test('should tokenize partial input', () => {
+      const tokens = tokenizeCNJ('0001327-6')
+
+      expect(tokens.components).toHaveLength(2)
+      expect(getComponentToken(tokens, 'verifyingDigit')).toEqual({
+        name: 'verifyingDigit',
+        value: '6',
+        expectedLength: 2,
+        complete: false,
+        span: { start: 8, end: 9 },
+      })
+      expect(getComponentToken(tokens, 'protocolYear')).toBeNull()
+      expect(tokens.missingSeparators).toHaveLength(0)
+    })
+
+    test('should handle empty input', () => {
+      const tokens = tokenizeCNJ('')
+      expect(tokens.components).toHaveLength(0)
+      expect(tokens.digitCount).toBe(0)
+      expect(tokens.formatted).toBe(false)
+    })
+  })
+})
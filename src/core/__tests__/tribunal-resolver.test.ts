@@ -0,0 +1,117 @@
+/**
+ * Tests for tribunal resolver module
+ */
+
+import {
+  findCourtCode,
+  findCourtCodes,
+  resolveTribunal,
+} from '../tribunal-resolver'
+
+describe('Tribunal Resolver', () => {
+  describe('resolveTribunal', () => {
+    test('should resolve acronyms', () => {
+      expect(resolveTribunal('TJMG')).toMatchObject({ segment: 8, court: '13' })
+      expect(resolveTribunal('TRT15')).toMatchObject({
+        segment: 5,
+        court: '15',
+      })
+      expect(resolveTribunal('TRF6')).toMatchObject({ segment: 4, court: '06' })
+      expect(resolveTribunal('STF')).toMatchObject({ segment: 1, court: '00' })
+      expect(resolveTribunal('CSJT')).toMatchObject({ segment: 5, court: '90' })
+    })
+
+    test('should ignore case, accents, separators and ordinals', () => {
+      const variants = ['tjmg', 'TJ-MG', 'tj mg', 'TJ/MG']
+      variants.forEach((variant) => {
+        expect(resolveTribunal(variant)?.acronym).toBe('TJMG')
+      })
+
+      expect(resolveTribunal('TRT 15ª')?.acronym).toBe('TRT15')
+      expect(resolveTribunal('tre sp')?.acronym).toBe('TRE-SP')
+      expect(resolveTribunal('1a CJM')?.acronym).toBe('1ª CJM')
+    })
+
+    test('should resolve official names and aliases', () => {
+      expect(
+        resolveTribunal('Tribunal de Justiça do Estado de São Paulo')?.acronym,
+      ).toBe('TJSP')
+      expect(
+        resolveTribunal('tribunal regional federal da 3a regiao')?.acronym,
+      ).toBe('TRF3')
+      expect(resolveTribunal('TJDF')?.acronym).toBe('TJDFT')
+    })
+
+    test('should return null for unknown tribunals', () => {
+      expect(resolveTribunal('TJXX')).toBeNull()
+      expect(resolveTribunal('TRT25')).toBeNull()
+      expect(resolveTribunal('')).toBeNull()
+    })
+  })
+
+  describe('findCourtCodes', () => {
+    test('should list regional tribunals before national ones', () => {
+      const codes = findCourtCodes({ segment: 'TRT', uf: 'SP' }).map(
+        (courtCode) => courtCode.code,
+      )
+      expect(codes).toEqual(['5.02', '5.15', '5.00', '5.90'])
+    })
+
+    test('should prefer tribunals seated in the UF', () => {
+      const codes = findCourtCodes({ segment: 4, uf: 'ES' }).map(
+        (courtCode) => courtCode.code,
+      )
+      expect(codes).toEqual(['4.02', '4.90'])
+    })
+
+    test('should list all tribunals for a UF', () => {
+      const codes = findCourtCodes({ uf: 'mg' }).map(
+        (courtCode) => courtCode.code,
+      )
+
+      expect(codes.slice(0, 6)).toEqual([
+        '4.06',
+        '5.03',
+        '6.13',
+        '7.04',
+        '8.13',
+        '9.13',
+      ])
+      expect(codes).toContain('1.00')
+    })
+
+    test('should return empty array for unknown segments', () => {
+      expect(findCourtCodes({ segment: 'Marítima', uf: 'SP' })).toEqual([])
+      expect(findCourtCodes({ segment: 0 })).toEqual([])
+    })
+  })
+
+  describe('findCourtCode', () => {
+    test('should find the court code by segment name and UF', () => {
+      const courtCode = findCourtCode({ segment: 'Eleitoral', uf: 'BA' })
+
+      expect(courtCode).toMatchObject({
+        segment: '6',
+        court: '05',
+        code: '6.05',
+      })
+      expect(courtCode?.tribunal.acronym).toBe('TRE-BA')
+    })
+
+    test('should accept segment codes, acronyms and branch names', () => {
+      expect(findCourtCode({ segment: 8, uf: 'RJ' })?.code).toBe('8.19')
+      expect(findCourtCode({ segment: 'TJ', uf: 'RJ' })?.code).toBe('8.19')
+      expect(findCourtCode({ segment: 'Estadual', uf: 'RJ' })?.code).toBe(
+        '8.19',
+      )
+      expect(
+        findCourtCode({ segment: 'Justiça do Trabalho', uf: 'AP' })?.code,
+      ).toBe('5.08')
+      expect(findCourtCode({ segment: 'Federal', uf: 'BA' })?.code).toBe('4.01')
+    })
+
+    test('should return null when no tribunal matches', () => {
+      expect(findCourtCode({ segment: 'TJM', uf: 'BA' })).toBeNull()
+    })
+  })
+})
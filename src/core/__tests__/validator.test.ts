@@ -4,6 +4,7 @@
 
 import {
   calculateVerifyingDigit,
+  DEFAULT_VALIDATION_CONFIG,
   detectCNJFormat,
   formatCNJ,
   isValidCNJ,
@@ -59,6 +60,88 @@ describe('CNJ Validator', () => {
     })
   })
 
+  describe('validateCNJ with config', () => {
+    const currentYear = new Date().getFullYear()
+
+    test('should keep accepting valid CNJs with default config', () => {
+      expect(validateCNJ(validCNJ, {}).isValid).toBe(true)
+      expect(validateCNJ(validCNJUnformatted, {}).isValid).toBe(true)
+    })
+
+    test('should reject unformatted input when not allowed', () => {
+      const result = validateCNJ(validCNJUnformatted, {
+        allowUnformattedInput: false,
+      })
+      expect(result.isValid).toBe(false)
+      expect(result.errorCode).toBe('UNFORMATTED_INPUT_NOT_ALLOWED')
+      expect(
+        validateCNJ(validCNJ, { allowUnformattedInput: false }).isValid,
+      ).toBe(true)
+    })
+
+    test('should reject formatted input when not allowed', () => {
+      const result = validateCNJ(validCNJ, { allowFormattedInput: false })
+      expect(result.isValid).toBe(false)
+      expect(result.errorCode).toBe('FORMATTED_INPUT_NOT_ALLOWED')
+    })
+
+    test('should reject years before minYear', () => {
+      const result = validateCNJ('0000001-07.1997.8.26.0158', {})
+      expect(result.isValid).toBe(false)
+      expect(result.errorCode).toBe('INVALID_YEAR')
+      expect(validateCNJ(validCNJ, { minYear: 2019 }).errorCode).toBe(
+        'INVALID_YEAR',
+      )
+    })
+
+    test('should reject years after current year + 1 by default', () => {
+      const year = currentYear + 2
+      const arg = `0000001${year}826015800`
+      const cnj = `0000001-${calculateVerifyingDigit(arg)}.${year}.8.26.0158`
+
+      expect(validateCNJ(cnj).isValid).toBe(true)
+      expect(validateCNJ(cnj, {}).errorCode).toBe('INVALID_YEAR')
+      expect(validateCNJ(cnj, { maxYear: year }).isValid).toBe(true)
+      expect(validateCNJ(cnj, { validateYear: false }).isValid).toBe(true)
+    })
+
+    test('should enforce exact mask in strict mode', () => {
+      const sloppy = ' 0001327-64.2018.8.26.0158 '
+      expect(validateCNJ(sloppy, { strictMode: true }).errorCode).toBe(
+        'INVALID_FORMAT',
+      )
+      expect(validateCNJ(sloppy, { strictMode: false }).isValid).toBe(true)
+      expect(
+        validateCNJ('0001327/64.2018.8.26.0158', { strictMode: false }).isValid,
+      ).toBe(true)
+    })
+
+    test('should report digit errors with errorCode', () => {
+      const result = validateCNJ(invalidCNJ, {})
+      expect(result.isValid).toBe(false)
+      expect(result.errorCode).toBe('INVALID_VERIFYING_DIGIT')
+    })
+
+    test('should apply config in isValidCNJ', () => {
+      expect(isValidCNJ(validCNJ, { minYear: 2019 })).toBe(false)
+      expect(isValidCNJ(validCNJ, { minYear: 2018 })).toBe(true)
+    })
+
+    test('should only apply the rules when a config is given', () => {
+      const cnj1997 = '0000001-07.1997.8.26.0158'
+      expect(validateCNJ(cnj1997).isValid).toBe(true)
+      expect(validateCNJ(cnj1997, {}).errorCode).toBe('INVALID_YEAR')
+    })
+
+    test('should keep the default config frozen', () => {
+      expect(Object.isFrozen(DEFAULT_VALIDATION_CONFIG)).toBe(true)
+      expect(() => {
+        ;(DEFAULT_VALIDATION_CONFIG as { minYear: number }).minYear = 2020
+      }).toThrow(TypeError)
+      expect(validateCNJ(validCNJ, {}).isValid).toBe(true)
+    })
+  })
+
   describe('validateCNJFormat', () => {
     test('should validate correct format', () => {
       expect(validateCNJFormat(validCNJ)).toBe(true)
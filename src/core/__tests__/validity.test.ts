@@ -0,0 +1,124 @@
+/**
+ * Tests for court validity module
+ */
+
+import { DistrictRegistry } from '../../data/district-registry'
+import { CNJErrorType } from '../../types/errors'
+import { checkCourtValidity, isWithinPeriod } from '../validity'
+
+describe('Court Validity', () => {
+  describe('isWithinPeriod', () => {
+    test('should check both bounds', () => {
+      const period = { validFrom: '2005-06-14', validUntil: '2010-12-31' }
+
+      expect(isWithinPeriod(period, new Date('2005-06-14'))).toBe(true)
+      expect(isWithinPeriod(period, new Date('2010-12-31'))).toBe(true)
+      expect(isWithinPeriod(period, new Date('2005-06-13'))).toBe(false)
+      expect(isWithinPeriod(period, new Date('2011-01-01'))).toBe(false)
+    })
+
+    test('should treat missing bounds as open', () => {
+      expect(isWithinPeriod({}, new Date('1900-01-01'))).toBe(true)
+      expect(isWithinPeriod({ validFrom: '2022-08-19' }, new Date())).toBe(true)
+    })
+
+    test('should return false for invalid dates', () => {
+      expect(isWithinPeriod({}, new Date('x'))).toBe(false)
+    })
+  })
+
+  describe('checkCourtValidity', () => {
+    test('should accept courts that always existed', () => {
+      const validity = checkCourtValidity('8', '26', '0158', '2018')
+
+      expect(validity.isValid).toBe(true)
+      expect(validity.issues).toEqual([])
+      expect(validity.asOf).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+    })
+
+    test('should accept TRF6 numbers from its creation year', () => {
+      expect(checkCourtValidity('4', '06', '3800', '2022').isValid).toBe(true)
+      expect(checkCourtValidity('4', '06', '3800', '2024').isValid).toBe(true)
+    })
+
+    test('should reject TRF6 numbers protocoled before its creation', () => {
+      const validity = checkCourtValidity('4', '06', '3800', '2019')
+
+      expect(validity.isValid).toBe(false)
+      expect(validity.issues).toEqual([
+        {
+          type: CNJErrorType.INVALID_COURT,
+          code: 'COURT_NOT_YET_CREATED',
+          message:
+            'Tribunal TRF6 instalado em 2022-08-19, após o ano de protocolo 2019',
+        },
+      ])
+    })
+
+    test('should evaluate as of a reference date', () => {
+      const asOf = new Date('2021-12-31')
+      const trf6 = checkCourtValidity('4', '06', '3800', '2021', { asOf })
+      const tjsp = checkCourtValidity('8', '26', '0158', '2018', { asOf })
+
+      expect(trf6.asOf).toBe('2021-12-31')
+      expect(trf6.issues.map((issue) => issue.code)).toEqual([
+        'COURT_NOT_YET_CREATED',
+        'COURT_NOT_CREATED_AS_OF',
+      ])
+      expect(tjsp.isValid).toBe(true)
+    })
+
+    test('should report an invalid reference date instead of throwing', () => {
+      const validity = checkCourtValidity('8', '26', '0158', '2018', {
+        asOf: new Date('x'),
+      })
+
+      expect(validity).toEqual({
+        isValid: false,
+        asOf: 'Invalid Date',
+        issues: [
+          {
+            type: CNJErrorType.INVALID_FORMAT,
+            code: 'INVALID_REFERENCE_DATE',
+            message: 'Data de referência inválida: Invalid Date',
+          },
+        ],
+      })
+    })
+
+    test('should reject protocol years after the reference date', () => {
+      const validity = checkCourtValidity('8', '26', '0158', '2018', {
+        asOf: new Date('2015-06-01'),
+      })
+
+      expect(validity.issues.map((issue) => issue.code)).toEqual([
+        'YEAR_AFTER_REFERENCE_DATE',
+      ])
+    })
+
+    test('should check source unit periods', () => {
+      const districts = new DistrictRegistry({
+        '8.26.9998': {
+          sourceUnit: 'Foro Extinto',
+          uf: 'SP',
+          district: 'São Paulo',
+          validFrom: '2000-01-01',
+          validUntil: '2012-03-31',
+        },
+      })
+      const check = (year: string) =>
+        checkCourtValidity('8', '26', '9998', year, { districts })
+
+      expect(check('2012').isValid).toBe(true)
+      expect(check('1999').issues[0]).toMatchObject({
+        type: CNJErrorType.INVALID_SOURCE_UNIT,
+        code: 'SOURCE_UNIT_NOT_YET_CREATED',
+      })
+      expect(check('2013').issues[0]).toMatchObject({
+        type: CNJErrorType.INVALID_SOURCE_UNIT,
+        code: 'SOURCE_UNIT_EXTINCT',
+      })
+      expect(checkCourtValidity('8', '26', '9998', '2013').isValid).toBe(true)
+    })
+  })
+})
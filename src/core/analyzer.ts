@@ -1,20 +1,32 @@
+import { generateDistrictKey } from '../data/districts'
 import { getSegment } from '../data/segments'
-import { AnalysisCNJ } from '../types/analysis'
+import { getTribunal } from '../data/tribunals'
+import { AnalysisCNJ, AnalysisOptions } from '../types/analysis'
 import { CNJValidationError } from '../types/errors'
+import { InstanceLevel } from '../types/instance'
 import { getOriginCourt } from './court-analyzer'
 import { decomposeCNJ } from './decomposer'
+import { getDistrictIBGE } from './ibge'
+import { getInstance } from './instance-analyzer'
 import { getSourceUnit } from './source-unit-analyzer'
 import { validateCNJ } from './validator'
+import { checkCourtValidity } from './validity'
 
 /**
  * Realiza análise completa de um número CNJ
  * @param cnj Número CNJ a ser analisado
+ * @param options Data de referência para a verificação temporal (padrão: hoje),
+ * registro de distritos (padrão: registro global) e tabela do IBGE (padrão:
+ * IBGE_TABLE)
  * @returns Estrutura AnalysisCNJ com todas as informações
  */
-export function analyzeCNJ(cnj: string): AnalysisCNJ {
+export function analyzeCNJ(
+  cnj: string,
+  options: AnalysisOptions = {},
+): AnalysisCNJ {
   try {
     // Decompõe o CNJ
-    const decomposed = decomposeCNJ(cnj)
+    const decomposed = decomposeCNJ(cnj, options)
 
     // Valida o CNJ
     const validation = validateCNJ(cnj)
@@ -31,6 +43,35 @@ export function analyzeCNJ(cnj: string): AnalysisCNJ {
     // Obtém informações do tribunal de origem
     const originCourt = getOriginCourt(decomposed.court, segment)
 
+    // Classifica a instância (superior, segundo grau, turma recursal, etc.)
+    const instance = getInstance(
+      decomposed.court,
+      decomposed.sourceUnit,
+      segment,
+    )
+
+    // Obtém o tribunal no registro (sigla, nome oficial e UFs abrangidas)
+    const tribunal = getTribunal(decomposed.segment, decomposed.court)
+
+    // Verifica se tribunal e unidade existiam no ano de protocolo
+    const validity = checkCourtValidity(
+      decomposed.segment,
+      decomposed.court,
+      decomposed.sourceUnit,
+      decomposed.protocolYear,
+      options,
+    )
+
+    // Vincula a unidade de origem aos municípios do IBGE
+    const ibge = getDistrictIBGE(
+      generateDistrictKey(
+        decomposed.segment,
+        decomposed.court,
+        decomposed.sourceUnit,
+      ),
+      options,
+    )
+
     return {
       receivedCNJ: cnj,
       validCNJ: validation.isValid,
@@ -41,6 +82,10 @@ export function analyzeCNJ(cnj: string): AnalysisCNJ {
       courtType: originCourt.originCourtType,
       courtNumber: originCourt.originCourtNumber,
       detailed: decomposed,
+      ...(tribunal && { tribunal }),
+      validity,
+      instance,
+      ...(ibge && { ibge }),
     }
   } catch (error) {
     if (error instanceof CNJValidationError) {
@@ -104,6 +149,34 @@ export function analyzeCNJBatch(
   })
 }
 
+/**
+ * Filtra análises em lote pela instância
+ * @param analyses Array de análises ou erros
+ * @param levels Instância ou instâncias aceitas
+ * @returns Apenas as análises classificadas em uma das instâncias
+ *
+ * @example
+ * ```typescript
+ * const firstGrade = filterByInstance(
+ *   analyzeCNJBatch(cnjs),
+ *   InstanceLevel.FIRST_GRADE,
+ * )
+ * ```
+ */
+export function filterByInstance(
+  analyses: Array<AnalysisCNJ | { error: string; cnj: string }>,
+  levels: InstanceLevel | InstanceLevel[],
+): AnalysisCNJ[] {
+  const accepted = Array.isArray(levels) ? levels : [levels]
+
+  return analyses.filter(
+    (item): item is AnalysisCNJ =>
+      'validCNJ' in item &&
+      !!item.instance &&
+      accepted.includes(item.instance.level),
+  )
+}
+
 /**
  * Analisa CNJ e retorna apenas se é válido ou não
  * @param cnj Número CNJ a ser analisado
@@ -135,6 +208,16 @@ export function getBatchStatistics(
     (item) => 'validCNJ' in item && !item.validCNJ,
   ).length
 
+  const byInstance = {} as Record<InstanceLevel, number>
+  Object.values(InstanceLevel).forEach((level) => {
+    byInstance[level] = 0
+  })
+  analyses.forEach((item) => {
+    if ('validCNJ' in item && item.instance) {
+      byInstance[item.instance.level]++
+    }
+  })
+
   return {
     total,
     successful: total - errors,
@@ -143,5 +226,6 @@ export function getBatchStatistics(
     invalid,
     successRate: total > 0 ? ((total - errors) / total) * 100 : 0,
     validityRate: total > 0 ? (valid / total) * 100 : 0,
+    byInstance,
   }
 }
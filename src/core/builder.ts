@@ -0,0 +1,257 @@
+import { getDistrictInfo, getDistrictKeysByUF } from '../data/districts'
+import { getSegment } from '../data/segments'
+import { BuiltCNJ, CNJBuildComponents, CNJBuilder } from '../types/builder'
+import { DistrictInfo, DistrictKey } from '../types/district'
+import { CNJErrorType, CNJValidationError } from '../types/errors'
+import { Tribunal } from '../types/tribunal'
+import { getOriginCourt } from './court-analyzer'
+import { validateCNJComponents } from './decomposer'
+import { resolveTribunal } from './tribunal-resolver'
+import { calculateVerifyingDigit } from './validator'
+
+/**
+ * Tamanho de cada componente, usado para completar valores numéricos
+ */
+const COMPONENT_LENGTH: Record<keyof CNJBuildComponents, number> = {
+  lawsuitNumber: 7,
+  protocolYear: 4,
+  segment: 1,
+  court: 2,
+  sourceUnit: 4,
+}
+
+/**
+ * Segmento usado por fromUF quando nenhum é informado (Justiça Estadual)
+ */
+const DEFAULT_UF_SEGMENT = '8'
+
+/**
+ * Monta um número CNJ a partir dos componentes, calculando o dígito verificador
+ *
+ * É o inverso de decomposeCNJ: cada componente é validado (formato, segmento
+ * e tribunal existentes) antes do cálculo do DV.
+ *
+ * @param components Componentes do CNJ (sem dígito verificador)
+ * @returns CNJ formatado, sem formatação e componentes normalizados
+ * @throws CNJValidationError se algum componente for inválido
+ *
+ * @example
+ * ```typescript
+ * const cnj = buildCNJ({
+ *   lawsuitNumber: 1327,
+ *   protocolYear: 2018,
+ *   segment: 8,
+ *   court: 26,
+ *   sourceUnit: 158,
+ * })
+ * console.log(cnj.formatted) // "0001327-64.2018.8.26.0158"
+ * console.log(cnj.unformatted) // "00013276420188260158"
+ * ```
+ */
+export function buildCNJ(components: CNJBuildComponents): BuiltCNJ {
+  const lawsuitNumber = padComponent(components, 'lawsuitNumber')
+  const protocolYear = padComponent(components, 'protocolYear')
+  const segment = padComponent(components, 'segment')
+  const court = padComponent(components, 'court')
+  const sourceUnit = padComponent(components, 'sourceUnit')
+
+  validateCNJComponents({
+    lawsuitNumber,
+    verifyingDigit: '00',
+    protocolYear,
+    segment,
+    court,
+    sourceUnit,
+  })
+
+  const segmentInfo = getSegment(segment)
+  if (!segmentInfo) {
+    throw CNJValidationError.invalidSegment(segment)
+  }
+  getOriginCourt(court, segmentInfo)
+
+  const verifyingDigit = calculateVerifyingDigit(
+    lawsuitNumber + protocolYear + segment + court + sourceUnit + '00',
+  )
+
+  return {
+    formatted: `${lawsuitNumber}-${verifyingDigit}.${protocolYear}.${segment}.${court}.${sourceUnit}`,
+    unformatted:
+      lawsuitNumber +
+      verifyingDigit +
+      protocolYear +
+      segment +
+      court +
+      sourceUnit,
+    verifyingDigit,
+    components: {
+      lawsuitNumber,
+      verifyingDigit,
+      protocolYear,
+      segment,
+      court,
+      sourceUnit,
+    },
+  }
+}
+
+/**
+ * Cria um construtor tipado de números CNJ
+ *
+ * @param initial Componentes iniciais (opcional)
+ * @returns Construtor imutável; cada método retorna uma nova instância
+ *
+ * @example
+ * ```typescript
+ * const sp = createCNJBuilder().fromUF('SP').sourceUnit(158)
+ * const cnj = sp.lawsuitNumber(1327).protocolYear(2018).build()
+ * console.log(cnj.formatted) // "0001327-64.2018.8.26.0158"
+ * ```
+ */
+export function createCNJBuilder(
+  initial: Partial<CNJBuildComponents> = {},
+): CNJBuilder {
+  const components = { ...initial }
+  const withComponents = (changes: Partial<CNJBuildComponents>) =>
+    createCNJBuilder({ ...components, ...changes })
+
+  return {
+    // Cópia congelada: os métodos usam a cópia privada
+    components: Object.freeze({ ...components }),
+    lawsuitNumber: (value) => withComponents({ lawsuitNumber: value }),
+    protocolYear: (value) => withComponents({ protocolYear: value }),
+    segment: (value) => withComponents({ segment: value }),
+    court: (value) => withComponents({ court: value }),
+    sourceUnit: (value) => withComponents({ sourceUnit: value }),
+    fromDistrict: (district) =>
+      withComponents(
+        parseDistrictKey(findDistrictKey(district, components.segment)),
+      ),
+    fromUF: (uf, segment = DEFAULT_UF_SEGMENT) =>
+      withComponents(findCourtByUF(uf, segment)),
+    fromTribunal: (tribunal) => withComponents(findCourtByTribunal(tribunal)),
+    build: () => buildCNJ(requireComponents(components)),
+  }
+}
+
+/**
+ * Completa um componente numérico com zeros à esquerda
+ */
+function padComponent(
+  components: Partial<CNJBuildComponents>,
+  name: keyof CNJBuildComponents,
+): string {
+  return String(components[name]).padStart(COMPONENT_LENGTH[name], '0')
+}
+
+/**
+ * Garante que todos os componentes foram definidos
+ */
+function requireComponents(
+  components: Partial<CNJBuildComponents>,
+): CNJBuildComponents {
+  const missing = (
+    Object.keys(COMPONENT_LENGTH) as Array<keyof CNJBuildComponents>
+  ).filter((name) => components[name] === undefined)
+
+  if (missing.length > 0) {
+    throw new CNJValidationError(
+      CNJErrorType.INVALID_FORMAT,
+      `Componentes não informados: ${missing.join(', ')}`,
+      'MISSING_COMPONENT',
+      { missing },
+    )
+  }
+
+  return components as CNJBuildComponents
+}
+
+/**
+ * Localiza a chave de um distrito na base, preferindo o segmento já definido
+ */
+function findDistrictKey(
+  district: DistrictKey | DistrictInfo,
+  segment?: string | number,
+): DistrictKey {
+  if (typeof district === 'string') {
+    if (!getDistrictInfo(district)) {
+      throw CNJValidationError.districtNotFound(district)
+    }
+    return district
+  }
+
+  const matches = getDistrictKeysByUF(district.uf).filter((key) => {
+    const info = getDistrictInfo(key)
+    return (
+      !!info &&
+      info.sourceUnit === district.sourceUnit &&
+      info.district === district.district
+    )
+  })
+  // A mesma comarca pode ter várias unidades: a própria entrada da base tem prioridade
+  const key =
+    matches.find((match) => getDistrictInfo(match) === district) ||
+    matches.find(
+      (match) => segment !== undefined && match.startsWith(`${segment}.`),
+    ) ||
+    matches[0]
+
+  if (!key) {
+    throw CNJValidationError.districtNotFound(
+      `${district.uf}/${district.sourceUnit}`,
+    )
+  }
+  return key
+}
+
+/**
+ * Localiza o tribunal de um segmento que atende a UF
+ */
+function findCourtByUF(
+  uf: string,
+  segment: string | number,
+): Pick<CNJBuildComponents, 'segment' | 'court'> {
+  const key = getDistrictKeysByUF(uf).find((districtKey) =>
+    districtKey.startsWith(`${segment}.`),
+  )
+
+  if (!key) {
+    throw CNJValidationError.districtNotFound(`${segment}/${uf.toUpperCase()}`)
+  }
+
+  const { court } = parseDistrictKey(key)
+  return { segment: String(segment), court }
+}
+
+/**
+ * Obtém segmento e tribunal a partir da sigla ou do registro do tribunal
+ */
+function findCourtByTribunal(
+  tribunal: string | Tribunal,
+): Pick<CNJBuildComponents, 'segment' | 'court'> {
+  const resolved =
+    typeof tribunal === 'string' ? resolveTribunal(tribunal) : tribunal
+
+  if (!resolved) {
+    throw new CNJValidationError(
+      CNJErrorType.INVALID_COURT,
+      `Tribunal não encontrado: ${tribunal}`,
+      'TRIBUNAL_NOT_FOUND',
+      { tribunal },
+    )
+  }
+
+  return { segment: resolved.segment.toString(), court: resolved.court }
+}
+
+/**
+ * Divide uma chave de distrito (segment.court.sourceUnit) em componentes
+ */
+function parseDistrictKey(key: DistrictKey): {
+  segment: string
+  court: string
+  sourceUnit: string
+} {
+  const [segment, court, sourceUnit] = key.split('.')
+  return { segment, court, sourceUnit }
+}
@@ -0,0 +1,184 @@
+import { DistrictRegistry } from '../data/district-registry'
+import { getGlobalDistrictRegistry } from '../data/districts'
+import { CompletionOptions } from '../types/completion'
+import { CNJErrorType, CNJValidationError } from '../types/errors'
+import {
+  calculateVerifyingDigit,
+  formatCNJ,
+  MIN_PROTOCOL_YEAR,
+} from './validator'
+
+/**
+ * Caractere que representa um dígito desconhecido
+ */
+export const UNKNOWN_DIGIT = '?'
+
+/**
+ * Padrão de entrada após remoção dos separadores
+ */
+const PATTERN_REGEX = /^[\d?]{20}$/
+
+/**
+ * Enumera os CNJs que completam um número com dígitos desconhecidos ("?")
+ *
+ * Os candidatos são gerados sob demanda (iterador), respeitando o cálculo
+ * módulo 97 do dígito verificador. Dígitos desconhecidos no próprio DV não
+ * aumentam o custo da busca, pois o DV é calculado a partir dos demais. O
+ * padrão e a quantidade de dígitos desconhecidos são validados na chamada,
+ * antes de o iterador ser consumido.
+ *
+ * @param pattern CNJ formatado ou não, com "?" nos dígitos desconhecidos
+ * @param options Opções de enumeração
+ * @returns Iterador de CNJs válidos e formatados
+ * @throws CNJValidationError se o padrão for inválido ou tiver dígitos desconhecidos demais
+ *
+ * @example
+ * ```typescript
+ * const candidates = Array.from(completeCNJ('00013?7-64.2018.8.26.0158'))
+ * console.log(candidates) // ["0001327-64.2018.8.26.0158"]
+ * ```
+ */
+export function completeCNJ(
+  pattern: string,
+  options: CompletionOptions = {},
+): Generator<string, void, undefined> {
+  const { maxUnknownDigits = 7 } = options
+
+  const digits = pattern.replace(/[-.\s]/g, '')
+  if (!PATTERN_REGEX.test(digits)) {
+    throw CNJValidationError.invalidFormat(pattern)
+  }
+
+  // Número do processo + ano (NNNNNNNAAAA), DV e segmento/tribunal/unidade (JCTOOOO)
+  const head = digits.substring(0, 7) + digits.substring(9, 13)
+  const verifyingDigit = digits.substring(7, 9)
+  const tail = digits.substring(13, 20)
+
+  const unknownCount = countUnknown(head) + countUnknown(tail)
+  if (unknownCount > maxUnknownDigits) {
+    throw new CNJValidationError(
+      CNJErrorType.INVALID_FORMAT,
+      `Dígitos desconhecidos demais: ${unknownCount}. Máximo: ${maxUnknownDigits}`,
+      'TOO_MANY_UNKNOWN_DIGITS',
+      { pattern, unknownCount, maxUnknownDigits },
+    )
+  }
+
+  return enumerateCandidates(head, verifyingDigit, tail, options)
+}
+
+/**
+ * Gera os candidatos de um padrão já validado
+ */
+function* enumerateCandidates(
+  head: string,
+  verifyingDigit: string,
+  tail: string,
+  options: CompletionOptions,
+): Generator<string, void, undefined> {
+  const {
+    limit = 100,
+    knownDistrictsOnly = false,
+    validateYear = true,
+  } = options
+
+  const tails = knownDistrictsOnly
+    ? findKnownTails(tail, options.districts || getGlobalDistrictRegistry())
+    : [tail]
+  const maxYear = new Date().getFullYear() + 1
+  let emitted = 0
+
+  if (limit <= 0) {
+    return
+  }
+
+  for (const districtTail of tails) {
+    for (const body of expandUnknown(head + districtTail)) {
+      const year = parseInt(body.substring(7, 11), 10)
+      if (validateYear && (year < MIN_PROTOCOL_YEAR || year > maxYear)) {
+        continue
+      }
+
+      const expectedDigit = calculateVerifyingDigit(body + '00')
+      if (!matchesPattern(expectedDigit, verifyingDigit)) {
+        continue
+      }
+
+      yield formatCNJ(body.substring(0, 7) + expectedDigit + body.substring(7))
+
+      emitted++
+      if (emitted >= limit) {
+        return
+      }
+    }
+  }
+}
+
+/**
+ * Conta os dígitos desconhecidos de um trecho
+ */
+function countUnknown(text: string): number {
+  return text.split(UNKNOWN_DIGIT).length - 1
+}
+
+/**
+ * Verifica se um valor corresponde ao padrão (com "?" como coringa)
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] !== UNKNOWN_DIGIT && pattern[i] !== value[i]) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Lista os trechos JCTOOOO da base de distritos que correspondem ao padrão
+ */
+function findKnownTails(
+  tailPattern: string,
+  districts: DistrictRegistry,
+): string[] {
+  return districts
+    .keys()
+    .map((key) => key.split('.').join(''))
+    .filter(
+      (tail) =>
+        tail.length === tailPattern.length && matchesPattern(tail, tailPattern),
+    )
+    .sort()
+}
+
+/**
+ * Gera, em ordem crescente, todas as substituições dos "?" por dígitos
+ */
+function* expandUnknown(text: string): Generator<string, void, undefined> {
+  const positions: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === UNKNOWN_DIGIT) {
+      positions.push(i)
+    }
+  }
+
+  const chars = text.split('')
+  const counters = positions.map(() => 0)
+
+  while (true) {
+    positions.forEach((position, index) => {
+      chars[position] = counters[index].toString()
+    })
+    yield chars.join('')
+
+    // Incrementa o "odômetro" a partir do último dígito desconhecido
+    let index = counters.length - 1
+    while (index >= 0 && counters[index] === 9) {
+      counters[index] = 0
+      index--
+    }
+    if (index < 0) {
+      return
+    }
+    counters[index]++
+  }
+}
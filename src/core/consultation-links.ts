@@ -0,0 +1,105 @@
+import { CONSULTATION_LINKS } from '../data/consultation-links'
+import { generateTribunalKey } from '../data/tribunals'
+import {
+  ConsultationLink,
+  ConsultationLinksResult,
+  ConsultationLinkTable,
+  ConsultationUnsupportedReason,
+} from '../types/consultation'
+import { analyzeCNJ } from './analyzer'
+import { normalizeCNJ } from './validator'
+
+/**
+ * Marcadores aceitos nas URLs da tabela
+ */
+const PLACEHOLDER_PATTERN =
+  /\{(cnj|unformatted|lawsuitNumber|verifyingDigit|protocolYear|segment|court|sourceUnit)\}/g
+
+/**
+ * Monta os links de consulta pública do processo no sistema do tribunal
+ *
+ * Tribunal e instância são decodificados do próprio CNJ (analyzeCNJ). Os
+ * modelos do tribunal ("8.26") têm precedência sobre os do segmento ("6");
+ * modelos restritos a outras instâncias são descartados.
+ *
+ * A tabela embutida não cobre todos os tribunais (ver README); quando não há
+ * link para o tribunal ou a instância, o resultado vem com `supported: false`
+ * e o motivo em `reason`.
+ *
+ * @param cnj Número CNJ (formatado ou não)
+ * @param table Tabela de links (padrão: CONSULTATION_LINKS)
+ * @returns Links aplicáveis e indicação de cobertura
+ * @throws CNJValidationError se o CNJ não puder ser analisado
+ *
+ * @example
+ * ```typescript
+ * const { links } = buildConsultationLinks('0001327-64.2018.8.26.0158')
+ * console.log(links[0].label) // "e-SAJ - TJSP (1º grau)"
+ * console.log(links[0].url)
+ * // "https://esaj.tjsp.jus.br/cpopg/search.do?...&dadosConsulta.valorConsultaNuUnificado=0001327-64.2018.8.26.0158"
+ *
+ * buildConsultationLinks('0001327-64.2018.8.13.0024')
+ * // { tribunal: "8.13", supported: false, reason: "TRIBUNAL_NOT_COVERED", links: [], ... }
+ * ```
+ */
+export function buildConsultationLinks(
+  cnj: string,
+  table: ConsultationLinkTable = CONSULTATION_LINKS,
+): ConsultationLinksResult {
+  const analysis = analyzeCNJ(cnj)
+  const { detailed, instance } = analysis
+  const tribunal = generateTribunalKey(detailed.segment, detailed.court)
+  const templates =
+    table.links[tribunal] || table.links[String(parseInt(detailed.segment, 10))]
+
+  if (!templates || templates.length === 0) {
+    return unsupported(tribunal, table, 'TRIBUNAL_NOT_COVERED')
+  }
+
+  const values: Record<string, string> = {
+    cnj: detailed.lawsuitCNJFormat,
+    unformatted: normalizeCNJ(detailed.lawsuitCNJFormat),
+    lawsuitNumber: detailed.lawsuitNumber,
+    verifyingDigit: detailed.verifyingDigit,
+    protocolYear: detailed.protocolYear,
+    segment: detailed.segment,
+    court: detailed.court,
+    sourceUnit: detailed.sourceUnit,
+  }
+
+  const links: ConsultationLink[] = templates
+    .filter(
+      (template) =>
+        !template.instances ||
+        (instance && template.instances.includes(instance.level)),
+    )
+    .map((template) => {
+      const url = template.url.replace(PLACEHOLDER_PATTERN, (_, name) =>
+        encodeURIComponent(values[name]),
+      )
+      return {
+        system: template.system,
+        label: template.label,
+        url,
+        prefilled: url !== template.url,
+      }
+    })
+
+  return links.length > 0
+    ? { tribunal, supported: true, links, tableVersion: table.version }
+    : unsupported(tribunal, table, 'INSTANCE_NOT_COVERED')
+}
+
+function unsupported(
+  tribunal: string,
+  table: ConsultationLinkTable,
+  reason: ConsultationUnsupportedReason,
+): ConsultationLinksResult {
+  return {
+    tribunal,
+    supported: false,
+    reason,
+    links: [],
+    tableVersion: table.version,
+  }
+}
@@ -0,0 +1,275 @@
+import { DistrictRegistry } from '../data/district-registry'
+import {
+  generateDistrictKey,
+  getGlobalDistrictRegistry,
+} from '../data/districts'
+import { getSegment } from '../data/segments'
+import {
+  CNJCorrection,
+  CorrectionKind,
+  CorrectionOptions,
+} from '../types/corrections'
+import { getOriginCourt } from './court-analyzer'
+import {
+  calculateVerifyingDigit,
+  formatCNJ,
+  MIN_PROTOCOL_YEAR,
+  normalizeCNJ,
+} from './validator'
+
+/**
+ * Plausibilidade base de cada tipo de correção
+ */
+const BASE_SCORE: Record<CorrectionKind, number> = {
+  'swapped-verifying-digit': 0.95,
+  transposition: 0.85,
+  substitution: 0.7,
+  'verifying-digit': 0.5,
+}
+
+/**
+ * Bônus para substituições entre dígitos visualmente parecidos,
+ * comuns em documentos digitalizados
+ */
+const SIMILAR_DIGIT_BONUS = 0.1
+const SIMILAR_DIGITS = new Set([
+  '08',
+  '17',
+  '38',
+  '56',
+  '68',
+  '89',
+  '06',
+  '09',
+  '35',
+  '49',
+])
+
+/**
+ * Posições do dígito verificador nos 20 dígitos
+ */
+const DV_START = 7
+const DV_END = 9
+
+/**
+ * Sugere correções prováveis para um CNJ com dígito verificador inválido
+ *
+ * Considera substituições de um dígito, transposições de dígitos adjacentes,
+ * DV invertido e DV recalculado. Apenas candidatos que passam no cálculo
+ * módulo 97, com ano plausível e cuja combinação segmento/tribunal/unidade
+ * existe na base de distritos são retornados, ordenados por plausibilidade.
+ *
+ * @param cnj CNJ digitado (formatado ou não)
+ * @param options Opções de geração
+ * @returns Sugestões ordenadas da mais para a menos provável
+ *
+ * @example
+ * ```typescript
+ * suggestCorrections('0001327-46.2018.8.26.0158')[0].cnj
+ * // "0001327-64.2018.8.26.0158"
+ * ```
+ */
+export function suggestCorrections(
+  cnj: string,
+  options: CorrectionOptions = {},
+): CNJCorrection[] {
+  const { limit = 10, requireKnownDistrict = true } = options
+  const districts = requireKnownDistrict
+    ? options.districts || getGlobalDistrictRegistry()
+    : null
+  const digits = normalizeCNJ(cnj)
+
+  if (digits.length !== 20 || hasValidDigit(digits)) {
+    return []
+  }
+
+  const candidates = new Map<string, CNJCorrection>()
+
+  const addCandidate = (
+    candidate: string,
+    kind: CorrectionKind,
+    positions: number[],
+    description: string,
+    bonus: number = 0,
+  ) => {
+    if (!hasValidDigit(candidate) || !isPlausible(candidate, districts)) {
+      return
+    }
+
+    const score = Math.min(
+      1,
+      Math.round((BASE_SCORE[kind] + bonus) * 100) / 100,
+    )
+    const existing = candidates.get(candidate)
+    if (existing && existing.score >= score) {
+      return
+    }
+
+    candidates.set(candidate, {
+      cnj: formatCNJ(candidate),
+      kind,
+      positions,
+      score,
+      description,
+    })
+  }
+
+  // Dígito verificador recalculado, invertido ou com um dígito trocado
+  const received = digits.substring(DV_START, DV_END)
+  const expected = calculateVerifyingDigit(toArgNumber(digits))
+  const withExpectedDigit = replaceAt(digits, DV_START, expected)
+  const changed = [DV_START, DV_START + 1].filter(
+    (position) => digits[position] !== withExpectedDigit[position],
+  )
+
+  if (received.split('').reverse().join('') === expected) {
+    addCandidate(
+      withExpectedDigit,
+      'swapped-verifying-digit',
+      changed,
+      `Dígito verificador invertido (${received} → ${expected})`,
+    )
+  } else if (changed.length === 1) {
+    const [position] = changed
+    addCandidate(
+      withExpectedDigit,
+      'substitution',
+      changed,
+      substitutionDescription(digits, withExpectedDigit, position),
+      similarityBonus(digits[position], withExpectedDigit[position]),
+    )
+  } else {
+    addCandidate(
+      withExpectedDigit,
+      'verifying-digit',
+      changed,
+      `Dígito verificador recalculado (${received} → ${expected})`,
+    )
+  }
+
+  // Substituição de um dígito fora do DV
+  for (let position = 0; position < digits.length; position++) {
+    if (position >= DV_START && position < DV_END) {
+      continue
+    }
+
+    for (let digit = 0; digit <= 9; digit++) {
+      const replacement = digit.toString()
+      if (replacement === digits[position]) {
+        continue
+      }
+
+      const candidate = replaceAt(digits, position, replacement)
+      addCandidate(
+        candidate,
+        'substitution',
+        [position],
+        substitutionDescription(digits, candidate, position),
+        similarityBonus(digits[position], replacement),
+      )
+    }
+  }
+
+  // Transposição de dígitos adjacentes (a inversão do DV já foi tratada)
+  for (let position = 0; position < digits.length - 1; position++) {
+    if (position === DV_START || digits[position] === digits[position + 1]) {
+      continue
+    }
+
+    const candidate = replaceAt(
+      digits,
+      position,
+      digits[position + 1] + digits[position],
+    )
+    addCandidate(
+      candidate,
+      'transposition',
+      [position, position + 1],
+      `Dígitos das posições ${position} e ${position + 1} trocados (${
+        digits[position]
+      }${digits[position + 1]} → ${candidate[position]}${
+        candidate[position + 1]
+      })`,
+    )
+  }
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score || a.positions[0] - b.positions[0])
+    .slice(0, limit)
+}
+
+/**
+ * Verifica o dígito verificador de um CNJ com 20 dígitos
+ */
+function hasValidDigit(digits: string): boolean {
+  return (
+    calculateVerifyingDigit(toArgNumber(digits)) ===
+    digits.substring(DV_START, DV_END)
+  )
+}
+
+/**
+ * Verifica se ano, segmento, tribunal e unidade do candidato são plausíveis
+ * @param districts Registro em que a unidade deve existir (null: não exige)
+ */
+function isPlausible(
+  digits: string,
+  districts: DistrictRegistry | null,
+): boolean {
+  const year = parseInt(digits.substring(9, 13), 10)
+  if (year < MIN_PROTOCOL_YEAR || year > new Date().getFullYear() + 1) {
+    return false
+  }
+
+  const segmentCode = digits.substring(13, 14)
+  const court = digits.substring(14, 16)
+  const sourceUnit = digits.substring(16, 20)
+
+  const segment = getSegment(segmentCode)
+  if (!segment) {
+    return false
+  }
+
+  try {
+    getOriginCourt(court, segment)
+  } catch {
+    return false
+  }
+
+  return (
+    !districts ||
+    districts.has(generateDistrictKey(segmentCode, court, sourceUnit))
+  )
+}
+
+/**
+ * Monta o número de argumento (sem DV, com sufixo "00")
+ */
+function toArgNumber(digits: string): string {
+  return digits.substring(0, DV_START) + digits.substring(DV_END) + '00'
+}
+
+function replaceAt(
+  text: string,
+  position: number,
+  replacement: string,
+): string {
+  return (
+    text.substring(0, position) +
+    replacement +
+    text.substring(position + replacement.length)
+  )
+}
+
+function similarityBonus(from: string, to: string): number {
+  const pair = from < to ? from + to : to + from
+  return SIMILAR_DIGITS.has(pair) ? SIMILAR_DIGIT_BONUS : 0
+}
+
+function substitutionDescription(
+  original: string,
+  candidate: string,
+  position: number,
+): string {
+  return `Dígito ${original[position]} substituído por ${candidate[position]} na posição ${position}`
+}
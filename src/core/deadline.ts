@@ -0,0 +1,286 @@
+import {
+  getLocalHolidays,
+  LOCAL_HOLIDAYS,
+  NATIONAL_HOLIDAYS,
+} from '../data/holidays'
+import {
+  DatedHoliday,
+  DeadlineOptions,
+  DeadlineResult,
+  Holiday,
+  HolidayScope,
+  HolidayTable,
+  NonBusinessDay,
+} from '../types/deadline'
+import { CNJValidationError } from '../types/errors'
+import { analyzeCNJ } from './analyzer'
+import { calculateVerifyingDigit } from './validator'
+import { isWithinPeriod, toISODate } from './validity'
+
+/**
+ * Duração de um dia em milissegundos
+ */
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Calcula o domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+ * @param year Ano
+ * @returns Data da Páscoa (meia-noite UTC)
+ *
+ * @example
+ * ```typescript
+ * toISODate(getEasterDate(2024)) // "2024-03-31"
+ * ```
+ */
+export function getEasterDate(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * Resolve os feriados aplicáveis a uma comarca em um ano
+ *
+ * Combina os feriados nacionais com as tabelas locais do segmento, do
+ * tribunal e da comarca.
+ *
+ * @param year Ano
+ * @param districtKey Chave da comarca (segment.court.sourceUnit); se omitida,
+ * apenas os feriados nacionais são considerados
+ * @param extra Feriados adicionais
+ * @param localHolidays Tabela de feriados locais (padrão: LOCAL_HOLIDAYS)
+ * @returns Feriados com data concreta, em ordem cronológica
+ *
+ * @example
+ * ```typescript
+ * getHolidaysForYear(2024, '8.26.0158').map((h) => h.date)
+ * // ["2024-01-01", "2024-02-12", "2024-02-13", "2024-03-29", ...]
+ * ```
+ */
+export function getHolidaysForYear(
+  year: number,
+  districtKey?: string,
+  extra: Holiday[] = [],
+  localHolidays: Readonly<HolidayTable> = LOCAL_HOLIDAYS,
+): DatedHoliday[] {
+  const tables: Array<[HolidayScope, Holiday[]]> = [
+    ['national', NATIONAL_HOLIDAYS],
+  ]
+
+  if (districtKey) {
+    const [segment, court] = districtKey.split('.')
+    tables.push(
+      ['segment', getLocalHolidays(segment, localHolidays)],
+      ['tribunal', getLocalHolidays(`${segment}.${court}`, localHolidays)],
+      ['district', getLocalHolidays(districtKey, localHolidays)],
+    )
+  }
+  tables.push(['district', extra])
+
+  const easter = getEasterDate(year)
+  const holidays: DatedHoliday[] = []
+
+  tables.forEach(([scope, table]) => {
+    table.forEach((holiday) => {
+      const date = resolveHolidayDate(holiday, year, easter)
+      if (date && isWithinPeriod(holiday, new Date(`${date}T00:00:00Z`))) {
+        holidays.push({ date, name: holiday.name, scope })
+      }
+    })
+  })
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Verifica se a data está no recesso forense (20/12 a 20/01, CPC art. 220)
+ * @param date Data a ser verificada
+ */
+export function isInRecess(date: Date): boolean {
+  const month = date.getUTCMonth() + 1
+  const day = date.getUTCDate()
+  return (month === 12 && day >= 20) || (month === 1 && day <= 20)
+}
+
+/**
+ * Calcula o vencimento de um prazo processual em dias úteis
+ *
+ * O tribunal e a comarca são identificados pelo próprio CNJ (analyzeCNJ), e
+ * a contagem segue o CPC: exclui o dia do início (art. 224), conta apenas
+ * dias úteis (art. 219) e suspende os prazos no recesso de 20/12 a 20/01
+ * (art. 220). Intimação em dia não útil é considerada feita no primeiro dia
+ * útil seguinte (art. 224, § 1º). São considerados os feriados nacionais,
+ * inclusive os móveis, e os da tabela local (LOCAL_HOLIDAYS ou
+ * `options.holidayTable`) para o segmento, o tribunal e a comarca.
+ *
+ * @param cnj Número CNJ do processo
+ * @param startDate Data da intimação/publicação (Date ou "AAAA-MM-DD")
+ * @param businessDays Quantidade de dias úteis do prazo
+ * @param options Feriados adicionais, tabela de feriados locais e recesso
+ * @returns Data de vencimento e dias não úteis ignorados
+ * @throws CNJValidationError se o CNJ for inválido, inclusive pelo dígito
+ * verificador
+ * @throws Error se a quantidade de dias ou a data de início forem inválidas
+ *
+ * @example
+ * ```typescript
+ * // Intimação na sexta, 05/07/2024, prazo de 5 dias úteis no TJSP
+ * // (09/07 é feriado estadual em SP)
+ * const deadline = computeDeadline('0001327-64.2018.8.26.0158', '2024-07-05', 5)
+ * console.log(deadline.dueDate) // "2024-07-15"
+ * console.log(deadline.skipped.map((d) => d.reason))
+ * // ["weekend", "weekend", "holiday", "weekend", "weekend"]
+ * ```
+ */
+export function computeDeadline(
+  cnj: string,
+  startDate: Date | string,
+  businessDays: number,
+  options: DeadlineOptions = {},
+): DeadlineResult {
+  if (!Number.isInteger(businessDays) || businessDays < 0) {
+    throw new Error(
+      `Quantidade de dias úteis deve ser um inteiro não negativo: ${businessDays}`,
+    )
+  }
+
+  const start = toUTCDate(startDate)
+  const {
+    recess = true,
+    holidays: extra = [],
+    holidayTable = LOCAL_HOLIDAYS,
+  } = options
+
+  const analysis = analyzeCNJ(cnj)
+  const { segment, court, sourceUnit } = analysis.detailed
+
+  if (!analysis.validCNJ) {
+    throw CNJValidationError.invalidVerifyingDigit(
+      analysis.detailed.verifyingDigit,
+      calculateVerifyingDigit(analysis.detailed.argNumber),
+    )
+  }
+  const districtKey = `${segment}.${court}.${sourceUnit}`
+
+  const holidaysByYear = new Map<number, Map<string, DatedHoliday>>()
+  const findHoliday = (date: Date): DatedHoliday | undefined => {
+    const year = date.getUTCFullYear()
+    let holidays = holidaysByYear.get(year)
+    if (!holidays) {
+      holidays = new Map(
+        getHolidaysForYear(year, districtKey, extra, holidayTable).map((h) => [
+          h.date,
+          h,
+        ]),
+      )
+      holidaysByYear.set(year, holidays)
+    }
+    return holidays.get(toISODate(date))
+  }
+
+  const findNonBusinessDay = (date: Date): NonBusinessDay | undefined => {
+    const iso = toISODate(date)
+    const weekDay = date.getUTCDay()
+    const holiday = findHoliday(date)
+
+    if (recess && isInRecess(date)) {
+      return { date: iso, reason: 'recess' }
+    }
+    if (weekDay === 0 || weekDay === 6) {
+      return { date: iso, reason: 'weekend' }
+    }
+    if (holiday) {
+      return { date: iso, reason: 'holiday', holiday }
+    }
+    return undefined
+  }
+
+  const skipped: NonBusinessDay[] = []
+  let current = start
+  let counted = 0
+
+  // Intimação em dia não útil: considera-se feita no primeiro dia útil
+  // seguinte, e a contagem começa no dia útil posterior (art. 224, § 1º)
+  let nonBusinessDay = findNonBusinessDay(current)
+  while (nonBusinessDay) {
+    skipped.push(nonBusinessDay)
+    current = new Date(current.getTime() + DAY_MS)
+    nonBusinessDay = findNonBusinessDay(current)
+  }
+
+  while (counted < businessDays) {
+    current = new Date(current.getTime() + DAY_MS)
+    nonBusinessDay = findNonBusinessDay(current)
+
+    if (nonBusinessDay) {
+      skipped.push(nonBusinessDay)
+    } else {
+      counted++
+    }
+  }
+
+  return {
+    cnj,
+    ...(analysis.tribunal && { tribunal: analysis.tribunal.acronym }),
+    uf: analysis.detailed.uf,
+    district: analysis.detailed.district,
+    startDate: toISODate(start),
+    dueDate: toISODate(current),
+    businessDays,
+    skipped,
+  }
+}
+
+/**
+ * Resolve a data de um feriado no ano, ou null se não se aplicar ao ano
+ */
+function resolveHolidayDate(
+  holiday: Holiday,
+  year: number,
+  easter: Date,
+): string | null {
+  if (holiday.easterOffset !== undefined) {
+    return toISODate(new Date(easter.getTime() + holiday.easterOffset * DAY_MS))
+  }
+
+  if (!holiday.date) {
+    return null
+  }
+
+  if (/^\d{2}-\d{2}$/.test(holiday.date)) {
+    return `${year}-${holiday.date}`
+  }
+
+  return holiday.date.startsWith(`${year}-`) ? holiday.date : null
+}
+
+/**
+ * Converte a data de início para meia-noite UTC
+ */
+function toUTCDate(value: Date | string): Date {
+  const date =
+    typeof value === 'string'
+      ? new Date(`${value.substring(0, 10)}T00:00:00Z`)
+      : new Date(
+          Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()),
+        )
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`Data de início inválida: ${String(value)}`)
+  }
+
+  return date
+}
@@ -1,116 +1,30 @@
-import { generateDistrictKey, getDistrictInfo } from '../data/districts'
+import {
+  generateDistrictKey,
+  getGlobalDistrictRegistry,
+} from '../data/districts'
 import { getSegment } from '../data/segments'
 import { DecomposedCNJ } from '../types/analysis'
+import { DistrictRegistryOptions } from '../types/district'
 import { CNJValidationError } from '../types/errors'
-
-/**
- * Constante para composição do número de argumento
- */
-const MATH_SUFFIX = '00'
+import { parseCNJ } from './parser'
 
 /**
  * Decompõe um número CNJ em seus componentes individuais
  * @param cnj Número CNJ no formato NNNNNNN-DD.AAAA.J.CT.0000 ou NNNNNNNDDAAAAJCT0000
+ * @param options Registro de distritos a consultar (padrão: registro global)
  * @returns Estrutura DecomposedCNJ com todos os componentes
  */
-export function decomposeCNJ(cnj: string): DecomposedCNJ {
-  // Valida o tamanho básico
-  if (cnj.length > 25 || cnj.length < 20) {
-    throw CNJValidationError.invalidLength(cnj, 20)
-  }
-
-  // Verifica se é formato com hífen (formatado)
-  const isFormatted = cnj.includes('-')
-
-  if (isFormatted) {
-    return decomposeFormattedCNJ(cnj)
-  } else {
-    return decomposeUnformattedCNJ(cnj)
-  }
-}
-
-/**
- * Decompõe CNJ formatado (NNNNNNN-DD.AAAA.J.CT.0000)
- */
-function decomposeFormattedCNJ(cnj: string): DecomposedCNJ {
-  const parts = cnj.split('-')
-
-  if (parts.length !== 2) {
-    throw CNJValidationError.invalidFormat(cnj)
-  }
-
-  const lawsuitNumber = parts[0]
-  const remainingParts = parts[1].split('.')
-
-  if (remainingParts.length !== 5) {
-    throw CNJValidationError.invalidFormat(cnj)
-  }
-
-  const [verifyingDigit, protocolYear, segment, court, sourceUnit] =
-    remainingParts
-
-  return buildDecomposedCNJ({
-    lawsuitNumber,
-    verifyingDigit,
-    protocolYear,
-    segment,
-    court,
-    sourceUnit,
-  })
-}
-
-/**
- * Decompõe CNJ não formatado (NNNNNNNDDAAAAJCT0000)
- */
-function decomposeUnformattedCNJ(cnj: string): DecomposedCNJ {
-  if (cnj.length !== 20) {
-    throw CNJValidationError.invalidLength(cnj, 20)
-  }
-
-  const lawsuitNumber = cnj.substring(0, 7)
-  const verifyingDigit = cnj.substring(7, 9)
-  const protocolYear = cnj.substring(9, 13)
-  const segment = cnj.substring(13, 14)
-  const court = cnj.substring(14, 16)
-  const sourceUnit = cnj.substring(16, 20)
-
-  return buildDecomposedCNJ({
-    lawsuitNumber,
-    verifyingDigit,
-    protocolYear,
-    segment,
-    court,
-    sourceUnit,
-  })
-}
-
-/**
- * Constrói a estrutura DecomposedCNJ com informações complementares
- */
-function buildDecomposedCNJ(components: {
-  lawsuitNumber: string
-  verifyingDigit: string
-  protocolYear: string
-  segment: string
-  court: string
-  sourceUnit: string
-}): DecomposedCNJ {
-  const {
-    lawsuitNumber,
-    verifyingDigit,
-    protocolYear,
-    segment,
-    court,
-    sourceUnit,
-  } = components
-
-  // Gera número de argumento para validação
-  const argNumber =
-    lawsuitNumber + protocolYear + segment + court + sourceUnit + MATH_SUFFIX
+export function decomposeCNJ(
+  cnj: string,
+  options: DistrictRegistryOptions = {},
+): DecomposedCNJ {
+  const districts = options.districts || getGlobalDistrictRegistry()
+  const parsed = parseCNJ(cnj)
+  const { segment, court, sourceUnit } = parsed
 
   // Busca informações de distrito
   const districtKey = generateDistrictKey(segment, court, sourceUnit)
-  const districtInfo = getDistrictInfo(districtKey)
+  const districtInfo = districts.get(districtKey)
 
   // Busca informações de segmento
   const segmentInfo = getSegment(segment)
@@ -118,18 +32,8 @@ function buildDecomposedCNJ(components: {
   // Gera código do tribunal
   const tj = generateTJCode(segment, court, districtInfo?.uf || '', segmentInfo)
 
-  // Formata CNJ completo
-  const lawsuitCNJFormat = `${lawsuitNumber}-${verifyingDigit}.${protocolYear}.${segment}.${court}.${sourceUnit}`
-
   return {
-    lawsuitCNJFormat,
-    lawsuitNumber,
-    verifyingDigit,
-    protocolYear,
-    segment,
-    court,
-    sourceUnit,
-    argNumber,
+    ...parsed,
     district: districtInfo?.sourceUnit || '',
     uf: districtInfo?.uf || '',
     tj,
@@ -252,8 +156,7 @@ export function validateCNJComponents(components: {
  */
 export function extractYear(cnj: string): string {
   try {
-    const decomposed = decomposeCNJ(cnj)
-    return decomposed.protocolYear
+    return parseCNJ(cnj).protocolYear
   } catch {
     return ''
   }
@@ -266,8 +169,7 @@ export function extractYear(cnj: string): string {
  */
 export function extractSegment(cnj: string): string {
   try {
-    const decomposed = decomposeCNJ(cnj)
-    return decomposed.segment
+    return parseCNJ(cnj).segment
   } catch {
     return ''
   }
@@ -280,8 +182,7 @@ export function extractSegment(cnj: string): string {
  */
 export function extractCourt(cnj: string): string {
   try {
-    const decomposed = decomposeCNJ(cnj)
-    return decomposed.court
+    return parseCNJ(cnj).court
   } catch {
     return ''
   }
@@ -0,0 +1,275 @@
+import { DistrictRegistry } from '../data/district-registry'
+import {
+  generateDistrictKey,
+  getGlobalDistrictRegistry,
+} from '../data/districts'
+import { getSegment } from '../data/segments'
+import {
+  CNJDiagnostics,
+  CNJIssue,
+  CNJIssueSeverity,
+  CNJSpan,
+} from '../types/diagnostics'
+import { DistrictRegistryOptions } from '../types/district'
+import { CNJErrorType, CNJValidationError } from '../types/errors'
+import {
+  CNJComponentName,
+  CNJComponentToken,
+  CNJMissingSeparator,
+  CNJSeparatorToken,
+  CNJTokens,
+  CNJUnexpectedToken,
+} from '../types/tokens'
+import { getOriginCourt } from './court-analyzer'
+import { CNJ_DIGIT_COUNT, getComponentToken, tokenizeCNJ } from './tokenizer'
+import { calculateVerifyingDigit, MIN_PROTOCOL_YEAR } from './validator'
+
+/**
+ * Tamanho esperado da entrada formatada (NNNNNNN-DD.AAAA.J.CT.0000)
+ */
+const FORMATTED_LENGTH = 25
+
+/**
+ * Diagnostica um número CNJ retornando todos os problemas encontrados
+ *
+ * Diferente de decomposeCNJ (que lança no primeiro erro) e de validateCNJ
+ * (que resume tudo em uma mensagem), o diagnóstico continua a análise após
+ * cada problema e informa o trecho da entrada ao qual ele se refere.
+ *
+ * @param cnj Número CNJ a ser diagnosticado
+ * @param options Registro de distritos a consultar (padrão: registro global)
+ * @returns Relatório com a lista de problemas encontrados
+ *
+ * @example
+ * ```typescript
+ * const report = diagnoseCNJ('0001327-65.2018.8.26.0158')
+ * console.log(report.isValid) // false
+ * console.log(report.issues[0].code) // "INVALID_VERIFYING_DIGIT"
+ * console.log(report.issues[0].span) // { start: 8, end: 10 }
+ * ```
+ */
+export function diagnoseCNJ(
+  cnj: string,
+  options: DistrictRegistryOptions = {},
+): CNJDiagnostics {
+  const tokens = tokenizeCNJ(cnj)
+  const issues: CNJIssue[] = [
+    ...tokens.unexpected.map(unexpectedToken),
+    ...tokens.separators
+      .filter((separator) => separator.value !== separator.expected)
+      .map(wrongSeparator),
+    ...tokens.missingSeparators.map(missingSeparator),
+  ]
+
+  const expectedLength = tokens.formatted ? FORMATTED_LENGTH : CNJ_DIGIT_COUNT
+  if (cnj.length !== expectedLength) {
+    issues.push(
+      toIssue(CNJValidationError.invalidLength(cnj, expectedLength), 'error', {
+        start: 0,
+        end: cnj.length,
+      }),
+    )
+  }
+
+  if (hasNumericComponents(tokens)) {
+    issues.push(
+      ...diagnoseComponents(
+        tokens,
+        options.districts || getGlobalDistrictRegistry(),
+      ),
+    )
+  }
+
+  issues.sort((a, b) => a.span.start - b.span.start || a.span.end - b.span.end)
+
+  return {
+    input: cnj,
+    isValid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+  }
+}
+
+/**
+ * Indica se todos os componentes estão completos e contêm apenas dígitos
+ */
+function hasNumericComponents(tokens: CNJTokens): boolean {
+  return (
+    tokens.digitCount === CNJ_DIGIT_COUNT &&
+    tokens.components.length === 6 &&
+    tokens.components.every(
+      (component) => component.complete && /^\d+$/.test(component.value),
+    )
+  )
+}
+
+/**
+ * Verifica segmento, tribunal, distrito, ano e dígito verificador
+ * @param tokens Tokenização de uma entrada com os 20 dígitos
+ * @param districts Registro de distritos a consultar
+ */
+function diagnoseComponents(
+  tokens: CNJTokens,
+  districts: DistrictRegistry,
+): CNJIssue[] {
+  const issues: CNJIssue[] = []
+  const component = (name: CNJComponentName) =>
+    getComponentToken(tokens, name) as CNJComponentToken
+
+  const lawsuitNumber = component('lawsuitNumber').value
+  const verifyingDigit = component('verifyingDigit').value
+  const protocolYear = component('protocolYear').value
+  const segmentCode = component('segment').value
+  const court = component('court').value
+  const sourceUnit = component('sourceUnit').value
+
+  const year = parseInt(protocolYear, 10)
+  const maxYear = new Date().getFullYear() + 1
+  if (year < MIN_PROTOCOL_YEAR || year > maxYear) {
+    issues.push(
+      toIssue(
+        CNJValidationError.invalidYear(
+          protocolYear,
+          MIN_PROTOCOL_YEAR,
+          maxYear,
+        ),
+        'warning',
+        component('protocolYear').span,
+      ),
+    )
+  }
+
+  const segment = getSegment(segmentCode)
+  if (!segment) {
+    issues.push(
+      toIssue(
+        CNJValidationError.invalidSegment(segmentCode),
+        'error',
+        component('segment').span,
+      ),
+    )
+  } else {
+    let courtIsValid = true
+    try {
+      getOriginCourt(court, segment)
+    } catch (error) {
+      courtIsValid = false
+      if (error instanceof CNJValidationError) {
+        issues.push(toIssue(error, 'error', component('court').span))
+      }
+    }
+
+    const districtKey = generateDistrictKey(segmentCode, court, sourceUnit)
+    if (courtIsValid && !districts.has(districtKey)) {
+      issues.push(
+        toIssue(CNJValidationError.districtNotFound(districtKey), 'warning', {
+          start: component('segment').span.start,
+          end: component('sourceUnit').span.end,
+        }),
+      )
+    }
+  }
+
+  const expectedDigit = calculateVerifyingDigit(
+    lawsuitNumber + protocolYear + segmentCode + court + sourceUnit + '00',
+  )
+  if (verifyingDigit !== expectedDigit) {
+    issues.push(
+      toIssue(
+        CNJValidationError.invalidVerifyingDigit(verifyingDigit, expectedDigit),
+        'error',
+        component('verifyingDigit').span,
+      ),
+    )
+  }
+
+  return issues
+}
+
+/**
+ * Cria problema para trecho inesperado (caractere inválido, separador fora de
+ * lugar ou dígitos excedentes)
+ */
+function unexpectedToken(token: CNJUnexpectedToken): CNJIssue {
+  const { start } = token.span
+  const context = { position: start, received: token.text }
+  const error =
+    token.kind === 'character'
+      ? new CNJValidationError(
+          CNJErrorType.INVALID_FORMAT,
+          `Caracteres não numéricos na posição ${start}: "${token.text}"`,
+          'INVALID_CHARACTER',
+          context,
+        )
+      : token.kind === 'digit'
+        ? new CNJValidationError(
+            CNJErrorType.INVALID_FORMAT,
+            `Dígitos além do 20º na posição ${start}: "${token.text}"`,
+            'SURPLUS_DIGITS',
+            context,
+          )
+        : new CNJValidationError(
+            CNJErrorType.INVALID_FORMAT,
+            `Separador "${token.text}" inesperado na posição ${start}`,
+            'UNEXPECTED_SEPARATOR',
+            context,
+          )
+
+  return toIssue(error, 'error', token.span)
+}
+
+/**
+ * Cria problema para separador trocado (ex.: "." no lugar de "-")
+ */
+function wrongSeparator(separator: CNJSeparatorToken): CNJIssue {
+  const { start } = separator.span
+  return toIssue(
+    new CNJValidationError(
+      CNJErrorType.INVALID_FORMAT,
+      `Separador inválido na posição ${start}. Recebido: "${separator.value}", Esperado: "${separator.expected}"`,
+      'INVALID_SEPARATOR',
+      {
+        position: start,
+        received: separator.value,
+        expected: separator.expected,
+      },
+    ),
+    'error',
+    separator.span,
+  )
+}
+
+/**
+ * Cria problema para separador ausente em entrada formatada
+ */
+function missingSeparator({
+  expected,
+  position,
+}: CNJMissingSeparator): CNJIssue {
+  return toIssue(
+    new CNJValidationError(
+      CNJErrorType.INVALID_FORMAT,
+      `Separador "${expected}" ausente na posição ${position}`,
+      'MISSING_SEPARATOR',
+      { position, expected },
+    ),
+    'error',
+    { start: position, end: position },
+  )
+}
+
+/**
+ * Converte um CNJValidationError em problema de diagnóstico
+ */
+function toIssue(
+  error: CNJValidationError,
+  severity: CNJIssueSeverity,
+  span: CNJSpan,
+): CNJIssue {
+  return {
+    type: error.type,
+    code: error.code,
+    severity,
+    message: error.message,
+    span,
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  generateDistrictKey,
+  getGlobalDistrictRegistry,
+} from '../data/districts'
+import { getSegment } from '../data/segments'
+import { generateTribunalKey, getAllTribunals } from '../data/tribunals'
+import {
+  CourtCoverage,
+  DistrictBatchCoverage,
+  DistrictCoverageReport,
+  DistrictGap,
+  SegmentCoverage,
+} from '../types/coverage'
+import { DistrictRegistryOptions } from '../types/district'
+import { TribunalKey } from '../types/tribunal'
+import { decomposeCNJ } from './decomposer'
+
+/**
+ * Quantidade de CNJs de exemplo guardados por chave ausente
+ */
+const MAX_EXAMPLES = 3
+
+/**
+ * Gera o relatório de cobertura da base de distritos
+ *
+ * Conta as unidades de origem por segmento e tribunal. Os tribunais do
+ * registro de tribunais sem nenhuma unidade cadastrada aparecem em
+ * `emptyCourts`, o que indica onde faltam dados.
+ *
+ * @param options Registro de distritos a avaliar (padrão: registro global)
+ * @returns Cobertura por segmento e tribunal
+ *
+ * @example
+ * ```typescript
+ * const report = getDistrictCoverage()
+ * const labor = report.segments.find((s) => s.segment === '5')
+ * console.log(labor?.courts.find((c) => c.key === '5.02')?.units) // 225
+ * console.log(report.emptyCourts.includes('7.01')) // true
+ * ```
+ */
+export function getDistrictCoverage(
+  options: DistrictRegistryOptions = {},
+): DistrictCoverageReport {
+  const districts = options.districts || getGlobalDistrictRegistry()
+  const courts = new Map<TribunalKey, CourtCoverage>()
+
+  getAllTribunals().forEach((tribunal) => {
+    const key = generateTribunalKey(tribunal.segment, tribunal.court)
+    courts.set(key, {
+      key,
+      court: tribunal.court,
+      acronym: tribunal.acronym,
+      units: 0,
+    })
+  })
+
+  districts.keys().forEach((districtKey) => {
+    const [segment, court] = districtKey.split('.')
+    const key = generateTribunalKey(segment, court)
+    const coverage = courts.get(key) || { key, court, units: 0 }
+    coverage.units++
+    courts.set(key, coverage)
+  })
+
+  const segments = new Map<string, SegmentCoverage>()
+  Array.from(courts.values())
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .forEach((coverage) => {
+      const segment = coverage.key.split('.')[0]
+      const current = segments.get(segment) || {
+        segment,
+        name: getSegment(segment)?.name || segment,
+        units: 0,
+        courts: [],
+        emptyCourts: [],
+      }
+      current.units += coverage.units
+      current.courts.push(coverage)
+      if (coverage.units === 0) {
+        current.emptyCourts.push(coverage.key)
+      }
+      segments.set(segment, current)
+    })
+
+  const segmentList = Array.from(segments.values())
+
+  return {
+    totalUnits: districts.size,
+    segments: segmentList,
+    emptyCourts: segmentList.reduce(
+      (keys, segment) => keys.concat(segment.emptyCourts),
+      [] as TribunalKey[],
+    ),
+  }
+}
+
+/**
+ * Lista as unidades de origem usadas por um lote de CNJs e ausentes da base
+ *
+ * Útil para priorizar contribuições de dados: as chaves mais frequentes no
+ * lote vêm primeiro. Entradas que não podem ser decompostas são relatadas
+ * em `invalid`; o dígito verificador não é conferido.
+ *
+ * @param cnjs Números CNJ (formatados ou não)
+ * @param options Registro de distritos a consultar (padrão: registro global)
+ * @returns Quantidade resolvida e chaves ausentes
+ *
+ * @example
+ * ```typescript
+ * const coverage = findDistrictGaps(['0001327-64.2018.8.26.0158', '0000001-00.2020.5.02.0999'])
+ * console.log(coverage.resolved) // 1
+ * console.log(coverage.missing[0].key) // "5.02.0999"
+ * ```
+ */
+export function findDistrictGaps(
+  cnjs: string[],
+  options: DistrictRegistryOptions = {},
+): DistrictBatchCoverage {
+  const districts = options.districts || getGlobalDistrictRegistry()
+  const gaps = new Map<string, DistrictGap>()
+  const invalid: string[] = []
+  let resolved = 0
+
+  cnjs.forEach((cnj) => {
+    let key: string
+    try {
+      const { segment, court, sourceUnit } = decomposeCNJ(cnj.trim(), {
+        districts,
+      })
+      key = generateDistrictKey(segment, court, sourceUnit)
+    } catch {
+      invalid.push(cnj)
+      return
+    }
+
+    if (districts.has(key)) {
+      resolved++
+      return
+    }
+
+    const gap = gaps.get(key) || { key, count: 0, examples: [] }
+    gap.count++
+    if (gap.examples.length < MAX_EXAMPLES) {
+      gap.examples.push(cnj)
+    }
+    gaps.set(key, gap)
+  })
+
+  return {
+    total: cnjs.length,
+    resolved,
+    missing: Array.from(gaps.values()).sort(
+      (a, b) => b.count - a.count || a.key.localeCompare(b.key),
+    ),
+    invalid,
+  }
+}
@@ -0,0 +1,245 @@
+import { getGlobalDistrictRegistry } from '../data/districts'
+import { DistrictKey } from '../types/district'
+import {
+  DistrictSearchOptions,
+  DistrictSearchResult,
+} from '../types/district-search'
+
+/**
+ * Quantidade padrão de resultados
+ */
+const DEFAULT_LIMIT = 20
+
+/**
+ * Custo de completar a última palavra digitada ("Campi" → "Campinas")
+ */
+const COMPLETION_COST = 0.5
+
+/**
+ * Palavras ignoradas na comparação
+ */
+const STOPWORDS = ['d', 'de', 'da', 'das', 'do', 'dos', 'e']
+
+/**
+ * Abreviações que não são prefixo da palavra por extenso
+ */
+const ABBREVIATIONS: Record<string, string> = {
+  sto: 'santo',
+  sta: 'santa',
+  dr: 'doutor',
+  cel: 'coronel',
+  gal: 'general',
+  pe: 'padre',
+  sra: 'senhora',
+}
+
+/**
+ * Palavra da consulta e como ela pode ser comparada
+ */
+interface QueryToken {
+  text: string
+  /** Abreviada ("S.", "J", "Pres.") — casa com qualquer palavra iniciada por ela */
+  abbreviated: boolean
+  /** Última palavra, possivelmente incompleta */
+  last: boolean
+}
+
+/**
+ * Busca distritos/comarcas pelo nome da unidade de origem
+ *
+ * A comparação ignora acentos, caixa, pontuação e preposições ("de", "dos"),
+ * aceita abreviações ("S. J. dos Campos", "Sta. Rita") e erros de digitação
+ * (distância de edição de até 1 letra por palavra, ou 2 em palavras longas).
+ * As palavras da consulta devem aparecer na ordem do nome. Os resultados vêm
+ * dos mais próximos aos mais distantes, cobrindo todos os segmentos: a mesma
+ * cidade pode ser atendida pela Justiça Estadual, Federal, do Trabalho e
+ * Eleitoral.
+ *
+ * @param query Nome digitado pelo usuário
+ * @param options UF, segmento, limite e registro de distritos
+ * @returns Distritos encontrados, do mais ao menos semelhante
+ *
+ * @example
+ * ```typescript
+ * searchDistricts('S. J. dos Campos', { uf: 'SP' }).map((r) => r.key)
+ * // ["4.03.6103", "4.03.6327", "4.03.6903", "8.26.0520", "8.26.0577"]
+ *
+ * searchDistricts('ribeirao preto', { segment: 8 })[0].info.sourceUnit
+ * // "Ribeirão Preto"
+ * ```
+ */
+export function searchDistricts(
+  query: string,
+  options: DistrictSearchOptions = {},
+): DistrictSearchResult[] {
+  const queryTokens = tokenizeQuery(query)
+  if (queryTokens.length === 0) {
+    return []
+  }
+
+  const districts = options.districts || getGlobalDistrictRegistry()
+  const uf = options.uf?.toUpperCase()
+  const segmentPrefix =
+    options.segment === undefined
+      ? undefined
+      : `${parseInt(String(options.segment), 10)}.`
+  const { limit = DEFAULT_LIMIT } = options
+
+  const matches: Array<DistrictSearchResult & { extra: number }> = []
+
+  districts.keys().forEach((key: DistrictKey) => {
+    if (segmentPrefix !== undefined && !key.startsWith(segmentPrefix)) {
+      return
+    }
+
+    const info = districts.get(key)
+    if (!info || (uf !== undefined && info.uf !== uf)) {
+      return
+    }
+
+    const nameTokens = tokenizeName(info.sourceUnit)
+    const distance = matchTokens(queryTokens, nameTokens)
+    if (distance !== null) {
+      matches.push({
+        key,
+        info,
+        distance,
+        extra: nameTokens.length - queryTokens.length,
+      })
+    }
+  })
+
+  return matches
+    .sort(
+      (a, b) =>
+        a.distance - b.distance ||
+        a.extra - b.extra ||
+        a.key.localeCompare(b.key),
+    )
+    .slice(0, limit)
+    .map(({ key, info, distance }) => ({ key, info, distance }))
+}
+
+/**
+ * Remove acentos e converte para minúsculas
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+}
+
+/**
+ * Quebra a consulta em palavras, marcando as abreviadas
+ */
+function tokenizeQuery(query: string): QueryToken[] {
+  const words = normalizeText(query).match(/[a-z0-9]+\.?/g) || []
+  const tokens = words
+    .map((word) => ({
+      text: word.replace(/\.$/, ''),
+      abbreviated: word.endsWith('.') || word.length === 1,
+      last: false,
+    }))
+    .filter(
+      (token) => token.abbreviated || STOPWORDS.indexOf(token.text) === -1,
+    )
+
+  if (tokens.length > 0) {
+    tokens[tokens.length - 1].last = true
+  }
+
+  return tokens
+}
+
+/**
+ * Quebra o nome da unidade em palavras, sem preposições
+ */
+function tokenizeName(name: string): string[] {
+  return (normalizeText(name).match(/[a-z0-9]+/g) || []).filter(
+    (word) => STOPWORDS.indexOf(word) === -1,
+  )
+}
+
+/**
+ * Compara as palavras da consulta com as do nome, na ordem
+ * @returns Distância total ou null se o nome não corresponder
+ */
+function matchTokens(query: QueryToken[], name: string[]): number | null {
+  let position = 0
+  let total = 0
+
+  for (const token of query) {
+    let best: number | null = null
+    let bestIndex = -1
+
+    for (let index = position; index < name.length; index++) {
+      const cost = tokenCost(token, name[index])
+      if (cost !== null && (best === null || cost < best)) {
+        best = cost
+        bestIndex = index
+        if (cost === 0) {
+          break
+        }
+      }
+    }
+
+    if (best === null) {
+      return null
+    }
+
+    total += best
+    position = bestIndex + 1
+  }
+
+  return total
+}
+
+/**
+ * Custo de casar uma palavra da consulta com uma palavra do nome
+ * @returns Custo ou null se não casarem
+ */
+function tokenCost(token: QueryToken, word: string): number | null {
+  const { text } = token
+
+  if (text === word || ABBREVIATIONS[text] === word) {
+    return 0
+  }
+
+  if (token.abbreviated) {
+    return word.startsWith(text) ? 0 : null
+  }
+
+  if (token.last && text.length >= 3 && word.startsWith(text)) {
+    return COMPLETION_COST
+  }
+
+  const allowed = text.length >= 8 ? 2 : text.length >= 4 ? 1 : 0
+  if (allowed === 0 || Math.abs(text.length - word.length) > allowed) {
+    return null
+  }
+
+  const distance = editDistance(text, word)
+  return distance <= allowed ? distance : null
+}
+
+/**
+ * Distância de edição (Levenshtein) entre duas palavras
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
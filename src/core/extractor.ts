@@ -0,0 +1,81 @@
+import { CNJMatch, ExtractionOptions } from '../types/extraction'
+import { formatCNJ, MIN_PROTOCOL_YEAR, validateCNJ } from './validator'
+
+/**
+ * Candidato a CNJ: 20 dígitos agrupados como NNNNNNN-DD.AAAA.J.CT.0000, com
+ * cada separador ("-", "." ou espaço) opcional. Não pode estar colado a
+ * outros dígitos, o que descarta trechos de sequências numéricas maiores.
+ */
+const CANDIDATE_PATTERN =
+  /(?<!\d)(?<!\d[-./])(\d{7})[-.\s]?(\d{2})[-.\s]?(\d{4})[-.\s]?(\d)[-.\s]?(\d{2})[-.\s]?(\d{4})(?!\d|[-./]\d)/g
+
+/**
+ * Extrai números CNJ de um texto livre
+ *
+ * Reconhece números formatados, não formatados e parcialmente formatados.
+ * Para evitar falsos positivos (telefones, CPFs, códigos de barras), só são
+ * aceitos candidatos isolados de outros dígitos, com segmento entre 1 e 9 e
+ * ano de protocolo plausível (desative com `plausibleOnly: false`). O dígito
+ * verificador não é exigido por padrão: o resultado de validateCNJ acompanha
+ * cada ocorrência.
+ *
+ * @param text Texto a ser analisado
+ * @param options Opções de extração
+ * @returns Ocorrências na ordem em que aparecem no texto
+ *
+ * @example
+ * ```typescript
+ * const matches = extractCNJs(
+ *   'Ref. aos autos nº 0001327-64.2018.8.26.0158 e 00013276520188260158.',
+ * )
+ * matches.map((m) => [m.start, m.normalized, m.validation.isValid])
+ * // [[18, "0001327-64.2018.8.26.0158", true], [46, "0001327-65.2018.8.26.0158", false]]
+ * ```
+ */
+export function extractCNJs(
+  text: string,
+  options: ExtractionOptions = {},
+): CNJMatch[] {
+  const { validOnly = false, limit = Infinity, plausibleOnly = true } = options
+  const maxYear = new Date().getFullYear() + 1
+  const matches: CNJMatch[] = []
+
+  for (const candidate of text.matchAll(CANDIDATE_PATTERN)) {
+    if (matches.length >= limit) {
+      break
+    }
+
+    const [raw, lawsuitNumber, verifyingDigit, year, segment, court, unit] =
+      candidate
+    const protocolYear = parseInt(year, 10)
+
+    if (
+      plausibleOnly &&
+      (segment === '0' ||
+        protocolYear < MIN_PROTOCOL_YEAR ||
+        protocolYear > maxYear)
+    ) {
+      continue
+    }
+
+    const normalized = formatCNJ(
+      lawsuitNumber + verifyingDigit + year + segment + court + unit,
+    )
+    const validation = validateCNJ(normalized)
+
+    if (validOnly && !validation.isValid) {
+      continue
+    }
+
+    const start = candidate.index as number
+    matches.push({
+      text: raw,
+      start,
+      end: start + raw.length,
+      normalized,
+      validation,
+    })
+  }
+
+  return matches
+}
@@ -0,0 +1,343 @@
+import { DistrictRegistry } from '../data/district-registry'
+import {
+  generateDistrictKey,
+  getGlobalDistrictRegistry,
+} from '../data/districts'
+import { getSegment } from '../data/segments'
+import { DistrictKey } from '../types/district'
+import { CNJErrorType } from '../types/errors'
+import {
+  CNJFaker,
+  CNJFakerOptions,
+  FakeCNJ,
+  FakeCNJErrorType,
+} from '../types/faker'
+import { buildCNJ } from './builder'
+import { getOriginCourt } from './court-analyzer'
+import {
+  calculateVerifyingDigit,
+  formatCNJ,
+  MIN_PROTOCOL_YEAR,
+} from './validator'
+
+/**
+ * Menor ano de protocolo gerado por padrão
+ */
+const DEFAULT_MIN_YEAR = 2010
+
+/**
+ * Maior ano de protocolo gerado por padrão. Fixo, e não o ano corrente, para
+ * que a mesma semente gere a mesma sequência em qualquer data
+ */
+const DEFAULT_MAX_YEAR = 2024
+
+/**
+ * Ordem de sorteio dos erros injetados (mantém a geração determinística)
+ */
+const INJECTABLE_ERRORS: FakeCNJErrorType[] = [
+  CNJErrorType.INVALID_FORMAT,
+  CNJErrorType.INVALID_LENGTH,
+  CNJErrorType.INVALID_VERIFYING_DIGIT,
+  CNJErrorType.INVALID_SEGMENT,
+  CNJErrorType.INVALID_COURT,
+  CNJErrorType.INVALID_YEAR,
+  CNJErrorType.DISTRICT_NOT_FOUND,
+]
+
+/**
+ * Sorteios de unidade de origem antes de procurar uma livre em sequência
+ */
+const MAX_DISTRICT_ATTEMPTS = 100
+
+/**
+ * Caracteres usados para injetar erros de formato (parecidos com dígitos)
+ */
+const FORMAT_NOISE = 'OIlSB'
+
+/**
+ * Componentes de um número gerado, antes do cálculo do DV
+ */
+interface FakeComponents {
+  lawsuitNumber: string
+  protocolYear: string
+  segment: string
+  court: string
+  sourceUnit: string
+}
+
+/**
+ * Cria um gerador determinístico de CNJs fictícios
+ *
+ * Os segmentos, tribunais e unidades de origem são sorteados da base de
+ * distritos, o que reproduz a distribuição real de unidades (a Justiça
+ * Estadual predomina). A mesma semente e as mesmas opções geram sempre a
+ * mesma sequência de números, independentemente da data de execução (o ano
+ * máximo padrão é fixo).
+ *
+ * @param seed Semente (número ou texto)
+ * @param options Filtros e proporção de números inválidos
+ * @returns Gerador de CNJs
+ * @throws Error se os filtros não selecionarem nenhum distrito ou as proporções somarem mais que 1
+ *
+ * @example
+ * ```typescript
+ * const faker = createCNJFaker('fixtures', {
+ *   uf: ['SP', 'RJ'],
+ *   minYear: 2015,
+ *   maxYear: 2024,
+ *   invalidRatio: { INVALID_VERIFYING_DIGIT: 0.1 },
+ * })
+ * const batch = faker.take(1000) // ~10% com DV inválido
+ * ```
+ */
+export function createCNJFaker(
+  seed: number | string,
+  options: CNJFakerOptions = {},
+): CNJFaker {
+  const {
+    minYear = DEFAULT_MIN_YEAR,
+    maxYear = DEFAULT_MAX_YEAR,
+    formatted = true,
+    invalidRatio = {},
+  } = options
+
+  if (minYear > maxYear) {
+    throw new Error(`Intervalo de anos inválido: ${minYear}-${maxYear}`)
+  }
+
+  const totalRatio = INJECTABLE_ERRORS.reduce(
+    (sum, type) => sum + (invalidRatio[type] || 0),
+    0,
+  )
+  if (totalRatio > 1) {
+    throw new Error(
+      `Proporção total de inválidos maior que 1: ${totalRatio.toFixed(2)}`,
+    )
+  }
+
+  const districts = options.districts || getGlobalDistrictRegistry()
+  const keys = selectDistrictKeys(options, districts)
+  if (keys.length === 0) {
+    throw new Error('Nenhum distrito corresponde aos filtros informados')
+  }
+
+  const numericSeed = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed)
+  const random = createRandom(numericSeed)
+  const integer = (min: number, max: number) =>
+    min + Math.floor(random() * (max - min + 1))
+  const pick = <T>(items: readonly T[]): T =>
+    items[integer(0, items.length - 1)]
+
+  const nextComponents = (): {
+    districtKey: DistrictKey
+    components: FakeComponents
+  } => {
+    const districtKey = pick(keys)
+    const [segment, court, sourceUnit] = districtKey.split('.')
+
+    return {
+      districtKey,
+      components: {
+        lawsuitNumber: integer(1, 9999999).toString().padStart(7, '0'),
+        protocolYear: integer(minYear, maxYear).toString(),
+        segment,
+        court,
+        sourceUnit,
+      },
+    }
+  }
+
+  const output = (digits: string) => (formatted ? formatCNJ(digits) : digits)
+
+  const validCNJ = (components: FakeComponents) =>
+    output(buildCNJ(components).unformatted)
+
+  const invalidCNJ = (
+    components: FakeComponents,
+    errorType: FakeCNJErrorType,
+  ): string => {
+    switch (errorType) {
+      case CNJErrorType.INVALID_FORMAT: {
+        const cnj = validCNJ(components)
+        const position = integer(0, 6)
+        return (
+          cnj.substring(0, position) +
+          pick(FORMAT_NOISE.split('')) +
+          cnj.substring(position + 1)
+        )
+      }
+      case CNJErrorType.INVALID_LENGTH: {
+        const cnj = validCNJ(components)
+        const position = integer(0, 6)
+        return cnj.substring(0, position) + cnj.substring(position + 1)
+      }
+      case CNJErrorType.INVALID_VERIFYING_DIGIT: {
+        const digits = buildCNJ(components).unformatted
+        const expected = parseInt(digits.substring(7, 9), 10)
+        const wrong = ((expected + integer(1, 99)) % 100)
+          .toString()
+          .padStart(2, '0')
+        return output(digits.substring(0, 7) + wrong + digits.substring(9))
+      }
+      case CNJErrorType.INVALID_SEGMENT:
+        return output(withDigit({ ...components, segment: '0' }))
+      case CNJErrorType.INVALID_COURT:
+        return output(withDigit({ ...components, court: '99' }))
+      case CNJErrorType.INVALID_YEAR:
+        return output(
+          withDigit({
+            ...components,
+            protocolYear: integer(1980, MIN_PROTOCOL_YEAR - 1).toString(),
+          }),
+        )
+      case CNJErrorType.DISTRICT_NOT_FOUND:
+        return output(
+          withDigit({
+            ...components,
+            sourceUnit: findMissingSourceUnit(components),
+          }),
+        )
+    }
+  }
+
+  /**
+   * Sorteia uma unidade de origem ausente da base; esgotadas as tentativas,
+   * usa a primeira livre do tribunal
+   * @throws Error se o tribunal tiver todas as 10.000 unidades na base
+   */
+  const findMissingSourceUnit = ({
+    segment,
+    court,
+  }: FakeComponents): string => {
+    const isMissing = (sourceUnit: string) =>
+      !districts.has(generateDistrictKey(segment, court, sourceUnit))
+
+    for (let attempt = 0; attempt < MAX_DISTRICT_ATTEMPTS; attempt++) {
+      const sourceUnit = integer(0, 9999).toString().padStart(4, '0')
+      if (isMissing(sourceUnit)) {
+        return sourceUnit
+      }
+    }
+
+    for (let unit = 0; unit <= 9999; unit++) {
+      const sourceUnit = unit.toString().padStart(4, '0')
+      if (isMissing(sourceUnit)) {
+        return sourceUnit
+      }
+    }
+
+    throw new Error(
+      `Nenhuma unidade de origem livre no tribunal ${segment}.${court}`,
+    )
+  }
+
+  const pickErrorType = (): FakeCNJErrorType | undefined => {
+    let threshold = random()
+    for (const type of INJECTABLE_ERRORS) {
+      threshold -= invalidRatio[type] || 0
+      if (threshold < 0) {
+        return type
+      }
+    }
+    return undefined
+  }
+
+  const next = (): FakeCNJ => {
+    const errorType = totalRatio > 0 ? pickErrorType() : undefined
+    const { districtKey, components } = nextComponents()
+
+    if (!errorType) {
+      return { cnj: validCNJ(components), isValid: true, districtKey }
+    }
+
+    return {
+      cnj: invalidCNJ(components, errorType),
+      isValid: false,
+      errorType,
+      districtKey,
+    }
+  }
+
+  return {
+    seed: numericSeed,
+    next,
+    cnj: () => validCNJ(nextComponents().components),
+    take: (count) => Array.from({ length: count }, next),
+  }
+}
+
+/**
+ * Seleciona as chaves de distrito que atendem aos filtros e que formam
+ * combinações segmento/tribunal válidas
+ */
+function selectDistrictKeys(
+  options: CNJFakerOptions,
+  districts: DistrictRegistry,
+): DistrictKey[] {
+  const ufs = toList(options.uf).map((uf) => uf.toUpperCase())
+  const segments = toList(options.segment).map((segment) => String(segment))
+
+  return districts.keys().filter((key) => {
+    const [segmentCode, court] = key.split('.')
+    if (ufs.length > 0 && ufs.indexOf(districts.get(key)?.uf || '') === -1) {
+      return false
+    }
+    if (segments.length > 0 && segments.indexOf(segmentCode) === -1) {
+      return false
+    }
+
+    const segment = getSegment(segmentCode)
+    if (!segment) {
+      return false
+    }
+    try {
+      getOriginCourt(court, segment)
+      return true
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Calcula o DV para componentes que buildCNJ rejeitaria
+ */
+function withDigit(components: FakeComponents): string {
+  const { lawsuitNumber, protocolYear, segment, court, sourceUnit } = components
+  const body = lawsuitNumber + protocolYear + segment + court + sourceUnit
+  const digit = calculateVerifyingDigit(body + '00')
+  return lawsuitNumber + digit + body.substring(7)
+}
+
+function toList<T>(value: T | readonly T[] | undefined): T[] {
+  if (value === undefined) {
+    return []
+  }
+  return Array.isArray(value) ? [...value] : [value as T]
+}
+
+/**
+ * Converte uma semente textual em número (FNV-1a de 32 bits)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Gerador pseudoaleatório determinístico (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,89 @@
+import { getGlobalDistrictRegistry } from '../data/districts'
+import { getIBGEUF, IBGE_TABLE } from '../data/ibge'
+import { DistrictKey, DistrictRegistryOptions } from '../types/district'
+import { DistrictIBGELink, IBGECode, IBGEOptions } from '../types/ibge'
+import { normalizeLabel } from '../utils/table'
+
+/**
+ * Índices UF + nome normalizado → código, por tabela de municípios
+ */
+const NAME_INDEXES = new WeakMap<
+  Record<IBGECode, string>,
+  Map<string, IBGECode>
+>()
+
+/**
+ * Localiza o código do IBGE de um município pelo nome e UF
+ *
+ * A comparação ignora acentos, caixa e pontuação.
+ *
+ * @param name Nome do município
+ * @param uf Sigla da UF
+ * @param options Tabela do IBGE (padrão: IBGE_TABLE)
+ * @returns Código do município ou null se não estiver na tabela
+ *
+ * @example
+ * ```typescript
+ * findIBGECode('sao jose dos campos', 'SP') // "3549904"
+ * ```
+ */
+export function findIBGECode(
+  name: string,
+  uf: string,
+  options: IBGEOptions = {},
+): IBGECode | null {
+  const { municipalities } = options.ibge || IBGE_TABLE
+  let index = NAME_INDEXES.get(municipalities)
+
+  if (!index) {
+    index = new Map()
+    for (const code of Object.keys(municipalities)) {
+      index.set(
+        `${getIBGEUF(code)}:${normalizeLabel(municipalities[code])}`,
+        code,
+      )
+    }
+    NAME_INDEXES.set(municipalities, index)
+  }
+
+  return index.get(`${uf.toUpperCase()}:${normalizeLabel(name)}`) || null
+}
+
+/**
+ * Obtém os municípios do IBGE vinculados a um distrito/comarca
+ *
+ * Vínculos explícitos da tabela têm precedência (`source: "table"`); na
+ * falta deles, o distrito é vinculado ao município da mesma UF com o nome da
+ * unidade de origem (`source: "inferred"`), o que é só uma suposição.
+ *
+ * A tabela embutida (IBGE_TABLE) tem poucos municípios e vínculos
+ * explícitos; para a maioria dos distritos, o resultado é null ou inferido.
+ * Carregue a DTB ou uma tabela de jurisdição com loadIBGETable para obter
+ * vínculos confiáveis.
+ *
+ * @param key Chave do distrito (segment.court.sourceUnit)
+ * @param options Tabela do IBGE e registro de distritos
+ * @returns Sede, municípios abrangidos e origem do vínculo, ou null se não houver vínculo
+ *
+ * @example
+ * ```typescript
+ * getDistrictIBGE('8.26.0100')
+ * // { seat: "3550308", municipalities: ["3550308"], source: "table" }
+ * getDistrictIBGE('8.13.0024')
+ * // { seat: "3106200", municipalities: ["3106200"], source: "inferred" } (Belo Horizonte)
+ * ```
+ */
+export function getDistrictIBGE(
+  key: DistrictKey,
+  options: IBGEOptions & DistrictRegistryOptions = {},
+): DistrictIBGELink | null {
+  const table = options.ibge || IBGE_TABLE
+  if (Object.prototype.hasOwnProperty.call(table.districts, key)) {
+    return { ...table.districts[key], source: 'table' }
+  }
+
+  const info = (options.districts || getGlobalDistrictRegistry()).get(key)
+  const seat = info && findIBGECode(info.sourceUnit, info.uf, { ibge: table })
+
+  return seat ? { seat, municipalities: [seat], source: 'inferred' } : null
+}
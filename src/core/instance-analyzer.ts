@@ -0,0 +1,134 @@
+import { SpecialCourtCode } from '../types/court'
+import { CNJInstance, InstanceLevel } from '../types/instance'
+import { Segment, SegmentCode } from '../types/segment'
+import { getSourceUnitTypeBySegment } from './source-unit-analyzer'
+
+/**
+ * Tribunais superiores identificados pelo código 00 em cada segmento
+ */
+const SUPERIOR_COURT_BY_SEGMENT: Record<number, string> = {
+  [SegmentCode.STF]: 'STF',
+  [SegmentCode.STJ]: 'STJ',
+  [SegmentCode.TRT]: 'TST',
+  [SegmentCode.TRE]: 'TSE',
+  [SegmentCode.STM]: 'STM',
+  [SegmentCode.TJM]: 'STM',
+}
+
+/**
+ * Conselhos identificados pelo segmento ou pelo código 90
+ */
+const COUNCIL_BY_SEGMENT: Record<number, string> = {
+  [SegmentCode.CNJ]: 'Conselho Nacional de Justiça',
+  [SegmentCode.TRF]: 'Conselho da Justiça Federal',
+  [SegmentCode.TRT]: 'Conselho Superior da Justiça do Trabalho',
+}
+
+/**
+ * Infere a instância do processo a partir do tribunal e da unidade de origem
+ *
+ * Regras, em ordem:
+ * - segmento 2 (CNJ) ou tribunal 90: conselho
+ * - segmentos 1 e 3 ou tribunal 00: tribunal superior
+ * - unidade 0000: competência originária do tribunal (segundo grau)
+ * - unidade iniciada por 9: turma recursal
+ * - demais unidades: primeiro grau (vara, foro, zona eleitoral, etc.)
+ *
+ * @param court Código do tribunal (2 dígitos)
+ * @param sourceUnit Código da unidade de origem (4 dígitos)
+ * @param segment Informações do segmento
+ * @returns Instância classificada e explicação da regra aplicada
+ *
+ * @example
+ * ```typescript
+ * getInstance('26', '0000', getSegment(8)!).level // "segundo grau"
+ * getInstance('26', '9001', getSegment(8)!).level // "turma recursal"
+ * getInstance('00', '0000', getSegment(5)!).explanation
+ * // "Tribunal 00 da Justiça do Trabalho: tribunal superior (TST)"
+ * ```
+ */
+export function getInstance(
+  court: string,
+  sourceUnit: string,
+  segment: Segment,
+): CNJInstance {
+  if (segment.number === SegmentCode.CNJ) {
+    return {
+      level: InstanceLevel.COUNCIL,
+      explanation: `Segmento ${segment.number}: ${COUNCIL_BY_SEGMENT[SegmentCode.CNJ]}`,
+    }
+  }
+
+  if (court === SpecialCourtCode.COUNCIL) {
+    return {
+      level: InstanceLevel.COUNCIL,
+      explanation: `Tribunal 90 da ${segment.name}: ${COUNCIL_BY_SEGMENT[segment.number] || 'conselho'}`,
+    }
+  }
+
+  if (
+    segment.number === SegmentCode.STF ||
+    segment.number === SegmentCode.STJ
+  ) {
+    return {
+      level: InstanceLevel.SUPERIOR_COURT,
+      explanation: `Segmento ${segment.number}: tribunal superior (${SUPERIOR_COURT_BY_SEGMENT[segment.number]})`,
+    }
+  }
+
+  if (court === SpecialCourtCode.ORIGINAL) {
+    const acronym = SUPERIOR_COURT_BY_SEGMENT[segment.number]
+    return {
+      level: InstanceLevel.SUPERIOR_COURT,
+      explanation: `Tribunal 00 da ${segment.name}: tribunal superior${acronym ? ` (${acronym})` : ''}`,
+    }
+  }
+
+  if (sourceUnit === '0000') {
+    return {
+      level: InstanceLevel.SECOND_GRADE,
+      explanation:
+        'Unidade de origem 0000: competência originária do Tribunal (segundo grau)',
+    }
+  }
+
+  if (sourceUnit[0] === '9') {
+    return {
+      level: InstanceLevel.APPEALS_PANEL,
+      explanation: `Unidade de origem ${sourceUnit}: competência originária da Turma Recursal`,
+    }
+  }
+
+  return {
+    level: InstanceLevel.FIRST_GRADE,
+    explanation: `Unidade de origem ${sourceUnit} (${getSourceUnitTypeBySegment(segment.number)}): primeiro grau`,
+  }
+}
+
+/**
+ * Converte o nome de uma instância informado em texto (ex.: argumento de CLI)
+ *
+ * Aceita o valor de InstanceLevel com espaços, hífens ou sublinhados e sem
+ * diferenciar maiúsculas, ou o nome da constante (ex.: "FIRST_GRADE").
+ *
+ * @param value Nome da instância
+ * @returns Instância correspondente, ou null se não reconhecida
+ *
+ * @example
+ * ```typescript
+ * parseInstanceLevel('primeiro-grau') // InstanceLevel.FIRST_GRADE
+ * parseInstanceLevel('SECOND_GRADE') // InstanceLevel.SECOND_GRADE
+ * ```
+ */
+export function parseInstanceLevel(value: string): InstanceLevel | null {
+  const trimmed = value.trim()
+  if (Object.prototype.hasOwnProperty.call(InstanceLevel, trimmed)) {
+    return InstanceLevel[trimmed as keyof typeof InstanceLevel]
+  }
+
+  const normalized = trimmed.toLowerCase().replace(/[-_\s]+/g, ' ')
+  const level = Object.values(InstanceLevel).find(
+    (candidate) => candidate === normalized,
+  )
+  return level || null
+}
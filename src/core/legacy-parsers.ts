@@ -0,0 +1,101 @@
+import { LegacyNumberParser, LegacyNumberResult } from '../types/legacy'
+import { createTJSPLegacyParser } from './legacy-tjsp'
+
+/**
+ * Parsers registrados, na ordem de registro
+ */
+const LEGACY_PARSERS: LegacyNumberParser[] = [createTJSPLegacyParser()]
+
+/**
+ * Registra um parser de numeração legada
+ *
+ * @param parser Parser a registrar
+ * @throws Error se já houver um parser com o mesmo id
+ *
+ * @example
+ * ```typescript
+ * registerLegacyParser(meuParserTJMG)
+ * parseLegacyNumber('0024.05.123456-7')?.parser // "tjmg-legacy"
+ * ```
+ */
+export function registerLegacyParser(parser: LegacyNumberParser): void {
+  if (LEGACY_PARSERS.some(({ id }) => id === parser.id)) {
+    throw new Error(`Parser de numeração legada já registrado: ${parser.id}`)
+  }
+  LEGACY_PARSERS.push(parser)
+}
+
+/**
+ * Remove um parser de numeração legada
+ *
+ * @param id Identificador do parser
+ * @returns true se o parser estava registrado
+ */
+export function unregisterLegacyParser(id: string): boolean {
+  const index = LEGACY_PARSERS.findIndex((parser) => parser.id === id)
+  if (index === -1) {
+    return false
+  }
+  LEGACY_PARSERS.splice(index, 1)
+  return true
+}
+
+/**
+ * Lista os parsers de numeração legada registrados
+ *
+ * @returns Cópia da lista, na ordem em que são consultados
+ */
+export function getLegacyParsers(): LegacyNumberParser[] {
+  return [...LEGACY_PARSERS]
+}
+
+/**
+ * Indica se algum parser registrado reconhece a entrada
+ *
+ * @param input Número no formato legado
+ */
+export function isLegacyNumber(input: string): boolean {
+  return LEGACY_PARSERS.some((parser) => parser.recognize(input))
+}
+
+/**
+ * Decompõe um número anterior à numeração única (Resolução CNJ 65/2008)
+ *
+ * Consulta os parsers registrados na ordem de registro; o primeiro que
+ * reconhecer e decompor a entrada é usado. Quando o parser tem uma tabela de
+ * correspondência com o número, o CNJ unificado é informado em `cnj`.
+ *
+ * @param input Número no formato legado
+ * @returns Campos do formato legado e CNJ vinculado, ou null se nenhum parser
+ * reconhecer a entrada
+ *
+ * @example
+ * ```typescript
+ * const result = parseLegacyNumber('583.00.2005.123456-7')
+ * console.log(result?.parser) // "tjsp-legacy"
+ * console.log(result?.fields.district) // "583"
+ * console.log(result?.cnj) // null (sem tabela de correspondência)
+ * ```
+ */
+export function parseLegacyNumber(input: string): LegacyNumberResult | null {
+  for (const parser of LEGACY_PARSERS) {
+    if (!parser.recognize(input)) {
+      continue
+    }
+
+    const parsed = parser.parse(input)
+    if (!parsed) {
+      continue
+    }
+
+    return {
+      input,
+      parser: parser.id,
+      tribunal: parser.tribunal,
+      ...parsed,
+      cnj: parser.toCNJ ? parser.toCNJ(parsed) : null,
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,77 @@
+import {
+  LegacyCNJLookup,
+  LegacyNumberParser,
+  LegacyParsedNumber,
+} from '../types/legacy'
+import { formatCNJ, isValidCNJ } from './validator'
+
+/**
+ * Numeração antiga do TJSP: CCC.FF.AAAA.NNNNNN-D
+ * (comarca, foro, ano, sequencial e dígito), com separadores opcionais
+ */
+const TJSP_LEGACY_PATTERN = /^(\d{3})\.?(\d{2})\.?(\d{4})\.?(\d{6})-?(\d)$/
+
+/**
+ * Cria o parser da numeração antiga do TJSP (ex.: 583.00.2005.123456-7)
+ *
+ * O reconhecimento é apenas pelo formato: o dígito (D) da numeração antiga
+ * não é conferido. Na migração para a numeração única o TJSP atribuiu novos
+ * sequenciais, então o vínculo com o CNJ unificado só é informado quando há
+ * uma tabela de correspondência; sem ela, `cnj` fica null.
+ *
+ * @param lookup Correspondência número antigo (forma canônica
+ * CCC.FF.AAAA.NNNNNN-D) → CNJ unificado; entradas que não sejam CNJs válidos
+ * são ignoradas
+ * @returns Parser pronto para registerLegacyParser
+ *
+ * @example
+ * ```typescript
+ * const parser = createTJSPLegacyParser({
+ *   '583.00.2005.123456-7': '0012345-19.2005.8.26.0100',
+ * })
+ * const parsed = parser.parse('5830020051234567')
+ * console.log(parsed?.fields.sequential) // "123456"
+ * console.log(parser.toCNJ?.(parsed!)) // "0012345-19.2005.8.26.0100"
+ * ```
+ */
+export function createTJSPLegacyParser(
+  lookup?: LegacyCNJLookup,
+): LegacyNumberParser {
+  const parser: LegacyNumberParser = {
+    id: 'tjsp-legacy',
+    tribunal: '8.26',
+    description: 'Numeração antiga do TJSP (CCC.FF.AAAA.NNNNNN-D)',
+
+    recognize(input: string): boolean {
+      return TJSP_LEGACY_PATTERN.test(input.trim())
+    },
+
+    parse(input: string): LegacyParsedNumber | null {
+      const match = TJSP_LEGACY_PATTERN.exec(input.trim())
+      if (!match) {
+        return null
+      }
+
+      const [, district, forum, year, sequential, checkDigit] = match
+      return {
+        formatted: `${district}.${forum}.${year}.${sequential}-${checkDigit}`,
+        fields: { district, forum, year, sequential, checkDigit },
+      }
+    },
+  }
+
+  if (lookup) {
+    parser.toCNJ = (parsed: LegacyParsedNumber): string | null => {
+      const cnj =
+        typeof lookup === 'function'
+          ? lookup(parsed)
+          : Object.prototype.hasOwnProperty.call(lookup, parsed.formatted)
+            ? lookup[parsed.formatted]
+            : null
+
+      return cnj && isValidCNJ(cnj) ? formatCNJ(cnj) : null
+    }
+  }
+
+  return parser
+}
@@ -0,0 +1,167 @@
+import {
+  LenientNormalizationResult,
+  NormalizationTransformation,
+} from '../types/normalization'
+import { formatCNJ } from './validator'
+
+/**
+ * Confusões comuns de OCR entre letras e dígitos
+ */
+const OCR_SUBSTITUTIONS: Record<string, string> = {
+  O: '0',
+  o: '0',
+  Q: '0',
+  D: '0',
+  I: '1',
+  l: '1',
+  '|': '1',
+  S: '5',
+  s: '5',
+  B: '8',
+  Z: '2',
+}
+
+/**
+ * Hífens e travessões Unicode (‐ ‑ ‒ – — ― − ﹣ －)
+ */
+const UNICODE_DASHES = /[‐-―−﹣－]/
+
+/**
+ * Rótulos que costumam anteceder o número em documentos
+ * (ex.: "Processo nº", "Autos n.", "Proc.:", "CNJ")
+ */
+const PREFIX_PATTERN =
+  /^(?:\s|[("'«[]|(?:processo|proc|autos|cnj|n[úu]mero|n[º°o]|n)(?![a-z])[\s.:º°#-]*)+/i
+
+/**
+ * Pontuação e fechamentos que costumam suceder o número
+ */
+const SUFFIX_PATTERN = /[\s.,;:!?)"'»\]]+$/
+
+/**
+ * Sequências de letras; só as formadas apenas por confusões de OCR
+ * (ex.: "Ol" em "2Ol8") são convertidas em dígitos
+ */
+const LETTER_RUN_PATTERN = /[A-Za-zÀ-ÖØ-öø-ÿ|]+/g
+
+/**
+ * Normaliza um número CNJ tolerando ruídos típicos de OCR
+ *
+ * Diferente de normalizeCNJ (que apenas remove não-dígitos), corrige letras
+ * confundidas com dígitos, hífens Unicode, espaços não separáveis, rótulos
+ * como "Processo nº" e pontuação final, informando cada transformação.
+ *
+ * Letras só viram dígitos quando fazem parte dos grupos do número: palavras
+ * com outras letras (ex.: "TJSP") são removidas, e o texto que sucede os 20
+ * dígitos sem conter outros dígitos (ex.: " (TJSP)") é descartado como sufixo.
+ *
+ * @param input Texto contendo um único número CNJ
+ * @returns Dígitos normalizados, CNJ formatado e transformações aplicadas
+ *
+ * @example
+ * ```typescript
+ * const result = normalizeCNJLenient('Processo nº OOO1327–64.2Ol8.8.26.0158.')
+ * console.log(result.formatted) // "0001327-64.2018.8.26.0158"
+ * console.log(result.transformations.map((t) => t.kind))
+ * // ["prefix-removed", "ocr-substitution", ..., "unicode-dash", ..., "suffix-removed"]
+ * ```
+ */
+export function normalizeCNJLenient(input: string): LenientNormalizationResult {
+  const transformations: NormalizationTransformation[] = []
+
+  const prefix = (PREFIX_PATTERN.exec(input) || [''])[0]
+  const start = prefix.length
+  const suffix = (SUFFIX_PATTERN.exec(input.substring(start)) || [''])[0]
+  let end = input.length - suffix.length
+  const textLetters = findTextLetters(input, start, end)
+
+  if (prefix.trim()) {
+    transformations.push(removal('prefix-removed', input, 0, start))
+  }
+
+  let normalized = ''
+  for (let i = start; i < end; i++) {
+    if (normalized.length === 20 && !/\d/.test(input.substring(i, end))) {
+      end = i
+      break
+    }
+
+    const char = input[i]
+
+    if (char >= '0' && char <= '9') {
+      normalized += char
+    } else if (char === '-' || char === '.') {
+      continue
+    } else if (UNICODE_DASHES.test(char)) {
+      transformations.push({
+        kind: 'unicode-dash',
+        from: char,
+        to: '-',
+        span: { start: i, end: i + 1 },
+      })
+    } else if (char.trim() === '') {
+      transformations.push(removal('whitespace-removed', input, i, i + 1))
+    } else if (OCR_SUBSTITUTIONS[char] && !textLetters.has(i)) {
+      normalized += OCR_SUBSTITUTIONS[char]
+      transformations.push({
+        kind: 'ocr-substitution',
+        from: char,
+        to: OCR_SUBSTITUTIONS[char],
+        span: { start: i, end: i + 1 },
+      })
+    } else {
+      transformations.push(removal('character-removed', input, i, i + 1))
+    }
+  }
+
+  if (input.substring(end).trim()) {
+    transformations.push(removal('suffix-removed', input, end, input.length))
+  }
+
+  return {
+    input,
+    normalized,
+    formatted: normalized.length === 20 ? formatCNJ(normalized) : null,
+    transformations,
+  }
+}
+
+/**
+ * Posições de letras que pertencem a palavras, e não a grupos do número:
+ * sequências com ao menos uma letra sem confusão de OCR
+ */
+function findTextLetters(
+  input: string,
+  start: number,
+  end: number,
+): Set<number> {
+  const positions = new Set<number>()
+  const text = input.substring(start, end)
+  let match: RegExpExecArray | null
+
+  LETTER_RUN_PATTERN.lastIndex = 0
+  while ((match = LETTER_RUN_PATTERN.exec(text))) {
+    const run = match[0]
+    if (run.split('').some((char) => !OCR_SUBSTITUTIONS[char])) {
+      for (let i = 0; i < run.length; i++) {
+        positions.add(start + match.index + i)
+      }
+    }
+  }
+
+  return positions
+}
+
+function removal(
+  kind: NormalizationTransformation['kind'],
+  input: string,
+  start: number,
+  end: number,
+): NormalizationTransformation {
+  return {
+    kind,
+    from: input.substring(start, end),
+    to: '',
+    span: { start, end },
+  }
+}
@@ -0,0 +1,116 @@
+import { ParsedCNJ } from '../types/analysis'
+import { CNJValidationError } from '../types/errors'
+
+/**
+ * Constante para composição do número de argumento
+ */
+const MATH_SUFFIX = '00'
+
+/**
+ * Lê os componentes de um número CNJ sem consultar dados de distritos
+ *
+ * Não depende das tabelas embutidas e pode ser usado onde o tamanho do bundle
+ * importa; decomposeCNJ() complementa o resultado com distrito, UF e tribunal.
+ *
+ * @param cnj Número CNJ no formato NNNNNNN-DD.AAAA.J.CT.0000 ou NNNNNNNDDAAAAJCT0000
+ * @returns Componentes do número e número de argumento
+ * @throws CNJValidationError se o tamanho ou o formato forem inválidos
+ *
+ * @example
+ * ```typescript
+ * parseCNJ('00013276420188260158').sourceUnit // "0158"
+ * ```
+ */
+export function parseCNJ(cnj: string): ParsedCNJ {
+  // Valida o tamanho básico
+  if (cnj.length > 25 || cnj.length < 20) {
+    throw CNJValidationError.invalidLength(cnj, 20)
+  }
+
+  // Verifica se é formato com hífen (formatado)
+  const isFormatted = cnj.includes('-')
+
+  if (isFormatted) {
+    return parseFormattedCNJ(cnj)
+  } else {
+    return parseUnformattedCNJ(cnj)
+  }
+}
+
+/**
+ * Lê CNJ formatado (NNNNNNN-DD.AAAA.J.CT.0000)
+ */
+function parseFormattedCNJ(cnj: string): ParsedCNJ {
+  const parts = cnj.split('-')
+
+  if (parts.length !== 2) {
+    throw CNJValidationError.invalidFormat(cnj)
+  }
+
+  const lawsuitNumber = parts[0]
+  const remainingParts = parts[1].split('.')
+
+  if (remainingParts.length !== 5) {
+    throw CNJValidationError.invalidFormat(cnj)
+  }
+
+  const [verifyingDigit, protocolYear, segment, court, sourceUnit] =
+    remainingParts
+
+  return buildParsedCNJ(
+    lawsuitNumber,
+    verifyingDigit,
+    protocolYear,
+    segment,
+    court,
+    sourceUnit,
+  )
+}
+
+/**
+ * Lê CNJ não formatado (NNNNNNNDDAAAAJCT0000)
+ */
+function parseUnformattedCNJ(cnj: string): ParsedCNJ {
+  if (cnj.length !== 20) {
+    throw CNJValidationError.invalidLength(cnj, 20)
+  }
+
+  return buildParsedCNJ(
+    cnj.substring(0, 7),
+    cnj.substring(7, 9),
+    cnj.substring(9, 13),
+    cnj.substring(13, 14),
+    cnj.substring(14, 16),
+    cnj.substring(16, 20),
+  )
+}
+
+/**
+ * Monta o resultado com o número de argumento e o formato padronizado
+ */
+function buildParsedCNJ(
+  lawsuitNumber: string,
+  verifyingDigit: string,
+  protocolYear: string,
+  segment: string,
+  court: string,
+  sourceUnit: string,
+): ParsedCNJ {
+  // Gera número de argumento para validação
+  const argNumber =
+    lawsuitNumber + protocolYear + segment + court + sourceUnit + MATH_SUFFIX
+
+  // Formata CNJ completo
+  const lawsuitCNJFormat = `${lawsuitNumber}-${verifyingDigit}.${protocolYear}.${segment}.${court}.${sourceUnit}`
+
+  return {
+    lawsuitCNJFormat,
+    lawsuitNumber,
+    verifyingDigit,
+    protocolYear,
+    segment,
+    court,
+    sourceUnit,
+    argNumber,
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  CNJRedaction,
+  PseudonymizationOptions,
+  RedactionResult,
+  RedactionStrategy,
+} from '../types/redaction'
+import { CNJComponentName } from '../types/tokens'
+import { extractCNJs } from './extractor'
+import { tokenizeCNJ } from './tokenizer'
+
+/**
+ * Componentes mantidos por padrão no mascaramento parcial
+ */
+const DEFAULT_PARTIAL_KEEP: readonly CNJComponentName[] = ['segment', 'court']
+
+const DEFAULT_MASK_CHAR = '*'
+const DEFAULT_TOKEN_PREFIX = 'CNJ-'
+const DEFAULT_TOKEN_LENGTH = 16
+
+/**
+ * Tamanho do HMAC-SHA256 em hexadecimal
+ */
+const MAX_TOKEN_LENGTH = 64
+
+/**
+ * Função que gera o texto substituto de cada ocorrência
+ */
+type Replacer = (original: string, normalized: string) => string
+
+/**
+ * Anonimiza os números CNJ de um texto (LGPD)
+ *
+ * Todo trecho com formato de CNJ (20 dígitos, com ou sem separadores) é
+ * substituído, inclusive números com dígito verificador inválido, segmento 0
+ * ou ano de protocolo anterior a 1998 — processos renumerados mantêm o ano
+ * original. Estratégias:
+ * - mask: substitui todos os dígitos, preservando os separadores
+ * - partial: mantém alguns componentes (padrão: segmento e tribunal)
+ *
+ * Para trocar cada número por um token estável e reversível, use
+ * pseudonymizeCNJs().
+ *
+ * @param text Texto a ser anonimizado
+ * @param strategy Estratégia de anonimização
+ * @returns Texto anonimizado e substituições feitas
+ * @throws Error se a estratégia for inválida
+ *
+ * @example
+ * ```typescript
+ * const { text } = redactCNJs('Processo 0001327-64.2018.8.26.0158', {
+ *   type: 'partial',
+ * })
+ * console.log(text) // "Processo *******-**.****.8.26.****"
+ * ```
+ */
+export function redactCNJs(
+  text: string,
+  strategy: RedactionStrategy,
+): RedactionResult {
+  if (strategy.type !== 'mask' && strategy.type !== 'partial') {
+    throw new Error(
+      `Estratégia de anonimização inválida: ${(strategy as { type: string }).type}. Use pseudonymizeCNJs() para pseudonimização.`,
+    )
+  }
+
+  return redact(text, createMasker(strategy), false)
+}
+
+/**
+ * Pseudonimiza os números CNJ de um texto (LGPD)
+ *
+ * Cada trecho com formato de CNJ (os mesmos de redactCNJs) vira um token
+ * HMAC-SHA256 estável para a mesma chave; só é reversível com a tabela
+ * `mapping` (ver restoreCNJs).
+ *
+ * ⚠️ ATENÇÃO: Esta função funciona apenas no Node.js (servidor)
+ * Use redactCNJs() em ambientes browser.
+ *
+ * @param text Texto a ser pseudonimizado
+ * @param options Chave do HMAC, prefixo e tamanho do token
+ * @returns Texto pseudonimizado, substituições feitas e tabela de tokens
+ * @throws Error se a chave ou o tamanho do token forem inválidos
+ *
+ * @example
+ * ```typescript
+ * const { text, mapping } = await pseudonymizeCNJs(
+ *   'Processo 0001327-64.2018.8.26.0158',
+ *   { key: process.env.CNJ_HMAC_KEY! },
+ * )
+ * console.log(text) // "Processo CNJ-1f3a9c0b7d2e4a68"
+ * ```
+ */
+export async function pseudonymizeCNJs(
+  text: string,
+  options: PseudonymizationOptions,
+): Promise<RedactionResult> {
+  // Verificação de ambiente
+  if (typeof globalThis !== 'undefined' && 'window' in globalThis) {
+    throw new Error(
+      'pseudonymizeCNJs() só funciona no Node.js. Use redactCNJs() para ambientes browser.',
+    )
+  }
+
+  const {
+    key,
+    prefix = DEFAULT_TOKEN_PREFIX,
+    tokenLength = DEFAULT_TOKEN_LENGTH,
+  } = options
+
+  if (!key) {
+    throw new Error('Chave da pseudonimização não informada')
+  }
+  if (tokenLength < 1 || tokenLength > MAX_TOKEN_LENGTH) {
+    throw new Error(
+      `Tamanho do token deve ser entre 1 e ${MAX_TOKEN_LENGTH}: ${tokenLength}`,
+    )
+  }
+
+  const { createHmac } = await import('crypto')
+  const replace: Replacer = (_original, normalized) =>
+    prefix +
+    createHmac('sha256', key)
+      .update(normalized)
+      .digest('hex')
+      .substring(0, tokenLength)
+
+  return redact(text, replace, true)
+}
+
+/**
+ * Reverte a pseudonimização usando a tabela de tokens
+ * @param text Texto pseudonimizado
+ * @param mapping Tabela token → CNJ retornada por pseudonymizeCNJs
+ * @returns Texto com os CNJs formatados no lugar dos tokens
+ */
+export function restoreCNJs(
+  text: string,
+  mapping: Record<string, string>,
+): string {
+  // Tokens mais longos primeiro, para que um prefixo não substitua parte de outro
+  return Object.keys(mapping)
+    .sort((a, b) => b.length - a.length)
+    .reduce((result, token) => result.split(token).join(mapping[token]), text)
+}
+
+/**
+ * Substitui as ocorrências e monta a tabela de tokens
+ */
+function redact(
+  text: string,
+  replace: Replacer,
+  withMapping: boolean,
+): RedactionResult {
+  const mapping: Record<string, string> = {}
+  const redactions: CNJRedaction[] = []
+
+  for (const match of extractCNJs(text, { plausibleOnly: false })) {
+    const { normalized } = match
+    const replacement = replace(match.text, normalized)
+
+    if (withMapping) {
+      mapping[replacement] = normalized
+    }
+
+    redactions.push({
+      start: match.start,
+      end: match.end,
+      original: match.text,
+      normalized,
+      replacement,
+    })
+  }
+
+  return {
+    text: applyRedactions(text, redactions),
+    redactions,
+    mapping,
+  }
+}
+
+/**
+ * Cria o mascaramento completo ou parcial
+ */
+function createMasker(strategy: RedactionStrategy): Replacer {
+  const maskChar = validateMaskChar(strategy.maskChar)
+  const keep =
+    strategy.type === 'partial' ? strategy.keep || DEFAULT_PARTIAL_KEEP : []
+
+  return (original) => maskComponents(original, keep, maskChar)
+}
+
+/**
+ * Substitui os dígitos dos componentes não mantidos, preservando separadores
+ */
+function maskComponents(
+  original: string,
+  keep: readonly CNJComponentName[],
+  maskChar: string,
+): string {
+  const chars = original.split('')
+
+  tokenizeCNJ(original)
+    .components.filter((component) => keep.indexOf(component.name) === -1)
+    .forEach(({ span }) => {
+      for (let i = span.start; i < span.end; i++) {
+        chars[i] = maskChar
+      }
+    })
+
+  return chars.join('')
+}
+
+/**
+ * Monta o texto final a partir das substituições (em ordem crescente)
+ */
+function applyRedactions(text: string, redactions: CNJRedaction[]): string {
+  let result = ''
+  let position = 0
+
+  for (const redaction of redactions) {
+    result += text.substring(position, redaction.start) + redaction.replacement
+    position = redaction.end
+  }
+
+  return result + text.substring(position)
+}
+
+function validateMaskChar(maskChar: string = DEFAULT_MASK_CHAR): string {
+  if (maskChar.length !== 1) {
+    throw new Error(`Caractere de máscara deve ter 1 caractere: "${maskChar}"`)
+  }
+  return maskChar
+}
@@ -0,0 +1,231 @@
+import {
+  CNJComponentName,
+  CNJComponentToken,
+  CNJMissingSeparator,
+  CNJSeparatorToken,
+  CNJTokens,
+  CNJUnexpectedToken,
+} from '../types/tokens'
+
+/**
+ * Layout dos componentes do CNJ, pela posição do primeiro dígito
+ */
+const COMPONENT_LAYOUT: ReadonlyArray<{
+  name: CNJComponentName
+  start: number
+  length: number
+}> = [
+  { name: 'lawsuitNumber', start: 0, length: 7 },
+  { name: 'verifyingDigit', start: 7, length: 2 },
+  { name: 'protocolYear', start: 9, length: 4 },
+  { name: 'segment', start: 13, length: 1 },
+  { name: 'court', start: 14, length: 2 },
+  { name: 'sourceUnit', start: 16, length: 4 },
+]
+
+/**
+ * Separadores esperados, indexados pela quantidade de posições que os precedem
+ * Formato: NNNNNNN-DD.AAAA.J.CT.0000
+ */
+const EXPECTED_SEPARATORS: Record<number, string> = {
+  7: '-',
+  9: '.',
+  13: '.',
+  14: '.',
+  16: '.',
+}
+
+/**
+ * Quantidade total de dígitos de um CNJ
+ */
+export const CNJ_DIGIT_COUNT = 20
+
+/**
+ * Divide um número CNJ em componentes preservando a posição de cada um
+ * na entrada original
+ *
+ * Os componentes são atribuídos pela posição de cada caractere: o 1º ao 7º
+ * formam o número do processo, o 8º e 9º o dígito verificador e assim por
+ * diante. Separadores e espaços não ocupam posição; um caractere inválido
+ * (ex.: "O" no lugar de "0") ocupa a posição do dígito que substitui, para
+ * que os componentes seguintes continuem alinhados. Trechos inválidos e
+ * dígitos além da 20ª posição são reportados em `unexpected`.
+ *
+ * @param input Texto digitado (formatado, não formatado ou parcial)
+ * @returns Componentes, separadores e trechos inesperados com suas posições
+ *
+ * @example
+ * ```typescript
+ * const tokens = tokenizeCNJ('0001327-64.2O18.8.26.0158')
+ * tokens.unexpected // [{ kind: 'character', text: 'O', span: { start: 12, end: 13 } }]
+ *
+ * tokenizeCNJ('0001327-64.2018.8.26.01589').unexpected
+ * // [{ kind: 'digit', text: '9', span: { start: 25, end: 26 } }]
+ * ```
+ */
+export function tokenizeCNJ(input: string): CNJTokens {
+  const slotPositions: number[] = []
+  const separators: CNJSeparatorToken[] = []
+  let unexpected: CNJUnexpectedToken[] = []
+  const boundariesFound = new Set<number>()
+  let digitCount = 0
+  let hasSeparators = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (isDigit(char)) {
+      if (slotPositions.length >= CNJ_DIGIT_COUNT) {
+        unexpected = addSurplusDigit(unexpected, char, i)
+      }
+      slotPositions.push(i)
+      digitCount++
+      continue
+    }
+
+    if (isSeparator(char)) {
+      const slotsBefore = slotPositions.length
+      const expected = EXPECTED_SEPARATORS[slotsBefore]
+      const span = { start: i, end: i + 1 }
+      hasSeparators = true
+
+      if (expected === undefined || boundariesFound.has(slotsBefore)) {
+        unexpected.push({ kind: 'separator', text: char, span })
+      } else {
+        separators.push({ value: char, expected, span })
+        boundariesFound.add(slotsBefore)
+      }
+      continue
+    }
+
+    // Agrupa caracteres inválidos consecutivos em um único trecho
+    let end = i + 1
+    while (
+      end < input.length &&
+      !isDigit(input[end]) &&
+      !isSeparator(input[end])
+    ) {
+      end++
+    }
+    for (let j = i; j < end; j++) {
+      if (!isWhitespace(input[j])) {
+        slotPositions.push(j)
+      }
+    }
+    unexpected.push({
+      kind: 'character',
+      text: input.slice(i, end),
+      span: { start: i, end },
+    })
+    i = end - 1
+  }
+
+  return {
+    input,
+    formatted: hasSeparators,
+    digitCount,
+    components: buildComponents(input, slotPositions),
+    separators,
+    missingSeparators: hasSeparators
+      ? findMissingSeparators(slotPositions, boundariesFound)
+      : [],
+    unexpected,
+  }
+}
+
+/**
+ * Obtém um componente da tokenização pelo nome
+ * @param tokens Resultado de tokenizeCNJ
+ * @param name Nome do componente
+ * @returns Componente ou null se a entrada não alcança o componente
+ */
+export function getComponentToken(
+  tokens: CNJTokens,
+  name: CNJComponentName,
+): CNJComponentToken | null {
+  return tokens.components.find((component) => component.name === name) || null
+}
+
+/**
+ * Registra um dígito além da 20ª posição, agrupando dígitos consecutivos
+ */
+function addSurplusDigit(
+  unexpected: CNJUnexpectedToken[],
+  char: string,
+  position: number,
+): CNJUnexpectedToken[] {
+  const last = unexpected[unexpected.length - 1]
+
+  if (last && last.kind === 'digit' && last.span.end === position) {
+    return [
+      ...unexpected.slice(0, -1),
+      {
+        kind: 'digit',
+        text: last.text + char,
+        span: { start: last.span.start, end: position + 1 },
+      },
+    ]
+  }
+
+  return [
+    ...unexpected,
+    { kind: 'digit', text: char, span: { start: position, end: position + 1 } },
+  ]
+}
+
+/**
+ * Monta os componentes a partir da posição de cada caractere
+ */
+function buildComponents(
+  input: string,
+  slotPositions: number[],
+): CNJComponentToken[] {
+  return COMPONENT_LAYOUT.filter(
+    ({ start }) => start < Math.min(slotPositions.length, CNJ_DIGIT_COUNT),
+  ).map(({ name, start, length }) => {
+    const positions = slotPositions.slice(start, start + length)
+    const value = positions.map((position) => input[position]).join('')
+
+    return {
+      name,
+      value,
+      expectedLength: length,
+      complete: value.length === length,
+      span: {
+        start: positions[0],
+        end: positions[positions.length - 1] + 1,
+      },
+    }
+  })
+}
+
+/**
+ * Aponta separadores ausentes entre componentes já iniciados
+ */
+function findMissingSeparators(
+  slotPositions: number[],
+  boundariesFound: Set<number>,
+): CNJMissingSeparator[] {
+  return Object.keys(EXPECTED_SEPARATORS)
+    .map((key) => parseInt(key, 10))
+    .filter(
+      (slotsBefore) =>
+        !boundariesFound.has(slotsBefore) && slotsBefore < slotPositions.length,
+    )
+    .map((slotsBefore) => ({
+      expected: EXPECTED_SEPARATORS[slotsBefore],
+      position: slotPositions[slotsBefore],
+    }))
+}
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9'
+}
+
+function isSeparator(char: string): boolean {
+  return char === '-' || char === '.'
+}
+
+function isWhitespace(char: string): boolean {
+  return char.trim() === ''
+}
@@ -0,0 +1,175 @@
+import { getSegment, SEGMENTS } from '../data/segments'
+import { getAllTribunals, TRIBUNALS } from '../data/tribunals'
+import { SegmentCode } from '../types/segment'
+import { CourtCode, CourtCodeQuery, Tribunal } from '../types/tribunal'
+
+/**
+ * Nomes usuais dos ramos da Justiça, além dos códigos e siglas de segmento
+ */
+const SEGMENT_ALIASES: Record<string, SegmentCode> = {
+  FEDERAL: SegmentCode.TRF,
+  TRABALHO: SegmentCode.TRT,
+  TRABALHISTA: SegmentCode.TRT,
+  ELEITORAL: SegmentCode.TRE,
+  MILITAR: SegmentCode.STM,
+  MILITARDAUNIAO: SegmentCode.STM,
+  ESTADUAL: SegmentCode.TJ,
+  COMUM: SegmentCode.TJ,
+  MILITARESTADUAL: SegmentCode.TJM,
+}
+
+/**
+ * Siglas alternativas em uso corrente
+ */
+const TRIBUNAL_ALIASES: Record<string, string> = {
+  TJDF: '8.07',
+  TJMMG: '9.13',
+  TJMRS: '9.21',
+  TJMSP: '9.26',
+}
+
+/**
+ * Índice de siglas e nomes normalizados → chave do tribunal
+ */
+const TRIBUNAL_INDEX: Record<string, string> = Object.keys(TRIBUNALS).reduce(
+  (index, key) => {
+    index[normalizeQuery(TRIBUNALS[key].acronym)] = key
+    index[normalizeQuery(TRIBUNALS[key].name)] = key
+    return index
+  },
+  { ...TRIBUNAL_ALIASES },
+)
+
+/**
+ * Localiza um tribunal pela sigla ou pelo nome oficial
+ *
+ * A busca ignora maiúsculas, acentos, espaços, hífens e indicadores
+ * ordinais: "TJMG", "tj-mg", "TRT 15ª", "TRE/SP" e "1a CJM" são aceitos.
+ *
+ * @param query Sigla ou nome do tribunal
+ * @returns Tribunal ou null se não encontrado
+ *
+ * @example
+ * ```typescript
+ * const tribunal = resolveTribunal('TJMG')
+ * console.log(`${tribunal?.segment}.${tribunal?.court}`) // "8.13"
+ * ```
+ */
+export function resolveTribunal(query: string): Tribunal | null {
+  const key = TRIBUNAL_INDEX[normalizeQuery(query)]
+  return key ? TRIBUNALS[key] : null
+}
+
+/**
+ * Lista os pares J.CT que atendem ao segmento e à UF informados
+ *
+ * @param query Segmento (código, sigla ou ramo) e/ou UF
+ * @returns Pares encontrados, com os tribunais sediados na UF primeiro
+ *
+ * @example
+ * ```typescript
+ * findCourtCodes({ segment: 'TRT', uf: 'SP' }).map((c) => c.code)
+ * // ["5.02", "5.15", "5.00", "5.90"]
+ * ```
+ */
+export function findCourtCodes(query: CourtCodeQuery): CourtCode[] {
+  const segment =
+    query.segment === undefined ? undefined : resolveSegmentCode(query.segment)
+  const uf = query.uf?.toUpperCase()
+
+  if (segment === null) {
+    return []
+  }
+
+  return getAllTribunals()
+    .filter(
+      (tribunal) =>
+        (segment === undefined || tribunal.segment === segment) &&
+        (uf === undefined || tribunal.ufs.indexOf(uf) !== -1),
+    )
+    .sort(
+      (a, b) =>
+        seatRank(a, uf) - seatRank(b, uf) ||
+        a.segment - b.segment ||
+        a.court.localeCompare(b.court),
+    )
+    .map(toCourtCode)
+}
+
+/**
+ * Localiza o par J.CT mais específico para o segmento e a UF
+ *
+ * Prefere o tribunal regional ou estadual com sede na UF aos tribunais
+ * superiores e conselhos de jurisdição nacional.
+ *
+ * @param query Segmento (código, sigla ou ramo) e UF
+ * @returns Par J.CT ou null se não houver tribunal correspondente
+ *
+ * @example
+ * ```typescript
+ * findCourtCode({ segment: 'Eleitoral', uf: 'BA' })?.code // "6.05"
+ * ```
+ */
+export function findCourtCode(query: CourtCodeQuery): CourtCode | null {
+  return findCourtCodes(query)[0] || null
+}
+
+/**
+ * Converte código, sigla ou ramo em código de segmento
+ * @returns Código do segmento ou null se não reconhecido
+ */
+function resolveSegmentCode(segment: string | number): number | null {
+  const direct = getSegment(segment)
+  if (direct) {
+    return direct.number
+  }
+
+  const normalized = normalizeQuery(String(segment))
+  const byShort = Object.keys(SEGMENTS)
+    .map((key) => SEGMENTS[parseInt(key, 10)])
+    .find(
+      (info) =>
+        normalizeQuery(info.short) === normalized ||
+        normalizeQuery(info.name) === normalized,
+    )
+
+  if (byShort) {
+    return byShort.number
+  }
+
+  const alias = normalized.replace(/^JUSTICA(DOS|DAS|DO|DA)?/, '')
+  return SEGMENT_ALIASES[alias] || null
+}
+
+/**
+ * Tribunais sediados na UF vêm antes dos regionais que apenas a abrangem,
+ * e estes antes dos tribunais superiores e conselhos
+ */
+function seatRank(tribunal: Tribunal, uf?: string): number {
+  if (tribunal.court === '00' || tribunal.court === '90') {
+    return 2
+  }
+  return uf === undefined || tribunal.seat.uf === uf ? 0 : 1
+}
+
+function toCourtCode(tribunal: Tribunal): CourtCode {
+  const segment = tribunal.segment.toString()
+  return {
+    segment,
+    court: tribunal.court,
+    code: `${segment}.${tribunal.court}`,
+    tribunal,
+  }
+}
+
+/**
+ * Normaliza siglas e nomes para comparação
+ */
+function normalizeQuery(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/(\d)\s*[ªº°AO](?![A-Z])/g, '$1')
+    .replace(/[^A-Z0-9]/g, '')
+}
@@ -1,6 +1,6 @@
-import { ValidationResult } from '../types/analysis'
-import { CNJValidationError } from '../types/errors'
-import { decomposeCNJ } from './decomposer'
+import { ValidationConfig, ValidationResult } from '../types/analysis'
+import { CNJErrorType, CNJValidationError } from '../types/errors'
+import { parseCNJ } from './parser'
 
 /**
  * Constantes para cálculo do dígito verificador
@@ -8,24 +8,79 @@ import { decomposeCNJ } from './decomposer'
 const MOD = 97n
 const SUB = 98n
 
+/**
+ * Ano de instituição da numeração de processos mais antiga aceita
+ */
+export const MIN_PROTOCOL_YEAR = 1998
+
+/**
+ * Padrões estritos dos formatos aceitos
+ */
+const FORMATTED_PATTERN = /^\d{7}-\d{2}\.\d{4}\.\d\.\d{2}\.\d{4}$/
+const UNFORMATTED_PATTERN = /^\d{20}$/
+
+/**
+ * Configuração padrão aplicada quando validateCNJ recebe uma configuração.
+ * O ano máximo, quando omitido, é o ano corrente + 1. Congelada: para outras
+ * regras, informe uma configuração própria em vez de alterá-la.
+ */
+export const DEFAULT_VALIDATION_CONFIG: Readonly<
+  Required<Omit<ValidationConfig, 'maxYear'>>
+> = Object.freeze({
+  strictMode: true,
+  allowFormattedInput: true,
+  allowUnformattedInput: true,
+  validateYear: true,
+  minYear: MIN_PROTOCOL_YEAR,
+})
+
 /**
  * Valida um número CNJ completo
+ *
+ * Sem configuração (`validateCNJ(cnj)`), apenas o formato e o dígito
+ * verificador são conferidos. Com qualquer configuração, mesmo vazia
+ * (`validateCNJ(cnj, {})`), as regras de ValidationConfig (formatos
+ * permitidos, modo estrito e intervalo de anos) também são aplicadas, com os
+ * valores de DEFAULT_VALIDATION_CONFIG para as opções omitidas: um CNJ de
+ * 1997 passa no primeiro caso e falha no segundo.
+ *
  * @param cnj Número CNJ no formato NNNNNNN-DD.AAAA.J.CT.0000 ou NNNNNNNDDAAAAJCT0000
+ * @param config Regras adicionais de validação (opcional)
  * @returns Resultado da validação
+ *
+ * @example
+ * ```typescript
+ * validateCNJ('0001327-64.2018.8.26.0158', { allowUnformattedInput: false })
+ * validateCNJ('00013276420188260158', { minYear: 2020 }) // isValid: false
+ *
+ * validateCNJ('0000001-07.1997.8.26.0158') // isValid: true
+ * validateCNJ('0000001-07.1997.8.26.0158', {}) // isValid: false (INVALID_YEAR)
+ * ```
  */
-export function validateCNJ(cnj: string): ValidationResult {
+export function validateCNJ(
+  cnj: string,
+  config?: ValidationConfig,
+): ValidationResult {
   try {
-    const decomposed = decomposeCNJ(cnj)
-    const expectedDigit = calculateVerifyingDigit(decomposed.argNumber)
-    const isValid = decomposed.verifyingDigit === expectedDigit
+    const rules = resolveConfig(config)
+    const input = rules ? applyInputRules(cnj, rules) : cnj
+    const parsed = parseCNJ(input)
+
+    if (rules) {
+      applyYearRules(parsed.protocolYear, rules)
+    }
+
+    const expectedDigit = calculateVerifyingDigit(parsed.argNumber)
+    const isValid = parsed.verifyingDigit === expectedDigit
 
     return {
       isValid,
       expectedDigit,
-      receivedDigit: decomposed.verifyingDigit,
+      receivedDigit: parsed.verifyingDigit,
       error: isValid
         ? undefined
-        : `Dígito verificador inválido. Esperado: ${expectedDigit}, Recebido: ${decomposed.verifyingDigit}`,
+        : `Dígito verificador inválido. Esperado: ${expectedDigit}, Recebido: ${parsed.verifyingDigit}`,
+      errorCode: isValid ? undefined : 'INVALID_VERIFYING_DIGIT',
     }
   } catch (error) {
     return {
@@ -34,10 +89,99 @@ export function validateCNJ(cnj: string): ValidationResult {
         error instanceof Error
           ? error.message
           : 'Erro desconhecido na validação',
+      errorCode:
+        error instanceof CNJValidationError ? error.code : 'UNKNOWN_ERROR',
     }
   }
 }
 
+/**
+ * Combina a configuração recebida com os valores padrão
+ */
+function resolveConfig(
+  config?: ValidationConfig,
+): Required<ValidationConfig> | null {
+  if (!config) {
+    return null
+  }
+
+  return {
+    ...DEFAULT_VALIDATION_CONFIG,
+    maxYear: new Date().getFullYear() + 1,
+    ...stripUndefined(config),
+  }
+}
+
+/**
+ * Remove chaves com valor undefined para não sobrescrever os padrões
+ */
+function stripUndefined(config: ValidationConfig): ValidationConfig {
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined),
+  ) as ValidationConfig
+}
+
+/**
+ * Aplica as regras de formato de entrada e retorna o CNJ a ser decomposto
+ */
+function applyInputRules(
+  cnj: string,
+  config: Required<ValidationConfig>,
+): string {
+  const input = config.strictMode ? cnj : cnj.trim()
+  const isUnformatted = /^\d+$/.test(input)
+
+  if (isUnformatted && !config.allowUnformattedInput) {
+    throw new CNJValidationError(
+      CNJErrorType.INVALID_FORMAT,
+      'Entrada sem formatação não permitida. Esperado: NNNNNNN-DD.AAAA.J.CT.0000',
+      'UNFORMATTED_INPUT_NOT_ALLOWED',
+      { received: cnj },
+    )
+  }
+
+  if (!isUnformatted && !config.allowFormattedInput) {
+    throw new CNJValidationError(
+      CNJErrorType.INVALID_FORMAT,
+      'Entrada formatada não permitida. Esperado: NNNNNNNDDAAAAJCT0000',
+      'FORMATTED_INPUT_NOT_ALLOWED',
+      { received: cnj },
+    )
+  }
+
+  if (config.strictMode) {
+    const pattern = isUnformatted ? UNFORMATTED_PATTERN : FORMATTED_PATTERN
+    if (!pattern.test(input)) {
+      throw CNJValidationError.invalidFormat(cnj)
+    }
+    return input
+  }
+
+  // Fora do modo estrito, qualquer separador é aceito desde que restem 20 dígitos
+  return isUnformatted ? input : formatCNJ(input)
+}
+
+/**
+ * Verifica se o ano de protocolo está no intervalo configurado
+ */
+function applyYearRules(
+  protocolYear: string,
+  config: Required<ValidationConfig>,
+): void {
+  if (!config.validateYear) {
+    return
+  }
+
+  const year = parseInt(protocolYear, 10)
+  if (isNaN(year) || year < config.minYear || year > config.maxYear) {
+    throw CNJValidationError.invalidYear(
+      protocolYear,
+      config.minYear,
+      config.maxYear,
+    )
+  }
+}
+
 /**
  * Valida apenas se o formato do CNJ está correto (sem verificar dígito)
  * @param cnj Número CNJ a ser validado
@@ -45,7 +189,7 @@ export function validateCNJ(cnj: string): ValidationResult {
  */
 export function validateCNJFormat(cnj: string): boolean {
   try {
-    decomposeCNJ(cnj)
+    parseCNJ(cnj)
     return true
   } catch {
     return false
@@ -77,10 +221,11 @@ export function calculateVerifyingDigit(argNumber: string): string {
 /**
  * Verifica se um CNJ é válido de forma mais rápida (apenas booleano)
  * @param cnj Número CNJ a ser validado
+ * @param config Regras adicionais de validação (opcional)
  * @returns true se válido, false se inválido
  */
-export function isValidCNJ(cnj: string): boolean {
-  return validateCNJ(cnj).isValid
+export function isValidCNJ(cnj: string, config?: ValidationConfig): boolean {
+  return validateCNJ(cnj, config).isValid
 }
 
 /**
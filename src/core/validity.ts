@@ -0,0 +1,169 @@
+import {
+  generateDistrictKey,
+  getGlobalDistrictRegistry,
+} from '../data/districts'
+import { getTribunal } from '../data/tribunals'
+import { DistrictRegistryOptions } from '../types/district'
+import { CNJErrorType } from '../types/errors'
+import {
+  CourtValidity,
+  ValidityIssue,
+  ValidityOptions,
+  ValidityPeriod,
+} from '../types/validity'
+
+/**
+ * Verifica se uma data está dentro de um período de validade
+ * @param period Período (limites ausentes não restringem)
+ * @param date Data a ser verificada
+ * @returns true se a data estiver no período (false para data inválida)
+ */
+export function isWithinPeriod(period: ValidityPeriod, date: Date): boolean {
+  if (!isValidDate(date)) {
+    return false
+  }
+
+  const day = toISODate(date)
+  return (
+    (!period.validFrom || period.validFrom <= day) &&
+    (!period.validUntil || period.validUntil >= day)
+  )
+}
+
+/**
+ * Verifica se tribunal e unidade de origem existiam quando o processo foi
+ * protocolado e na data de referência
+ *
+ * Como o número CNJ traz apenas o ano de protocolo, basta que o período de
+ * existência tenha algum dia naquele ano. Tribunais e unidades sem período
+ * cadastrado são considerados sempre existentes. Uma data de referência
+ * inválida (ex.: `new Date('x')`) resulta em `isValid: false` com o código
+ * INVALID_REFERENCE_DATE.
+ *
+ * @param segment Código do segmento (J)
+ * @param court Código do tribunal (CT)
+ * @param sourceUnit Código da unidade de origem (OOOO)
+ * @param protocolYear Ano de protocolo (AAAA)
+ * @param options Data de referência (padrão: hoje) e registro de distritos
+ * @returns Resultado da verificação temporal
+ *
+ * @example
+ * ```typescript
+ * checkCourtValidity('4', '06', '3800', '2023').isValid // true
+ * checkCourtValidity('4', '06', '3800', '2023', { asOf: new Date('2020-01-01') }).isValid // false
+ * ```
+ */
+export function checkCourtValidity(
+  segment: string,
+  court: string,
+  sourceUnit: string,
+  protocolYear: string,
+  options: ValidityOptions & DistrictRegistryOptions = {},
+): CourtValidity {
+  const asOf = options.asOf || new Date()
+  const year = parseInt(protocolYear, 10)
+  const issues: ValidityIssue[] = []
+
+  if (!isValidDate(asOf)) {
+    return {
+      isValid: false,
+      asOf: String(asOf),
+      issues: [
+        {
+          type: CNJErrorType.INVALID_FORMAT,
+          code: 'INVALID_REFERENCE_DATE',
+          message: `Data de referência inválida: ${String(asOf)}`,
+        },
+      ],
+    }
+  }
+
+  if (year > asOf.getUTCFullYear()) {
+    issues.push({
+      type: CNJErrorType.INVALID_YEAR,
+      code: 'YEAR_AFTER_REFERENCE_DATE',
+      message: `Ano de protocolo ${protocolYear} posterior à data de referência ${toISODate(asOf)}`,
+    })
+  }
+
+  const tribunal = getTribunal(segment, court)
+  if (tribunal) {
+    issues.push(
+      ...checkPeriod(tribunal, year, asOf, {
+        type: CNJErrorType.INVALID_COURT,
+        label: `Tribunal ${tribunal.acronym}`,
+        prefix: 'COURT',
+      }),
+    )
+  }
+
+  const districts = options.districts || getGlobalDistrictRegistry()
+  const district = districts.get(
+    generateDistrictKey(segment, court, sourceUnit),
+  )
+  if (district) {
+    issues.push(
+      ...checkPeriod(district, year, asOf, {
+        type: CNJErrorType.INVALID_SOURCE_UNIT,
+        label: `Unidade de origem ${district.sourceUnit}`,
+        prefix: 'SOURCE_UNIT',
+      }),
+    )
+  }
+
+  return {
+    isValid: issues.length === 0,
+    asOf: toISODate(asOf),
+    issues,
+  }
+}
+
+/**
+ * Compara o período de existência com o ano de protocolo e a data de referência
+ */
+function checkPeriod(
+  period: ValidityPeriod,
+  year: number,
+  asOf: Date,
+  subject: { type: CNJErrorType; label: string; prefix: string },
+): ValidityIssue[] {
+  const { type, label, prefix } = subject
+  const issues: ValidityIssue[] = []
+
+  if (period.validFrom && parseInt(period.validFrom, 10) > year) {
+    issues.push({
+      type,
+      code: `${prefix}_NOT_YET_CREATED`,
+      message: `${label} instalado em ${period.validFrom}, após o ano de protocolo ${year}`,
+    })
+  }
+
+  if (period.validUntil && parseInt(period.validUntil, 10) < year) {
+    issues.push({
+      type,
+      code: `${prefix}_EXTINCT`,
+      message: `${label} extinto em ${period.validUntil}, antes do ano de protocolo ${year}`,
+    })
+  }
+
+  if (period.validFrom && period.validFrom > toISODate(asOf)) {
+    issues.push({
+      type,
+      code: `${prefix}_NOT_CREATED_AS_OF`,
+      message: `${label} ainda não existia em ${toISODate(asOf)}`,
+    })
+  }
+
+  return issues
+}
+
+function isValidDate(date: Date): boolean {
+  return !isNaN(date.getTime())
+}
+
+/**
+ * Formata uma data como AAAA-MM-DD (UTC)
+ */
+export function toISODate(date: Date): string {
+  return date.toISOString().substring(0, 10)
+}
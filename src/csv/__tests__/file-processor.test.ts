@@ -3,6 +3,8 @@
  * These tests require filesystem access and only run in Node.js environment
  */
 
+import { buildCNJ } from '../../core/builder'
+import { InstanceLevel } from '../../types/instance'
 import { isFileProcessingAvailable, processFile } from '../file-processor'
 
 // Skip tests if not in Node.js environment
@@ -348,5 +350,29 @@ describeNodeOnly('File Processor (Node.js only)', () => {
       const validAnalyses = result.analyses.filter((a) => a.validCNJ)
       expect(validAnalyses).toHaveLength(result.statistics.validCNJs)
     })
+
+    test('should export only the requested instances', async () => {
+      const secondGrade = buildCNJ({
+        lawsuitNumber: 1,
+        protocolYear: 2020,
+        segment: 8,
+        court: 26,
+        sourceUnit: 0,
+      }).formatted
+      const csvContent = `${validCNJ1}\n${secondGrade}\n${malformedCNJ}`
+      await fs.writeFile(testInputFile, csvContent, 'utf-8')
+
+      const result = await processFile(testInputFile, testOutputFile, {
+        instances: [InstanceLevel.SECOND_GRADE],
+      })
+
+      const lines = (await fs.readFile(testOutputFile, 'utf-8')).split('\n')
+      expect(lines).toHaveLength(2)
+      expect(lines[1]).toContain(secondGrade)
+      expect(lines[1].endsWith(',segundo grau')).toBe(true)
+      expect(result.statistics.totalCNJs).toBe(3)
+      expect(result.statistics.exportedCNJs).toBe(1)
+      expect(result.analyses).toHaveLength(3)
+    })
   })
 })
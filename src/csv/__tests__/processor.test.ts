@@ -2,6 +2,7 @@
  * Comprehensive tests for CSV processor module
  */
 
+import { analyzeCNJ } from '../../core/analyzer'
 import {
   generateCSV,
   processCNJBatch,
@@ -105,6 +106,16 @@ describe('CSV Processor', () => {
       expect(lines[1]).toContain('true')
     })
 
+    test('should include the instance column', () => {
+      const analysis = analyzeCNJ(validCNJ1)
+      const csv = generateCSV([analysis, { ...analysis, instance: undefined }])
+      const lines = csv.split('\n')
+
+      expect(lines[0].split(',').pop()).toBe('Instância')
+      expect(lines[1].split(',').pop()).toBe('primeiro grau')
+      expect(lines[2].split(',').pop()).toBe('')
+    })
+
     test('should generate CSV without header', () => {
       const mockAnalysis = {
         receivedCNJ: validCNJ1,
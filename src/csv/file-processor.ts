@@ -1,4 +1,4 @@
-import { analyzeCNJ } from '../core/analyzer'
+import { analyzeCNJ, filterByInstance } from '../core/analyzer'
 import { AnalysisCNJ, CSVOptions } from '../types/analysis'
 import { generateCSV, processCSV } from './processor'
 
@@ -10,7 +10,7 @@ import { generateCSV, processCSV } from './processor'
  *
  * @param inputFilePath Caminho do arquivo de entrada
  * @param outputFilePath Caminho do arquivo de saída (opcional)
- * @param options Opções de processamento
+ * @param options Opções de processamento (inclusive filtro por instância)
  * @returns Resultado do processamento com estatísticas
  */
 export async function processFile(
@@ -27,6 +27,7 @@ export async function processFile(
     validCNJs: number
     invalidCNJs: number
     errorCount: number
+    exportedCNJs: number
     processingTime: number
   }
 }> {
@@ -106,7 +107,12 @@ export async function processFile(
       )}_processed.csv`,
     )
 
-  const csvOutput = generateCSV(analyses, includeHeader)
+  // Filtra por instância, se solicitado (CNJs sem instância são descartados)
+  const exported = options.instances
+    ? filterByInstance(analyses, [...options.instances])
+    : analyses
+
+  const csvOutput = generateCSV(exported, includeHeader)
   await fs.writeFile(outputPath, csvOutput, encoding as BufferEncoding)
 
   // Calcula tempo de processamento com a mesma medida usada no início
@@ -120,6 +126,7 @@ export async function processFile(
     validCNJs: processingResult.validCount,
     invalidCNJs: processingResult.invalidCount,
     errorCount: processingResult.errors.length,
+    exportedCNJs: exported.length,
     processingTime,
   }
 
@@ -106,6 +106,7 @@ export function generateCSV(
     'Poder_Judiciário',
     'Região',
     'Unidade_Judiciária',
+    'Instância',
   ]
 
   const rows = analyses.map((analysis) => [
@@ -125,6 +126,7 @@ export function generateCSV(
     analysis.detailed.segment,
     analysis.detailed.court,
     analysis.detailed.sourceUnit,
+    analysis.instance?.level || '',
   ])
 
   const lines: string[] = []
@@ -0,0 +1,111 @@
+/**
+ * Tests for per-segment lazy district data
+ */
+
+import { DistrictMap } from '../../types/district'
+import { CNJValidationError } from '../../types/errors'
+import { createDistrictChunkStore, DISTRICT_SEGMENTS } from '../district-chunks'
+import { DISTRICTS } from '../districts'
+
+describe('District Chunks', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+  const customChunk: DistrictMap = {
+    '8.26.9999': {
+      sourceUnit: 'Unidade Teste',
+      uf: 'SP',
+      district: 'São Paulo',
+    },
+  }
+
+  test('should split the bundled data into one file per segment', async () => {
+    const store = createDistrictChunkStore()
+
+    await Promise.all(DISTRICT_SEGMENTS.map((segment) => store.load(segment)))
+
+    expect(store.loadedSegments()).toEqual([...DISTRICT_SEGMENTS])
+    expect(store.toMap()).toEqual(DISTRICTS)
+    Object.keys(await store.load(5)).forEach((key) => {
+      expect(key.charAt(0)).toBe('5')
+    })
+  })
+
+  test('should load the segment of a CNJ on demand', async () => {
+    const store = createDistrictChunkStore()
+
+    expect(store.isLoaded('8')).toBe(false)
+    expect(await store.loadFor(validCNJ)).toEqual(DISTRICTS['8.26.0158'])
+    expect(store.isLoaded('8')).toBe(true)
+    expect(store.loadedSegments()).toEqual(['8'])
+    expect(store.lookup(validCNJ)).toEqual(DISTRICTS['8.26.0158'])
+  })
+
+  test('should call the loader once per segment', async () => {
+    const loader = jest.fn(async () => ({ default: customChunk }))
+    const store = createDistrictChunkStore({ loader })
+
+    const [first, second] = await Promise.all([store.load('8'), store.load(8)])
+    await store.load('8')
+
+    expect(first).toBe(customChunk)
+    expect(second).toBe(customChunk)
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(loader).toHaveBeenCalledWith('8')
+  })
+
+  test('should drop keys outside the J.CT.OOOO format', async () => {
+    const store = createDistrictChunkStore({
+      loader: async () => ({
+        ...customChunk,
+        '8.21.00155': customChunk['8.26.9999'],
+      }),
+    })
+
+    expect(await store.load('8')).toEqual(customChunk)
+    expect(store.get('8.21.00155')).toBeNull()
+  })
+
+  test('should retry a segment after a failed load', async () => {
+    const loader = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('network'))
+      .mockResolvedValueOnce(customChunk)
+    const store = createDistrictChunkStore({ loader })
+
+    await expect(store.load('8')).rejects.toThrow('network')
+    expect(store.isLoaded('8')).toBe(false)
+    await expect(store.load('8')).resolves.toBe(customChunk)
+  })
+
+  test('should answer synchronously for preloaded segments', () => {
+    const loader = jest.fn()
+    const store = createDistrictChunkStore({ loader })
+
+    store.preload('8', customChunk)
+
+    expect(store.get('8.26.9999')).toEqual(customChunk['8.26.9999'])
+    expect(store.get('8.26.0158')).toBeNull()
+    expect(loader).not.toHaveBeenCalled()
+  })
+
+  test('should throw when a segment was not loaded', () => {
+    const store = createDistrictChunkStore()
+
+    expect(() => store.get('8.26.0158')).toThrow(
+      "Distritos do segmento 8 não carregados. Use load('8') ou preload() antes da consulta síncrona.",
+    )
+    expect(() => store.lookup(validCNJ)).toThrow('segmento 8 não carregados')
+    expect(store.get('0.00.0000')).toBeNull()
+  })
+
+  test('should reject invalid segments and CNJs', async () => {
+    const store = createDistrictChunkStore()
+
+    await expect(store.load('../districts')).rejects.toThrow(
+      'Segmento sem arquivo de distritos: ../districts',
+    )
+    expect(() => store.preload('0', customChunk)).toThrow(
+      'Segmento sem arquivo de distritos: 0',
+    )
+    await expect(store.loadFor('123')).rejects.toThrow(CNJValidationError)
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Tests for the compact district database
+ */
+
+import { PackedDistricts } from '../../types/district-index'
+import { createDistrictChunkStore, DISTRICT_SEGMENTS } from '../district-chunks'
+import { DEFAULT_DISTRICT_INDEX } from '../district-data'
+import { createDistrictIndex } from '../district-index'
+import { DISTRICTS, getDistrictInfo } from '../districts'
+
+describe('District Index', () => {
+  const packed: PackedDistricts = {
+    format: 1,
+    strings: [
+      'Rio Branco',
+      'AC',
+      'Acre',
+      'Xapuri',
+      '2010-01-01',
+      'São Paulo',
+      'SP',
+    ],
+    // 1.01.0001, 1.01.0002 e 8.26.0100
+    keys: [1010001, 1, 7250098],
+    values: [0, 1, 2, 3, 1, 2, 5, 6, 5],
+    periods: [1, -1, 4],
+  }
+
+  test('should decode districts by key', () => {
+    const index = createDistrictIndex(packed)
+
+    expect(index.size).toBe(3)
+    expect(index.get('1.01.0001')).toEqual({
+      sourceUnit: 'Rio Branco',
+      uf: 'AC',
+      district: 'Acre',
+    })
+    expect(index.get('1.01.0002')).toEqual({
+      sourceUnit: 'Xapuri',
+      uf: 'AC',
+      district: 'Acre',
+      validUntil: '2010-01-01',
+    })
+    expect(index.get('8.26.0100')?.uf).toBe('SP')
+  })
+
+  test('should return null for unknown or malformed keys', () => {
+    const index = createDistrictIndex(packed)
+
+    expect(index.get('1.01.0003')).toBeNull()
+    expect(index.get('8.21.00155')).toBeNull()
+    expect(index.get('1-01-0001')).toBeNull()
+    expect(index.has('a.bc.defg')).toBe(false)
+    expect(index.has('8.26.0100')).toBe(true)
+  })
+
+  test('should list keys in ascending order', () => {
+    const index = createDistrictIndex(packed)
+
+    expect(index.keys()).toEqual(['1.01.0001', '1.01.0002', '8.26.0100'])
+    expect(Object.keys(index.toMap())).toEqual(index.keys())
+  })
+
+  test('should decode each district once and freeze it', () => {
+    const index = createDistrictIndex(packed)
+    const info = index.get('1.01.0001')
+
+    expect(index.get('1.01.0001')).toBe(info)
+    expect(index.toMap()['1.01.0001']).toBe(info)
+    expect(Object.isFrozen(info)).toBe(true)
+  })
+
+  test('should reject unsupported or inconsistent data', () => {
+    expect(() => createDistrictIndex({ ...packed, format: 2 })).toThrow(
+      'Formato da base de distritos não suportado: 2. Esperado: 1',
+    )
+    expect(() =>
+      createDistrictIndex({ ...packed, values: packed.values.slice(1) }),
+    ).toThrow('Base de distritos inconsistente')
+  })
+
+  test('should match the per-segment district files', async () => {
+    const store = createDistrictChunkStore()
+    await Promise.all(DISTRICT_SEGMENTS.map((segment) => store.load(segment)))
+
+    expect(DEFAULT_DISTRICT_INDEX.size).toBe(Object.keys(store.toMap()).length)
+    expect(DEFAULT_DISTRICT_INDEX.toMap()).toEqual(store.toMap())
+  })
+
+  test('should back the global lookups', () => {
+    expect(getDistrictInfo('8.26.0158')).toBe(
+      DEFAULT_DISTRICT_INDEX.get('8.26.0158'),
+    )
+    expect(DISTRICTS['8.26.0158']).toBe(getDistrictInfo('8.26.0158'))
+  })
+
+  test('should expose DISTRICTS as a read-only view', () => {
+    const districts = DISTRICTS as Record<string, unknown>
+
+    expect(() => {
+      districts['8.26.0158'] = null
+    }).toThrow(TypeError)
+    expect(() => delete districts['8.26.0158']).toThrow(TypeError)
+    expect(DISTRICTS['8.26.9999']).toBeUndefined()
+    expect(Object.prototype.hasOwnProperty.call(DISTRICTS, '8.26.0158')).toBe(
+      true,
+    )
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Tests for loading district tables in CNJ's published format
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { analyzeCNJ } from '../../core/analyzer'
+import { buildCNJ } from '../../core/builder'
+import { loadDistrictTable, parseDistrictTable } from '../district-loader'
+import { DistrictRegistry } from '../district-registry'
+import { DISTRICTS } from '../districts'
+
+describe('District Loader', () => {
+  const csv = [
+    'Segmento;Tribunal;Origem;Nome da Unidade;UF',
+    '8;26;100;Central;SP',
+    '8;26;158;Foro Regional de Itaquera;SP',
+    '8;26;9999;"Unidade Nova; Anexo";sp',
+  ].join('\n')
+
+  describe('parseDistrictTable', () => {
+    test('should convert CSV rows into a DistrictMap', () => {
+      const result = parseDistrictTable(csv)
+
+      expect(Object.keys(result.districts)).toEqual([
+        '8.26.0100',
+        '8.26.0158',
+        '8.26.9999',
+      ])
+      expect(result.districts['8.26.9999']).toEqual({
+        sourceUnit: 'Unidade Nova; Anexo',
+        uf: 'SP',
+        district: 'São Paulo',
+      })
+      expect(result.issues).toEqual([])
+    })
+
+    test('should report conflicts against the bundled data', () => {
+      const result = parseDistrictTable(csv)
+
+      expect(result.unchanged).toEqual(['8.26.0100'])
+      expect(result.added).toEqual(['8.26.9999'])
+      expect(result.conflicts).toEqual([
+        {
+          key: '8.26.0158',
+          bundled: DISTRICTS['8.26.0158'],
+          imported: {
+            sourceUnit: 'Foro Regional de Itaquera',
+            uf: 'SP',
+            district: 'São Paulo',
+          },
+          fields: ['sourceUnit'],
+        },
+      ])
+    })
+
+    test('should compare against a custom base registry', () => {
+      const base = new DistrictRegistry({
+        '8.26.9999': {
+          sourceUnit: 'Unidade Nova; Anexo',
+          uf: 'SP',
+          district: 'São Paulo',
+        },
+      })
+      const result = parseDistrictTable(csv, { base })
+
+      expect(result.unchanged).toEqual(['8.26.9999'])
+      expect(result.added).toEqual(['8.26.0100', '8.26.0158'])
+    })
+
+    test('should accept compact and dotted keys', () => {
+      const result = parseDistrictTable(
+        'chave,nome,uf\n8260100,Central,SP\n5.02.0001,São Paulo,SP',
+      )
+
+      expect(Object.keys(result.districts)).toEqual(['8.26.0100', '5.02.0001'])
+    })
+
+    test('should report invalid rows with their line numbers', () => {
+      const result = parseDistrictTable(
+        [
+          'chave,nome,uf',
+          '8.26.100,Chave curta,SP',
+          '0.26.0100,Segmento inválido,SP',
+          '8.26.0101,,SP',
+          '8.26.0102,UF errada,XX',
+          '8.26.0100,Central,SP',
+          '8.26.0100,Central,SP',
+        ].join('\n'),
+      )
+
+      expect(result.issues.map((issue) => [issue.row, issue.code])).toEqual([
+        [2, 'INVALID_KEY'],
+        [3, 'INVALID_KEY'],
+        [4, 'MISSING_FIELD'],
+        [5, 'INVALID_UF'],
+        [7, 'DUPLICATE_KEY'],
+      ])
+      expect(Object.keys(result.districts)).toEqual(['8.26.0100'])
+    })
+
+    test('should read validity columns', () => {
+      const result = parseDistrictTable(
+        'chave;nome;uf;inicio_vigencia;fim_vigencia\n8.26.9999;Extinta;SP;2010-01-01;2020-12-31',
+      )
+
+      expect(result.districts['8.26.9999']).toMatchObject({
+        validFrom: '2010-01-01',
+        validUntil: '2020-12-31',
+      })
+    })
+
+    test('should convert CNJ dates to ISO', () => {
+      const result = parseDistrictTable(
+        'chave;nome;uf;data_instalacao;data_extincao\n8.26.9999;Instalada;SP;15/03/2010;',
+      )
+      const registry = DistrictRegistry.fromDefaults().extend(result.districts)
+      const cnj = buildCNJ({
+        lawsuitNumber: 1,
+        protocolYear: 2005,
+        segment: 8,
+        court: 26,
+        sourceUnit: 9999,
+      }).formatted
+
+      expect(result.districts['8.26.9999'].validFrom).toBe('2010-03-15')
+      expect(result.districts['8.26.9999']).not.toHaveProperty('validUntil')
+      expect(analyzeCNJ(cnj, { districts: registry }).validity?.isValid).toBe(
+        false,
+      )
+    })
+
+    test('should report invalid and inverted validity dates', () => {
+      const result = parseDistrictTable(
+        [
+          'chave;nome;uf;data_instalacao;data_extincao',
+          '8.26.9997;Data inexistente;SP;31/02/2010;',
+          '8.26.9998;Formato desconhecido;SP;2010/03/15;',
+          '8.26.9999;Invertida;SP;15/03/2010;14/03/2010',
+        ].join('\n'),
+      )
+
+      expect(
+        result.issues.map((issue) => [issue.row, issue.code, issue.key]),
+      ).toEqual([
+        [2, 'INVALID_DATE', '8.26.9997'],
+        [3, 'INVALID_DATE', '8.26.9998'],
+        [4, 'INVALID_DATE', '8.26.9999'],
+      ])
+      expect(result.districts).toEqual({})
+    })
+
+    test('should honor custom column names', () => {
+      const result = parseDistrictTable(
+        'cod,descricao,sigla\n8.26.0100,Central,SP',
+        { columns: { key: 'cod', sourceUnit: 'descricao', uf: 'sigla' } },
+      )
+
+      expect(result.districts['8.26.0100'].sourceUnit).toBe('Central')
+    })
+
+    test('should accept JSON lists and district maps', () => {
+      const list = parseDistrictTable(
+        JSON.stringify([
+          { segmento: 8, tribunal: 26, origem: 100, nome: 'Central', uf: 'SP' },
+        ]),
+      )
+      const map = parseDistrictTable(
+        JSON.stringify({ '8.26.0158': DISTRICTS['8.26.0158'] }),
+      )
+
+      expect(list.unchanged).toEqual(['8.26.0100'])
+      expect(map.unchanged).toEqual(['8.26.0158'])
+    })
+
+    test('should throw on missing required columns or invalid JSON', () => {
+      expect(() => parseDistrictTable('chave,nome\n8.26.0100,Central')).toThrow(
+        'Coluna obrigatória ausente na tabela de distritos: uf',
+      )
+      expect(() => parseDistrictTable('{ invalid', { format: 'json' })).toThrow(
+        'Tabela de distritos em JSON inválida',
+      )
+    })
+
+    test('should feed a DistrictRegistry', () => {
+      const { districts } = parseDistrictTable(csv)
+      const registry = DistrictRegistry.fromDefaults().extend(districts)
+
+      expect(
+        analyzeCNJ('0001327-64.2018.8.26.0158', { districts: registry })
+          .detailed.district,
+      ).toBe('Foro Regional de Itaquera')
+    })
+  })
+
+  describe('loadDistrictTable', () => {
+    let directory: string
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'districts-'))
+    })
+
+    afterAll(async () => {
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    test('should read CSV files in the given encoding', async () => {
+      const file = path.join(directory, 'serventias.csv')
+      await fs.writeFile(file, 'chave;nome;uf\n8.26.9999;Jundiaí;SP', 'latin1')
+
+      const result = await loadDistrictTable(file, { encoding: 'latin1' })
+
+      expect(result.districts['8.26.9999'].sourceUnit).toBe('Jundiaí')
+    })
+
+    test('should detect JSON files by extension', async () => {
+      const file = path.join(directory, 'serventias.json')
+      await fs.writeFile(
+        file,
+        JSON.stringify({ '8.26.9999': { sourceUnit: 'Nova', uf: 'SP' } }),
+      )
+
+      const result = await loadDistrictTable(file)
+
+      expect(result.added).toEqual(['8.26.9999'])
+    })
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Tests for instance-scoped district registry
+ */
+
+import { analyzeCNJ } from '../../core/analyzer'
+import { decomposeCNJ } from '../../core/decomposer'
+import {
+  DEFAULT_DISTRICT_REGISTRY,
+  DistrictRegistry,
+} from '../district-registry'
+import {
+  addDistrict,
+  DISTRICTS,
+  getDistrictInfo,
+  getGlobalDistrictRegistry,
+} from '../districts'
+
+describe('District Registry', () => {
+  const validCNJ = '0001327-64.2018.8.26.0158'
+  const customInfo = {
+    sourceUnit: 'Unidade Teste',
+    uf: 'SP',
+    district: 'São Paulo',
+  }
+
+  describe('DistrictRegistry', () => {
+    test('should load the bundled data', () => {
+      const registry = DistrictRegistry.fromDefaults()
+
+      expect(registry.size).toBe(Object.keys(DISTRICTS).length)
+      expect(registry.get('8.26.0158')).toEqual(DISTRICTS['8.26.0158'])
+      expect(registry.isFrozen).toBe(false)
+    })
+
+    test('should start empty by default', () => {
+      const registry = new DistrictRegistry()
+
+      expect(registry.size).toBe(0)
+      expect(registry.get('8.26.0158')).toBeNull()
+      expect(registry.has('toString')).toBe(false)
+    })
+
+    test('should query by UF and segment', () => {
+      const registry = new DistrictRegistry({
+        '8.26.0158': customInfo,
+        '5.02.0001': { ...customInfo, sourceUnit: 'Vara' },
+        '8.19.0001': { sourceUnit: 'Capital', uf: 'RJ', district: 'Rio' },
+      })
+
+      expect(registry.getKeysByUF('sp')).toEqual(['8.26.0158', '5.02.0001'])
+      expect(registry.getByUF('RJ')).toHaveLength(1)
+      expect(registry.getBySegment('8')).toHaveLength(2)
+      expect(registry.values()).toHaveLength(3)
+    })
+
+    test('should extend and override entries', () => {
+      const registry = DistrictRegistry.fromDefaults()
+        .extend({ '8.26.9999': customInfo })
+        .override('8.26.0158', { sourceUnit: 'Nome Corrigido' })
+
+      expect(registry.get('8.26.9999')).toEqual(customInfo)
+      expect(registry.get('8.26.0158')).toMatchObject({
+        sourceUnit: 'Nome Corrigido',
+        uf: 'SP',
+      })
+    })
+
+    test('should reject overriding unknown districts', () => {
+      expect(() =>
+        new DistrictRegistry().override('8.26.9999', { uf: 'RJ' }),
+      ).toThrow('Distrito não encontrado no registro: 8.26.9999')
+    })
+
+    test('should block changes once frozen', () => {
+      const registry = new DistrictRegistry({
+        '8.26.9999': customInfo,
+      }).freeze()
+
+      expect(registry.isFrozen).toBe(true)
+      expect(() => registry.extend({ '8.26.9998': customInfo })).toThrow(
+        /congelado/,
+      )
+      expect(() => registry.override('8.26.9999', { uf: 'RJ' })).toThrow(
+        /congelado/,
+      )
+      expect(Object.isFrozen(registry.get('8.26.9999'))).toBe(true)
+    })
+
+    test('should fork into an independent mutable copy', () => {
+      const base = new DistrictRegistry({ '8.26.9999': customInfo }).freeze()
+      const fork = base.fork().override('8.26.9999', { sourceUnit: 'Outra' })
+
+      expect(fork.isFrozen).toBe(false)
+      expect(fork.get('8.26.9999')?.sourceUnit).toBe('Outra')
+      expect(base.get('8.26.9999')?.sourceUnit).toBe('Unidade Teste')
+    })
+
+    test('should not leak changes between registries', () => {
+      const tenantA = DistrictRegistry.fromDefaults().extend({
+        '8.26.9999': customInfo,
+      })
+      const tenantB = DistrictRegistry.fromDefaults()
+
+      expect(tenantA.has('8.26.9999')).toBe(true)
+      expect(tenantB.has('8.26.9999')).toBe(false)
+      expect(DEFAULT_DISTRICT_REGISTRY.has('8.26.9999')).toBe(false)
+    })
+
+    test('should keep changes over the bundled data in key order', () => {
+      const registry = DistrictRegistry.fromDefaults()
+        .override('8.26.0158', { sourceUnit: 'Nome Corrigido' })
+        .extend({ '8.26.9999': customInfo })
+      const keys = registry.keys()
+
+      expect(registry.size).toBe(DEFAULT_DISTRICT_REGISTRY.size + 1)
+      expect(keys.indexOf('8.26.0158')).toBe(
+        DEFAULT_DISTRICT_REGISTRY.keys().indexOf('8.26.0158'),
+      )
+      expect(keys[keys.length - 1]).toBe('8.26.9999')
+      expect(registry.getKeysByUF('SP')).toContain('8.26.9999')
+      expect(registry.get('8.26.0158')?.uf).toBe('SP')
+      expect(DEFAULT_DISTRICT_REGISTRY.get('8.26.0158')?.sourceUnit).toBe(
+        DISTRICTS['8.26.0158'].sourceUnit,
+      )
+    })
+  })
+
+  describe('DEFAULT_DISTRICT_REGISTRY', () => {
+    test('should be frozen', () => {
+      expect(DEFAULT_DISTRICT_REGISTRY.isFrozen).toBe(true)
+      expect(() =>
+        DEFAULT_DISTRICT_REGISTRY.extend({ '8.26.9999': customInfo }),
+      ).toThrow()
+    })
+  })
+
+  describe('registry options', () => {
+    const tenant = DistrictRegistry.fromDefaults()
+      .override('8.26.0158', { sourceUnit: 'Nome Corrigido' })
+      .freeze()
+
+    test('should be used by decomposeCNJ', () => {
+      expect(decomposeCNJ(validCNJ, { districts: tenant }).district).toBe(
+        'Nome Corrigido',
+      )
+      expect(decomposeCNJ(validCNJ).district).toBe(
+        DISTRICTS['8.26.0158'].sourceUnit,
+      )
+    })
+
+    test('should be used by analyzeCNJ', () => {
+      const empty = new DistrictRegistry()
+
+      expect(
+        analyzeCNJ(validCNJ, { districts: tenant }).detailed.district,
+      ).toBe('Nome Corrigido')
+      expect(analyzeCNJ(validCNJ, { districts: empty }).detailed.uf).toBe('')
+    })
+  })
+
+  describe('addDistrict', () => {
+    test('should update the global registry without touching the default one', () => {
+      addDistrict('8.26.9997', customInfo)
+
+      expect(getDistrictInfo('8.26.9997')).toEqual(customInfo)
+      expect(getGlobalDistrictRegistry()).not.toBe(DEFAULT_DISTRICT_REGISTRY)
+      expect(DEFAULT_DISTRICT_REGISTRY.has('8.26.9997')).toBe(false)
+      expect(decomposeCNJ('0000001-00.2018.8.26.9997').district).toBe(
+        'Unidade Teste',
+      )
+    })
+
+    test('should expose added districts through DISTRICTS', () => {
+      addDistrict('8.26.9996', customInfo)
+
+      expect(DISTRICTS['8.26.9996']).toEqual(customInfo)
+      expect('8.26.9996' in DISTRICTS).toBe(true)
+      expect(Object.keys(DISTRICTS)).toContain('8.26.9996')
+      expect(Object.keys(DISTRICTS)).toHaveLength(
+        getGlobalDistrictRegistry().size,
+      )
+    })
+  })
+})
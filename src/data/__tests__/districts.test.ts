@@ -5,10 +5,13 @@
 import {
   generateDistrictKey,
   getDistrictInfo,
+  getDistrictKeysByUF,
   getDistrictsBySegment,
   getDistrictsByUF,
   hasDistrict,
+  isValidDistrictKey,
 } from '../districts'
+import { DISTRICT_SEGMENTS } from '../district-chunks'
 
 describe('Districts Data', () => {
   describe('generateDistrictKey', () => {
@@ -98,6 +101,19 @@ describe('Districts Data', () => {
     })
   })
 
+  describe('getDistrictKeysByUF', () => {
+    test('should return keys for SP state', () => {
+      const keys = getDistrictKeysByUF('sp')
+
+      expect(keys).toContain('8.26.0158')
+      expect(keys).toHaveLength(getDistrictsByUF('SP').length)
+    })
+
+    test('should return empty array for non-existent UF', () => {
+      expect(getDistrictKeysByUF('XX')).toEqual([])
+    })
+  })
+
   describe('getDistrictsBySegment', () => {
     test('should return districts for segment 8 (State Court)', () => {
       const stateDistricts = getDistrictsBySegment('8')
@@ -220,6 +236,19 @@ describe('Districts Data', () => {
       })
     })
 
+    test('should only use J.CT.OOOO keys in the segment files', async () => {
+      for (const segment of DISTRICT_SEGMENTS) {
+        const { default: districts } = await import(
+          `../districts/${segment}.json`
+        )
+        const invalid = Object.keys(districts).filter(
+          (key) => !isValidDistrictKey(key) || key.charAt(0) !== segment,
+        )
+
+        expect(invalid).toEqual([])
+      }
+    })
+
     test('should have consistent key format validation', () => {
       const key = generateDistrictKey('8', '26', '0158')
       expect(key).toMatch(/^\d+\.\d+\.\d+$/)
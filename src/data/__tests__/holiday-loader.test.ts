@@ -0,0 +1,154 @@
+/**
+ * Tests for loading local holiday tables
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { computeDeadline } from '../../core/deadline'
+import { LOCAL_HOLIDAYS, mergeHolidayTables } from '../holidays'
+import { loadHolidayTable, parseHolidayTable } from '../holiday-loader'
+
+describe('Holiday Loader', () => {
+  describe('parseHolidayTable', () => {
+    test('should read CSV tables and convert dates to ISO', () => {
+      const { table, issues } = parseHolidayTable(
+        [
+          'Chave;Nome;Data;Dias Páscoa;Início Vigência;Fim Vigência',
+          '8.26.0158;Aniversário da cidade;01/08;;;',
+          '8.26.0158;Suspensão de expediente;02/07/2024;;;',
+          '8.26;Corpus Christi (ponto facultativo);;61;01/01/2020;',
+          '4;Dia da Justiça;12-08;;2000-01-01;31/12/2030',
+        ].join('\n'),
+      )
+
+      expect(table).toEqual({
+        '8.26.0158': [
+          { name: 'Aniversário da cidade', date: '08-01' },
+          { name: 'Suspensão de expediente', date: '2024-07-02' },
+        ],
+        '8.26': [
+          {
+            name: 'Corpus Christi (ponto facultativo)',
+            easterOffset: 61,
+            validFrom: '2020-01-01',
+          },
+        ],
+        '4': [
+          {
+            name: 'Dia da Justiça',
+            date: '12-08',
+            validFrom: '2000-01-01',
+            validUntil: '2030-12-31',
+          },
+        ],
+      })
+      expect(issues).toEqual([])
+    })
+
+    test('should report invalid keys, names and dates', () => {
+      const { table, issues } = parseHolidayTable(
+        [
+          'chave,nome,data,inicio_vigencia,fim_vigencia',
+          '8.26.158,Feriado,01/08,,',
+          '8.26,,01/08,,',
+          '8.26,Feriado,31/02,,',
+          '8.26,Feriado,,,',
+          '8.26,Feriado,01/08,2020-13-01,',
+          '8.26,Feriado,01/08,01/01/2024,31/12/2023',
+          '8.26,Feriado,29/02,,',
+        ].join('\n'),
+      )
+
+      expect(issues.map((issue) => [issue.row, issue.code])).toEqual([
+        [2, 'INVALID_KEY'],
+        [3, 'MISSING_NAME'],
+        [4, 'INVALID_DATE'],
+        [5, 'INVALID_DATE'],
+        [6, 'INVALID_DATE'],
+        [7, 'INVALID_DATE'],
+      ])
+      expect(table).toEqual({ '8.26': [{ name: 'Feriado', date: '02-29' }] })
+    })
+
+    test('should read JSON tables', () => {
+      const { table, issues } = parseHolidayTable(
+        JSON.stringify({
+          '8.19': [{ name: 'Dia de São Jorge', date: '04-23' }],
+          '8.19.0001': { name: 'Aniversário da cidade', date: '01/03' },
+          x: [{ name: 'Inválido', date: '01-01' }],
+        }),
+      )
+
+      expect(table).toEqual({
+        '8.19': [{ name: 'Dia de São Jorge', date: '04-23' }],
+        '8.19.0001': [{ name: 'Aniversário da cidade', date: '03-01' }],
+      })
+      expect(issues.map((issue) => [issue.row, issue.code])).toEqual([
+        [3, 'INVALID_KEY'],
+      ])
+    })
+
+    test('should throw on missing columns or invalid JSON', () => {
+      expect(() => parseHolidayTable('nome;data\nFeriado;01/08')).toThrow(
+        'Coluna obrigatória ausente na tabela de feriados: key',
+      )
+      expect(() => parseHolidayTable('{ invalid')).toThrow(
+        'Tabela de feriados em JSON inválida',
+      )
+    })
+
+    test('should feed computeDeadline without changing the bundled table', () => {
+      const { table } = parseHolidayTable(
+        'chave;nome;data\n8.26.0158;Aniversário da cidade;01/08',
+      )
+      const holidayTable = mergeHolidayTables(LOCAL_HOLIDAYS, table)
+      const cnj = '0001327-64.2018.8.26.0158'
+
+      expect(
+        computeDeadline(cnj, '2024-07-31', 1, { holidayTable }).dueDate,
+      ).toBe('2024-08-02')
+      expect(holidayTable['8.26']).toEqual(LOCAL_HOLIDAYS['8.26'])
+      expect(LOCAL_HOLIDAYS['8.26.0158']).toBeUndefined()
+    })
+  })
+
+  describe('loadHolidayTable', () => {
+    let directory: string
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'holidays-'))
+    })
+
+    afterAll(async () => {
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    test('should read files in the given encoding', async () => {
+      const file = path.join(directory, 'feriados.csv')
+      await fs.writeFile(
+        file,
+        'chave;nome;data\n8.19.0001;Aniversário da cidade;01/03',
+        'latin1',
+      )
+
+      const { table } = await loadHolidayTable(file, { encoding: 'latin1' })
+
+      expect(table['8.19.0001']).toEqual([
+        { name: 'Aniversário da cidade', date: '03-01' },
+      ])
+    })
+
+    test('should detect JSON files by extension', async () => {
+      const file = path.join(directory, 'feriados.json')
+      await fs.writeFile(
+        file,
+        JSON.stringify({ '8.26': [{ name: 'Feriado', date: '11-20' }] }),
+      )
+
+      const { table } = await loadHolidayTable(file)
+
+      expect(table).toEqual({ '8.26': [{ name: 'Feriado', date: '11-20' }] })
+    })
+  })
+})
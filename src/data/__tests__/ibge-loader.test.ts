@@ -0,0 +1,137 @@
+/**
+ * Tests for loading IBGE municipality tables
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { analyzeCNJ } from '../../core/analyzer'
+import { IBGE_TABLE } from '../ibge'
+import { loadIBGETable, parseIBGETable } from '../ibge-loader'
+
+describe('IBGE Loader', () => {
+  describe('parseIBGETable', () => {
+    test('should read the IBGE territorial division table', () => {
+      const { table, issues } = parseIBGETable(
+        [
+          'UF;Nome_UF;Código Município Completo;Nome_Município',
+          '35;São Paulo;3538709;Piracicaba',
+          '33;Rio de Janeiro;3304904;São Gonçalo',
+        ].join('\n'),
+        { version: 'DTB-2022' },
+      )
+
+      expect(table).toEqual({
+        version: 'DTB-2022',
+        municipalities: { '3538709': 'Piracicaba', '3304904': 'São Gonçalo' },
+        districts: {},
+      })
+      expect(issues).toEqual([])
+    })
+
+    test('should read jurisdiction tables keyed by district', () => {
+      const { table } = parseIBGETable(
+        [
+          'chave,codigo_ibge,sede',
+          '8.26.0451,3538709,',
+          '8.26.9999,3500105,',
+          '8.26.9999,3550308,S',
+          '8.26.9999,3500105,',
+        ].join('\n'),
+      )
+
+      expect(table.districts).toEqual({
+        '8.26.0451': { seat: '3538709', municipalities: ['3538709'] },
+        '8.26.9999': {
+          seat: '3550308',
+          municipalities: ['3500105', '3550308'],
+        },
+      })
+    })
+
+    test('should report invalid codes and keys', () => {
+      const { issues } = parseIBGETable(
+        'chave;codigo_ibge\n8.26.0451;123\n8.26.451;3538709\n;9938709',
+      )
+
+      expect(issues.map((issue) => [issue.row, issue.code])).toEqual([
+        [2, 'INVALID_CODE'],
+        [3, 'INVALID_KEY'],
+        [4, 'INVALID_CODE'],
+      ])
+    })
+
+    test('should read JSON tables', () => {
+      const { table, issues } = parseIBGETable(
+        JSON.stringify({
+          version: '2024-07',
+          municipalities: { '3538709': 'Piracicaba', '12': 'Inválido' },
+          districts: {
+            '8.26.0451': { seat: '3538709', municipalities: [] },
+            '8.26.0452': { seat: 'x' },
+          },
+        }),
+      )
+
+      expect(table.version).toBe('2024-07')
+      expect(table.municipalities).toEqual({ '3538709': 'Piracicaba' })
+      expect(table.districts).toEqual({
+        '8.26.0451': { seat: '3538709', municipalities: ['3538709'] },
+      })
+      expect(issues.map((issue) => issue.code)).toEqual([
+        'INVALID_CODE',
+        'INVALID_CODE',
+      ])
+    })
+
+    test('should throw on missing code column or invalid JSON', () => {
+      expect(() => parseIBGETable('municipio\nPiracicaba')).toThrow(
+        'Coluna obrigatória ausente na tabela do IBGE: code',
+      )
+      expect(() => parseIBGETable('{ invalid')).toThrow(
+        'Tabela do IBGE em JSON inválida',
+      )
+    })
+
+    test('should link analyses through the loaded municipalities', () => {
+      const { table } = parseIBGETable(
+        'codigo_ibge;municipio\n3538709;Piracicaba',
+      )
+      const ibge = {
+        ...table,
+        districts: { ...IBGE_TABLE.districts, ...table.districts },
+      }
+
+      expect(analyzeCNJ('0000001-00.2020.8.26.0451', { ibge }).ibge).toEqual({
+        seat: '3538709',
+        municipalities: ['3538709'],
+        source: 'inferred',
+      })
+    })
+  })
+
+  describe('loadIBGETable', () => {
+    let directory: string
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ibge-'))
+    })
+
+    afterAll(async () => {
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    test('should read files in the given encoding', async () => {
+      const file = path.join(directory, 'dtb.csv')
+      await fs.writeFile(
+        file,
+        'codigo_ibge;municipio\n3304904;São Gonçalo',
+        'latin1',
+      )
+
+      const { table } = await loadIBGETable(file, { encoding: 'latin1' })
+
+      expect(table.municipalities['3304904']).toBe('São Gonçalo')
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Tests for tribunals data module
+ */
+
+import { DISTRICTS } from '../districts'
+import {
+  generateTribunalKey,
+  getAllTribunals,
+  getTribunal,
+  getTribunalsByUF,
+  TRIBUNALS,
+} from '../tribunals'
+
+describe('Tribunals Data', () => {
+  describe('TRIBUNALS', () => {
+    test('should cover every tribunal and council', () => {
+      const acronyms = getAllTribunals().map((tribunal) => tribunal.acronym)
+
+      expect(acronyms).toEqual(
+        expect.arrayContaining([
+          'STF',
+          'CNJ',
+          'STJ',
+          'CJF',
+          'TST',
+          'CSJT',
+          'TSE',
+          'STM',
+          'TRF1',
+          'TRF6',
+          'TRT1',
+          'TRT24',
+          'TRE-AC',
+          'TRE-TO',
+          '1ª CJM',
+          '12ª CJM',
+          'TJAC',
+          'TJDFT',
+          'TJTO',
+          'TJMMG',
+          'TJMRS',
+          'TJMSP',
+        ]),
+      )
+      expect(acronyms).toHaveLength(8 + 6 + 24 + 27 + 12 + 27 + 3)
+      expect(new Set(acronyms).size).toBe(acronyms.length)
+    })
+
+    test('should be keyed by segment and court', () => {
+      Object.keys(TRIBUNALS).forEach((key) => {
+        const tribunal = TRIBUNALS[key]
+        expect(key).toBe(`${tribunal.segment}.${tribunal.court}`)
+        expect(tribunal.court).toMatch(/^\d{2}$/)
+        expect(tribunal.ufs).toContain(tribunal.seat.uf)
+      })
+    })
+
+    test('should match the UF of state and electoral districts', () => {
+      const ufsByCourt: Record<string, string[]> = {}
+      Object.keys(DISTRICTS)
+        .filter((key) => /^[68]\.(0[1-9]|1\d|2[0-7])\./.test(key))
+        .forEach((key) => {
+          const tribunalKey = key.substring(0, 4)
+          ufsByCourt[tribunalKey] = ufsByCourt[tribunalKey] || []
+          ufsByCourt[tribunalKey].push(DISTRICTS[key].uf)
+        })
+
+      expect(Object.keys(ufsByCourt)).toHaveLength(54)
+      Object.keys(ufsByCourt).forEach((key) => {
+        const [uf] = TRIBUNALS[key].ufs
+        expect(ufsByCourt[key]).toContain(uf)
+      })
+    })
+  })
+
+  describe('generateTribunalKey', () => {
+    test('should normalize segment and court', () => {
+      expect(generateTribunalKey('8', '26')).toBe('8.26')
+      expect(generateTribunalKey(4, 1)).toBe('4.01')
+    })
+  })
+
+  describe('getTribunal', () => {
+    test('should return tribunal details', () => {
+      expect(getTribunal('8', '26')).toEqual({
+        segment: 8,
+        court: '26',
+        acronym: 'TJSP',
+        name: 'Tribunal de Justiça do Estado de São Paulo',
+        seat: { uf: 'SP', city: 'São Paulo' },
+        ufs: ['SP'],
+      })
+    })
+
+    test('should resolve regional tribunals covering several UFs', () => {
+      const trt15 = getTribunal(5, 15)
+      expect(trt15?.acronym).toBe('TRT15')
+      expect(trt15?.seat.city).toBe('Campinas')
+
+      expect(getTribunal(4, 3)?.ufs).toEqual(['SP', 'MS'])
+      expect(getTribunal(7, 12)?.name).toBe(
+        '12ª Circunscrição Judiciária Militar',
+      )
+    })
+
+    test('should return null for unknown combinations', () => {
+      expect(getTribunal('8', '28')).toBeNull()
+      expect(getTribunal('8', '00')).toBeNull()
+      expect(getTribunal('0', '01')).toBeNull()
+    })
+  })
+
+  describe('getTribunalsByUF', () => {
+    test('should return tribunals with jurisdiction over the UF', () => {
+      const acronyms = getTribunalsByUF('sp').map(
+        (tribunal) => tribunal.acronym,
+      )
+
+      expect(acronyms).toEqual(
+        expect.arrayContaining([
+          'STF',
+          'TRF3',
+          'TRT2',
+          'TRT15',
+          'TRE-SP',
+          '2ª CJM',
+          'TJSP',
+          'TJMSP',
+        ]),
+      )
+      expect(acronyms).not.toContain('TJRJ')
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import {
+  ConsultationLinkTable,
+  ConsultationLinkTemplate,
+} from '../types/consultation'
+import { InstanceLevel } from '../types/instance'
+
+/**
+ * Instâncias atendidas pelos sistemas de primeiro grau
+ */
+const FIRST_GRADE = [InstanceLevel.FIRST_GRADE, InstanceLevel.APPEALS_PANEL]
+
+/**
+ * Consulta pública do PJe da Justiça do Trabalho (mesma URL em todos os TRTs)
+ */
+function laborCourtLinks(region: number): ConsultationLinkTemplate[] {
+  return [
+    {
+      system: 'pje',
+      label: `PJe - TRT da ${region}ª Região`,
+      url: `https://pje.trt${region}.jus.br/consultaprocessual/detalhe-processo/{cnj}`,
+    },
+  ]
+}
+
+/**
+ * Links de consulta processual por tribunal ou segmento
+ *
+ * Tabela offline: atualize `version` sempre que uma URL mudar.
+ */
+export const CONSULTATION_LINKS: ConsultationLinkTable = {
+  version: '2024-06-01',
+  links: {
+    // STJ
+    '3.00': [
+      {
+        system: 'portal',
+        label: 'STJ - Consulta Processual',
+        url: 'https://processo.stj.jus.br/processo/pesquisa/?tipoPesquisa=tipoPesquisaNumeroUnico&termo={unformatted}',
+      },
+    ],
+    // TRF4
+    '4.04': [
+      {
+        system: 'eproc',
+        label: 'eproc - TRF4',
+        url: 'https://consulta.trf4.jus.br/trf4/controlador.php?acao=consulta_processual_resultado_pesquisa&txtValor={unformatted}&selOrigem=TRF',
+      },
+    ],
+    // TST
+    '5.00': [
+      {
+        system: 'pje',
+        label: 'PJe - TST',
+        url: 'https://pje.tst.jus.br/consultaprocessual/detalhe-processo/{cnj}',
+      },
+    ],
+    ...Array.from({ length: 24 }, (_, index) => index + 1).reduce(
+      (links, region) => {
+        links[`5.${String(region).padStart(2, '0')}`] = laborCourtLinks(region)
+        return links
+      },
+      {} as Record<string, ConsultationLinkTemplate[]>,
+    ),
+    // Justiça Eleitoral (consulta unificada do PJe)
+    '6': [
+      {
+        system: 'pje',
+        label: 'PJe - Justiça Eleitoral',
+        url: 'https://consultaunificadapje.tse.jus.br/',
+      },
+    ],
+    // TJRJ
+    '8.19': [
+      {
+        system: 'portal',
+        label: 'TJRJ - Consulta Processual',
+        url: 'https://www3.tjrj.jus.br/consultaprocessual/#/consultapublica?numProcessoCNJ={cnj}',
+      },
+    ],
+    // TJPR
+    '8.16': [
+      {
+        system: 'projudi',
+        label: 'Projudi - TJPR',
+        url: 'https://projudi.tjpr.jus.br/projudi_consulta/',
+      },
+    ],
+    // TJSC
+    '8.24': [
+      {
+        system: 'eproc',
+        label: 'eproc - TJSC (1º grau)',
+        url: 'https://eproc1g.tjsc.jus.br/eproc/externo_controlador.php?acao=processo_consulta_publica',
+        instances: FIRST_GRADE,
+      },
+      {
+        system: 'eproc',
+        label: 'eproc - TJSC (2º grau)',
+        url: 'https://eproc2g.tjsc.jus.br/eproc/externo_controlador.php?acao=processo_consulta_publica',
+        instances: [InstanceLevel.SECOND_GRADE],
+      },
+    ],
+    // TJSP
+    '8.26': [
+      {
+        system: 'esaj',
+        label: 'e-SAJ - TJSP (1º grau)',
+        url: 'https://esaj.tjsp.jus.br/cpopg/search.do?cbPesquisa=NUMPROC&dadosConsulta.tipoNuProcesso=UNIFICADO&numeroDigitoAnoUnificado={lawsuitNumber}-{verifyingDigit}.{protocolYear}&foroNumeroUnificado={sourceUnit}&dadosConsulta.valorConsultaNuUnificado={cnj}',
+        instances: FIRST_GRADE,
+      },
+      {
+        system: 'esaj',
+        label: 'e-SAJ - TJSP (2º grau)',
+        url: 'https://esaj.tjsp.jus.br/cposg/search.do?cbPesquisa=NUMPROC&tipoNuProcesso=UNIFICADO&numeroDigitoAnoUnificado={lawsuitNumber}-{verifyingDigit}.{protocolYear}&foroNumeroUnificado={sourceUnit}&dePesquisaNuUnificado={cnj}',
+        instances: [InstanceLevel.SECOND_GRADE],
+      },
+    ],
+  },
+}
@@ -0,0 +1,162 @@
+import { parseCNJ } from '../core/parser'
+import { DistrictInfo, DistrictKey, DistrictMap } from '../types/district'
+import {
+  DistrictChunkLoader,
+  DistrictChunkOptions,
+  DistrictChunkStore,
+} from '../types/district-chunks'
+
+/**
+ * Segmentos com arquivo próprio de distritos (districts/J.json)
+ */
+export const DISTRICT_SEGMENTS: readonly string[] = Object.freeze([
+  '1',
+  '2',
+  '3',
+  '4',
+  '5',
+  '6',
+  '7',
+  '8',
+  '9',
+])
+
+/**
+ * Carregador padrão: import dinâmico do arquivo do segmento na biblioteca
+ */
+const defaultLoader: DistrictChunkLoader = (segment) =>
+  import(`./districts/${segment}.json`)
+
+/**
+ * Cria um repositório de distritos carregados por segmento
+ *
+ * Não importa a base embutida: cada segmento é lido apenas quando solicitado,
+ * o que mantém os dados fora do bundle principal. Em bundlers (webpack, Vite,
+ * Next.js), informe um `loader` com o caminho do pacote para que cada
+ * segmento vire um chunk separado. Dados já disponíveis (ex.: importados no
+ * servidor) podem ser registrados com preload() para consulta síncrona.
+ *
+ * @param options Carregador dos arquivos de segmento
+ * @returns Repositório com carga assíncrona e consultas síncronas
+ *
+ * @example
+ * ```typescript
+ * import { createDistrictChunkStore, isValidCNJ } from 'cnj-validate/validator'
+ *
+ * const store = createDistrictChunkStore({
+ *   loader: (segment) => import(`cnj-validate/districts/${segment}.json`),
+ * })
+ *
+ * await store.loadFor('0001327-64.2018.8.26.0158') // { sourceUnit: "São Paulo", uf: "SP", ... }
+ * store.lookup('0001327-64.2018.8.26.0158')?.uf // "SP" (segmento 8 já carregado)
+ * ```
+ */
+export function createDistrictChunkStore(
+  options: DistrictChunkOptions = {},
+): DistrictChunkStore {
+  const loader = options.loader || defaultLoader
+  const chunks = new Map<string, DistrictMap>()
+  const pending = new Map<string, Promise<DistrictMap>>()
+
+  const load = async (value: string | number): Promise<DistrictMap> => {
+    const segment = resolveSegment(value)
+    const loaded = chunks.get(segment)
+    if (loaded) {
+      return loaded
+    }
+
+    let request = pending.get(segment)
+    if (!request) {
+      request = loader(segment)
+        .then((module) => {
+          const districts = unwrapChunk(module)
+          chunks.set(segment, districts)
+          return districts
+        })
+        .finally(() => pending.delete(segment))
+      pending.set(segment, request)
+    }
+
+    return request
+  }
+
+  const get = (key: DistrictKey): DistrictInfo | null => {
+    const segment = key.charAt(0)
+    if (DISTRICT_SEGMENTS.indexOf(segment) === -1) {
+      return null
+    }
+
+    const districts = chunks.get(segment)
+    if (!districts) {
+      throw new Error(
+        `Distritos do segmento ${segment} não carregados. Use load('${segment}') ou preload() antes da consulta síncrona.`,
+      )
+    }
+
+    return Object.prototype.hasOwnProperty.call(districts, key)
+      ? districts[key]
+      : null
+  }
+
+  const lookup = (cnj: string): DistrictInfo | null => {
+    const { segment, court, sourceUnit } = parseCNJ(cnj)
+    return get(`${segment}.${court}.${sourceUnit}`)
+  }
+
+  return {
+    load,
+    loadFor: async (cnj) => {
+      await load(parseCNJ(cnj).segment)
+      return lookup(cnj)
+    },
+    preload: (segment, districts) => {
+      chunks.set(resolveSegment(segment), districts)
+    },
+    isLoaded: (segment) => chunks.has(String(segment)),
+    get,
+    lookup,
+    loadedSegments: () => Array.from(chunks.keys()).sort(),
+    toMap: () =>
+      Array.from(chunks.keys())
+        .sort()
+        .reduce(
+          (map, segment) => ({ ...map, ...chunks.get(segment) }),
+          {} as DistrictMap,
+        ),
+  }
+}
+
+/**
+ * Valida o código de segmento antes de montar o caminho do arquivo
+ * @throws Error se o segmento não tiver arquivo de distritos
+ */
+function resolveSegment(value: string | number): string {
+  const segment = String(value)
+  if (DISTRICT_SEGMENTS.indexOf(segment) === -1) {
+    throw new Error(
+      `Segmento sem arquivo de distritos: ${segment}. Esperado: ${DISTRICT_SEGMENTS.join(', ')}`,
+    )
+  }
+  return segment
+}
+
+/**
+ * Aceita tanto o módulo JSON importado quanto o próprio mapa de distritos e
+ * descarta chaves fora do formato J.CT.OOOO, que nenhum CNJ produz (as mesmas
+ * que ficam fora da base compacta)
+ */
+function unwrapChunk(
+  module: DistrictMap | { default: DistrictMap },
+): DistrictMap {
+  const districts =
+    'default' in module ? (module.default as DistrictMap) : module
+  const keys = Object.keys(districts)
+  const valid = keys.filter((key) => /^\d\.\d{2}\.\d{4}$/.test(key))
+
+  return valid.length === keys.length
+    ? districts
+    : valid.reduce((map, key) => {
+        map[key] = districts[key]
+        return map
+      }, {} as DistrictMap)
+}
@@ -0,0 +1,11 @@
+import { DistrictIndex } from '../types/district-index'
+import { createDistrictIndex } from './district-index'
+import packedDistricts from './districts-packed.json'
+
+/**
+ * Base embutida completa, no formato compacto gerado a partir dos arquivos
+ * de cada segmento (districts/J.json). Para carregar apenas os segmentos
+ * necessários, use createDistrictChunkStore.
+ */
+export const DEFAULT_DISTRICT_INDEX: DistrictIndex =
+  createDistrictIndex(packedDistricts)
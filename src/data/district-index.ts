@@ -0,0 +1,177 @@
+import { DistrictInfo, DistrictKey, DistrictMap } from '../types/district'
+import { DistrictIndex, PackedDistricts } from '../types/district-index'
+
+/**
+ * Versão do formato lido por createDistrictIndex
+ */
+const PACKED_FORMAT = 1
+
+/**
+ * Multiplicador da dispersão das chaves na tabela de índice (hash de Knuth)
+ */
+const HASH_MULTIPLIER = 2654435761
+
+/**
+ * Converte a chave J.CT.OOOO no número JCTOOOO
+ * @returns Chave numérica ou null se a chave estiver fora do formato
+ */
+function encodeDistrictKey(key: DistrictKey): number | null {
+  if (key.length !== 9 || key.charAt(1) !== '.' || key.charAt(4) !== '.') {
+    return null
+  }
+
+  let numericKey = 0
+  for (let position = 0; position < 9; position++) {
+    if (position === 1 || position === 4) {
+      continue
+    }
+    const digit = key.charCodeAt(position) - 48
+    if (digit < 0 || digit > 9) {
+      return null
+    }
+    numericKey = numericKey * 10 + digit
+  }
+
+  return numericKey
+}
+
+/**
+ * Converte o número JCTOOOO de volta na chave J.CT.OOOO
+ */
+function decodeDistrictKey(numericKey: number): DistrictKey {
+  const digits = String(numericKey).padStart(7, '0')
+  return `${digits.charAt(0)}.${digits.substring(1, 3)}.${digits.substring(3)}`
+}
+
+/**
+ * Posição inicial da chave na tabela de índice (capacidade potência de 2)
+ */
+function hashSlot(numericKey: number, mask: number): number {
+  return (Math.imul(numericKey, HASH_MULTIPLIER) >>> 0) & mask
+}
+
+/**
+ * Cria o índice de consulta de uma base de distritos codificada
+ *
+ * As chaves e os valores são copiados para arrays tipados e as chaves
+ * numéricas, indexadas em uma tabela de dispersão, uma única vez. Cada
+ * distrito é decodificado (e congelado) na primeira consulta e reaproveitado
+ * nas seguintes.
+ *
+ * @param packed Base codificada (ver scripts/build-district-index.js)
+ * @returns Índice com busca O(1) pela chave
+ * @throws Error se o formato não for suportado ou os dados forem inconsistentes
+ *
+ * @example
+ * ```typescript
+ * const index = createDistrictIndex(packed)
+ * index.get('8.26.0158') // { sourceUnit: "São Paulo", uf: "SP", district: "São Paulo" }
+ * ```
+ */
+export function createDistrictIndex(packed: PackedDistricts): DistrictIndex {
+  const { strings, periods } = packed
+
+  if (packed.format !== PACKED_FORMAT) {
+    throw new Error(
+      `Formato da base de distritos não suportado: ${packed.format}. Esperado: ${PACKED_FORMAT}`,
+    )
+  }
+  if (packed.values.length !== packed.keys.length * 3) {
+    throw new Error(
+      'Base de distritos inconsistente: esperados 3 valores por chave',
+    )
+  }
+
+  const size = packed.keys.length
+  const keys = new Int32Array(size)
+  const values =
+    strings.length <= 0x10000
+      ? Uint16Array.from(packed.values)
+      : Uint32Array.from(packed.values)
+
+  // Tabela com no máximo 50% de ocupação; cada posição guarda linha + 1
+  let capacity = 1
+  while (capacity < size * 2) {
+    capacity *= 2
+  }
+  const mask = capacity - 1
+  const slots = new Int32Array(capacity)
+
+  let numericKey = 0
+  for (let row = 0; row < size; row++) {
+    numericKey += packed.keys[row]
+    keys[row] = numericKey
+
+    let slot = hashSlot(numericKey, mask)
+    while (slots[slot] !== 0) {
+      slot = (slot + 1) & mask
+    }
+    slots[slot] = row + 1
+  }
+
+  const decoded = new Array<DistrictInfo | undefined>(size)
+  const rowPeriods = new Map<number, number>()
+  for (let offset = 0; offset < periods.length; offset += 3) {
+    rowPeriods.set(periods[offset], offset)
+  }
+
+  const findRow = (key: DistrictKey): number => {
+    const target = encodeDistrictKey(key)
+    if (target === null) {
+      return -1
+    }
+
+    for (
+      let slot = hashSlot(target, mask);
+      slots[slot] !== 0;
+      slot = (slot + 1) & mask
+    ) {
+      if (keys[slots[slot] - 1] === target) {
+        return slots[slot] - 1
+      }
+    }
+
+    return -1
+  }
+
+  const decode = (row: number): DistrictInfo => {
+    const cached = decoded[row]
+    if (cached) {
+      return cached
+    }
+
+    const info: DistrictInfo = {
+      sourceUnit: strings[values[row * 3]],
+      uf: strings[values[row * 3 + 1]],
+      district: strings[values[row * 3 + 2]],
+    }
+
+    const offset = rowPeriods.get(row)
+    if (offset !== undefined) {
+      if (periods[offset + 1] !== -1) {
+        info.validFrom = strings[periods[offset + 1]]
+      }
+      if (periods[offset + 2] !== -1) {
+        info.validUntil = strings[periods[offset + 2]]
+      }
+    }
+
+    decoded[row] = Object.freeze(info)
+    return info
+  }
+
+  return {
+    size,
+    get: (key) => {
+      const row = findRow(key)
+      return row === -1 ? null : decode(row)
+    },
+    has: (key) => findRow(key) !== -1,
+    keys: () => Array.from(keys, decodeDistrictKey),
+    toMap: () =>
+      keys.reduce((map, key, row) => {
+        map[decodeDistrictKey(key)] = decode(row)
+        return map
+      }, {} as DistrictMap),
+  }
+}
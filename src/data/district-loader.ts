@@ -0,0 +1,357 @@
+import { BrazilianStates, DistrictInfo, DistrictKey } from '../types/district'
+import {
+  DistrictConflict,
+  DistrictTableField,
+  DistrictTableFormat,
+  DistrictTableIssue,
+  DistrictTableOptions,
+  DistrictTableResult,
+} from '../types/district-table'
+import { DEFAULT_DISTRICT_REGISTRY } from './district-registry'
+import { generateDistrictKey, isValidDistrictKey } from './districts'
+import {
+  detectTableFormat,
+  isRecord,
+  matchColumns,
+  parseCSVRows,
+  parseTableDate,
+  readCell,
+  TableRow,
+} from '../utils/table'
+
+/**
+ * Cabeçalhos aceitos para cada campo, já normalizados (minúsculas, sem
+ * acentos, "_" no lugar de espaços). Inclui os nomes de campo de
+ * districts/J.json, o que permite reimportar a própria base.
+ */
+const DEFAULT_COLUMNS: Record<DistrictTableField, string[]> = {
+  key: ['key', 'chave', 'codigo_cnj'],
+  segment: ['segment', 'segmento', 'justica', 'j'],
+  court: ['court', 'tribunal', 'codigo_tribunal', 'tr'],
+  sourceUnitCode: [
+    'sourceunitcode',
+    'origem',
+    'codigo_origem',
+    'unidade_origem',
+    'oooo',
+  ],
+  sourceUnit: [
+    'sourceunit',
+    'nome',
+    'nome_unidade',
+    'nome_da_unidade',
+    'unidade',
+    'serventia',
+    'nome_serventia',
+    'nome_da_serventia',
+    'comarca',
+  ],
+  uf: ['uf', 'sigla_uf'],
+  district: ['district', 'distrito'],
+  validFrom: ['validfrom', 'inicio_vigencia', 'data_instalacao'],
+  validUntil: ['validuntil', 'fim_vigencia', 'data_extincao'],
+}
+
+/**
+ * Campos comparados com a base
+ */
+const COMPARED_FIELDS: Array<keyof DistrictInfo> = [
+  'sourceUnit',
+  'uf',
+  'district',
+  'validFrom',
+  'validUntil',
+]
+
+/**
+ * Converte uma tabela de unidades judiciárias do CNJ em distritos
+ *
+ * Aceita CSV (com cabeçalho) ou JSON — lista de objetos ou mapa indexado por
+ * chave, como os arquivos districts/J.json. A chave vem da coluna `key` ("8.26.0100" ou
+ * "8260100") ou das colunas de segmento, tribunal e origem, completadas com
+ * zeros à esquerda. Linhas com chave fora do formato de generateDistrictKey,
+ * sem nome, com UF desconhecida ou com datas de vigência inválidas são
+ * descartadas e relatadas em `issues`. Datas no formato DD/MM/AAAA das tabelas
+ * do CNJ são convertidas para ISO ("AAAA-MM-DD").
+ * Quando a coluna de distrito não existe, usa-se o nome do estado da UF.
+ *
+ * @param content Conteúdo da tabela
+ * @param options Formato, separador, nomes de colunas e base de comparação
+ * @returns Distritos importados e comparação com a base
+ * @throws Error se o JSON for inválido ou faltar uma coluna obrigatória
+ *
+ * @example
+ * ```typescript
+ * const csv = 'segmento;tribunal;origem;nome;uf\n8;26;100;São Paulo - Foro Central;SP'
+ * const result = parseDistrictTable(csv)
+ * console.log(result.conflicts[0].fields) // ["sourceUnit"]
+ *
+ * const registry = DistrictRegistry.fromDefaults().extend(result.districts)
+ * ```
+ */
+export function parseDistrictTable(
+  content: string,
+  options: DistrictTableOptions = {},
+): DistrictTableResult {
+  const text = content.replace(/^\uFEFF/, '')
+  const format = options.format || detectTableFormat(text)
+  const rows =
+    format === 'json'
+      ? parseJSONRows(text)
+      : parseCSVRows(text, options.separator)
+  const columns = resolveColumns(rows, options.columns)
+  const base = options.base || DEFAULT_DISTRICT_REGISTRY
+
+  const result: DistrictTableResult = {
+    districts: {},
+    added: [],
+    unchanged: [],
+    conflicts: [],
+    issues: [],
+  }
+
+  rows.forEach(({ row, values }) => {
+    const read = (field: DistrictTableField): string =>
+      readCell(values, columns[field])
+
+    const key = buildKey(read)
+    if (!key) {
+      result.issues.push({
+        row,
+        code: 'INVALID_KEY',
+        message: 'Chave de distrito ausente ou fora do formato J.TR.OOOO',
+      })
+      return
+    }
+
+    const issue = (
+      code: DistrictTableIssue['code'],
+      message: string,
+    ): DistrictTableIssue => ({ row, code, message, key })
+
+    if (Object.prototype.hasOwnProperty.call(result.districts, key)) {
+      result.issues.push(issue('DUPLICATE_KEY', `Chave repetida: ${key}`))
+      return
+    }
+
+    const sourceUnit = read('sourceUnit')
+    if (!sourceUnit) {
+      result.issues.push(
+        issue('MISSING_FIELD', 'Nome da unidade de origem ausente'),
+      )
+      return
+    }
+
+    const uf = read('uf').toUpperCase()
+    if (!Object.prototype.hasOwnProperty.call(BrazilianStates, uf)) {
+      result.issues.push(issue('INVALID_UF', `UF desconhecida: ${uf}`))
+      return
+    }
+
+    const dates = (['validFrom', 'validUntil'] as const).map((field) => {
+      const value = read(field)
+      return { value, date: value ? parseTableDate(value) : '' }
+    })
+    const invalidDate = dates.find(({ date }) => date === null)
+    if (invalidDate) {
+      result.issues.push(
+        issue(
+          'INVALID_DATE',
+          `Data de vigência inválida: ${invalidDate.value}`,
+        ),
+      )
+      return
+    }
+
+    const [validFrom, validUntil] = dates.map(({ date }) => date || '')
+    if (validFrom && validUntil && validFrom > validUntil) {
+      result.issues.push(
+        issue(
+          'INVALID_DATE',
+          `Instalação posterior à extinção: ${validFrom} > ${validUntil}`,
+        ),
+      )
+      return
+    }
+
+    const info: DistrictInfo = {
+      sourceUnit,
+      uf,
+      district:
+        read('district') || BrazilianStates[uf as keyof typeof BrazilianStates],
+      ...(validFrom && { validFrom }),
+      ...(validUntil && { validUntil }),
+    }
+
+    result.districts[key] = info
+    compareWithBase(key, info, base.get(key), result)
+  })
+
+  return result
+}
+
+/**
+ * Lê e converte um arquivo de tabela de unidades judiciárias
+ *
+ * ⚠️ ATENÇÃO: Esta função funciona apenas no Node.js (servidor)
+ * Use parseDistrictTable() em ambientes browser.
+ *
+ * @param filePath Caminho do arquivo (.csv ou .json)
+ * @param options Opções de leitura (ver parseDistrictTable)
+ * @returns Distritos importados e comparação com a base
+ *
+ * @example
+ * ```typescript
+ * const result = await loadDistrictTable('./serventias.csv', { encoding: 'latin1' })
+ * console.log(result.added.length, result.conflicts.length, result.issues.length)
+ * ```
+ */
+export async function loadDistrictTable(
+  filePath: string,
+  options: DistrictTableOptions = {},
+): Promise<DistrictTableResult> {
+  if (typeof globalThis !== 'undefined' && 'window' in globalThis) {
+    throw new Error(
+      'loadDistrictTable() só funciona no Node.js. Use parseDistrictTable() para ambientes browser.',
+    )
+  }
+
+  const fs = await import('fs/promises')
+  const path = await import('path')
+
+  const { encoding = 'utf8' } = options
+  const content = await fs.readFile(filePath, encoding as BufferEncoding)
+  const extension = path.extname(filePath).toLowerCase()
+  const format: DistrictTableFormat | undefined =
+    options.format ||
+    (extension === '.json' ? 'json' : extension === '.csv' ? 'csv' : undefined)
+
+  return parseDistrictTable(content, { ...options, format })
+}
+
+/**
+ * Associa cada campo à coluna correspondente da tabela
+ * @throws Error se faltar o nome da unidade, a UF ou a chave
+ */
+function resolveColumns(
+  rows: TableRow[],
+  overrides: DistrictTableOptions['columns'] = {},
+): Partial<Record<DistrictTableField, string>> {
+  const columns = matchColumns(rows, DEFAULT_COLUMNS, overrides)
+
+  if (rows.length === 0) {
+    return columns
+  }
+
+  const hasKey =
+    columns.key !== undefined ||
+    (columns.segment !== undefined &&
+      columns.court !== undefined &&
+      columns.sourceUnitCode !== undefined)
+  const missing = [
+    ...(hasKey ? [] : ['key (ou segment, court e sourceUnitCode)']),
+    ...(columns.sourceUnit === undefined ? ['sourceUnit'] : []),
+    ...(columns.uf === undefined ? ['uf'] : []),
+  ]
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Coluna obrigatória ausente na tabela de distritos: ${missing.join(', ')}`,
+    )
+  }
+
+  return columns
+}
+
+/**
+ * Monta a chave J.TR.OOOO da linha, ou null se for inválida
+ */
+function buildKey(
+  read: (field: DistrictTableField) => string,
+): DistrictKey | null {
+  const rawKey = read('key')
+  let key: string
+
+  if (rawKey) {
+    key = /^\d{7}$/.test(rawKey)
+      ? generateDistrictKey(
+          rawKey.substring(0, 1),
+          rawKey.substring(1, 3),
+          rawKey.substring(3),
+        )
+      : rawKey
+  } else {
+    const parts = [read('segment'), read('court'), read('sourceUnitCode')]
+    if (parts.some((part) => !/^\d+$/.test(part))) {
+      return null
+    }
+    key = generateDistrictKey(
+      parts[0],
+      parts[1].padStart(2, '0'),
+      parts[2].padStart(4, '0'),
+    )
+  }
+
+  return isValidDistrictKey(key) ? key : null
+}
+
+/**
+ * Classifica o distrito importado em relação à base
+ */
+function compareWithBase(
+  key: DistrictKey,
+  imported: DistrictInfo,
+  bundled: DistrictInfo | null,
+  result: DistrictTableResult,
+): void {
+  if (!bundled) {
+    result.added.push(key)
+    return
+  }
+
+  const fields = COMPARED_FIELDS.filter(
+    (field) => (bundled[field] || '') !== (imported[field] || ''),
+  )
+
+  if (fields.length === 0) {
+    result.unchanged.push(key)
+  } else {
+    const conflict: DistrictConflict = { key, bundled, imported, fields }
+    result.conflicts.push(conflict)
+  }
+}
+
+/**
+ * Lê linhas de um JSON (lista de objetos ou mapa indexado por chave)
+ * @throws Error se o conteúdo não for um JSON válido
+ */
+function parseJSONRows(content: string): TableRow[] {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Tabela de distritos em JSON inválida: ${message}`)
+  }
+
+  if (Array.isArray(data)) {
+    return data.map((values, index) => ({
+      row: index + 1,
+      values: isRecord(values) ? values : {},
+    }))
+  }
+
+  if (isRecord(data)) {
+    return Object.keys(data).map((key, index) => {
+      const values = data[key]
+      return {
+        row: index + 1,
+        values: { ...(isRecord(values) ? values : {}), key },
+      }
+    })
+  }
+
+  throw new Error(
+    'Tabela de distritos em JSON inválida: esperado lista ou objeto',
+  )
+}
@@ -0,0 +1,185 @@
+import { DistrictInfo, DistrictKey, DistrictMap } from '../types/district'
+import { DistrictIndex } from '../types/district-index'
+import { DEFAULT_DISTRICT_INDEX } from './district-data'
+
+/**
+ * Registro de distritos/comarcas com escopo de instância
+ *
+ * Cada registro tem sua própria cópia dos dados: alterações feitas em um
+ * registro (extend, override) não afetam os demais. Depois de `freeze()`, o
+ * registro fica imutável; use `fork()` para derivar uma cópia editável.
+ *
+ * Registros criados com `fromDefaults()` consultam a base embutida pelo
+ * índice compacto e guardam apenas os distritos incluídos ou alterados.
+ *
+ * @example
+ * ```typescript
+ * // Correções de um cliente, sem efeito global
+ * const tenant = DistrictRegistry.fromDefaults()
+ *   .override('8.26.0158', { sourceUnit: 'Nome Corrigido' })
+ *   .extend({ '8.26.9999': { sourceUnit: 'Unidade Teste', uf: 'SP', district: 'São Paulo' } })
+ *   .freeze()
+ *
+ * analyzeCNJ('0001327-64.2018.8.26.0158', { districts: tenant }).detailed.district
+ * // "Nome Corrigido"
+ * ```
+ */
+export class DistrictRegistry {
+  private readonly entries: DistrictMap
+  private base: DistrictIndex | null = null
+  private frozen = false
+
+  /**
+   * @param entries Distritos iniciais, indexados por segment.court.sourceUnit
+   */
+  constructor(entries: DistrictMap = {}) {
+    this.entries = { ...entries }
+  }
+
+  /**
+   * Cria um registro editável com a base embutida de distritos
+   */
+  static fromDefaults(): DistrictRegistry {
+    const registry = new DistrictRegistry()
+    registry.base = DEFAULT_DISTRICT_INDEX
+    return registry
+  }
+
+  /** Indica se o registro está congelado */
+  get isFrozen(): boolean {
+    return this.frozen
+  }
+
+  /** Quantidade de distritos no registro */
+  get size(): number {
+    return this.keys().length
+  }
+
+  /**
+   * Busca informações de distrito por chave
+   */
+  get(key: DistrictKey): DistrictInfo | null {
+    if (Object.prototype.hasOwnProperty.call(this.entries, key)) {
+      return this.entries[key]
+    }
+    return this.base ? this.base.get(key) : null
+  }
+
+  /**
+   * Verifica se existe distrito para uma chave
+   */
+  has(key: DistrictKey): boolean {
+    return this.get(key) !== null
+  }
+
+  /**
+   * Lista as chaves do registro
+   */
+  keys(): DistrictKey[] {
+    const own = Object.keys(this.entries)
+    const { base } = this
+    return base ? base.keys().concat(own.filter((key) => !base.has(key))) : own
+  }
+
+  /**
+   * Lista os distritos do registro
+   */
+  values(): DistrictInfo[] {
+    return this.keys().map((key) => this.get(key) as DistrictInfo)
+  }
+
+  /**
+   * Busca distritos por UF
+   */
+  getByUF(uf: string): DistrictInfo[] {
+    return this.getKeysByUF(uf).map((key) => this.get(key) as DistrictInfo)
+  }
+
+  /**
+   * Busca chaves de distritos por UF
+   */
+  getKeysByUF(uf: string): DistrictKey[] {
+    return this.keys().filter((key) => this.get(key)?.uf === uf.toUpperCase())
+  }
+
+  /**
+   * Busca distritos por segmento
+   */
+  getBySegment(segment: string): DistrictInfo[] {
+    return this.keys()
+      .filter((key) => key.startsWith(`${segment}.`))
+      .map((key) => this.get(key) as DistrictInfo)
+  }
+
+  /**
+   * Adiciona distritos, substituindo os que já existirem com a mesma chave
+   * @param entries Distritos indexados por segment.court.sourceUnit
+   * @returns O próprio registro, para encadeamento
+   * @throws Error se o registro estiver congelado
+   */
+  extend(entries: DistrictMap): this {
+    this.assertMutable()
+    Object.keys(entries).forEach((key) => {
+      this.entries[key] = entries[key]
+    })
+    return this
+  }
+
+  /**
+   * Corrige campos de um distrito existente
+   * @param key Chave do distrito
+   * @param changes Campos a substituir
+   * @returns O próprio registro, para encadeamento
+   * @throws Error se o registro estiver congelado ou o distrito não existir
+   */
+  override(key: DistrictKey, changes: Partial<DistrictInfo>): this {
+    this.assertMutable()
+    const current = this.get(key)
+    if (!current) {
+      throw new Error(`Distrito não encontrado no registro: ${key}`)
+    }
+    this.entries[key] = { ...current, ...changes }
+    return this
+  }
+
+  /**
+   * Congela o registro (e cada distrito), impedindo novas alterações
+   * @returns O próprio registro
+   */
+  freeze(): this {
+    if (!this.frozen) {
+      Object.keys(this.entries).forEach((key) =>
+        Object.freeze(this.entries[key]),
+      )
+      Object.freeze(this.entries)
+      this.frozen = true
+    }
+    return this
+  }
+
+  /**
+   * Cria uma cópia editável do registro
+   */
+  fork(): DistrictRegistry {
+    const registry = new DistrictRegistry(this.entries)
+    registry.base = this.base
+    return registry
+  }
+
+  /**
+   * Impede alterações em registros congelados
+   */
+  private assertMutable(): void {
+    if (this.frozen) {
+      throw new Error(
+        'Registro de distritos congelado: use fork() para criar uma cópia editável',
+      )
+    }
+  }
+}
+
+/**
+ * Registro padrão, congelado, com a base embutida de distritos
+ */
+export const DEFAULT_DISTRICT_REGISTRY: DistrictRegistry =
+  DistrictRegistry.fromDefaults().freeze()
@@ -1,18 +1,70 @@
 import { DistrictInfo, DistrictMap } from '../types/district'
-import districtsData from './districts.json'
+import { DEFAULT_DISTRICT_REGISTRY, DistrictRegistry } from './district-registry'
+import { isValidSegmentCode } from './segments'
+
+/**
+ * Registro usado pelas funções deste módulo; começa como o registro padrão
+ * congelado e só é substituído por uma cópia na primeira chamada a addDistrict
+ */
+let globalRegistry: DistrictRegistry = DEFAULT_DISTRICT_REGISTRY
 
 /**
  * Base de dados completa de distritos/comarcas brasileiras
- * Convertida com 9.803 distritos
+ * Convertida com 9.801 distritos
  * Cobrindo todos os 27 estados brasileiros
+ *
+ * Visão somente leitura do registro global (base embutida e distritos
+ * incluídos via addDistrict): cada distrito é decodificado do índice compacto
+ * apenas quando acessado, e importar o pacote não monta o mapa completo.
+ * Atribuições são rejeitadas (TypeError em modo estrito); para dados
+ * próprios, use um DistrictRegistry.
+ */
+export const DISTRICTS: Readonly<DistrictMap> = new Proxy<DistrictMap>(
+  {},
+  {
+    get(target, property) {
+      return typeof property === 'string' && globalRegistry.has(property)
+        ? globalRegistry.get(property)
+        : Reflect.get(target, property)
+    },
+    has(target, property) {
+      return (
+        (typeof property === 'string' && globalRegistry.has(property)) ||
+        Reflect.has(target, property)
+      )
+    },
+    ownKeys() {
+      return globalRegistry.keys()
+    },
+    getOwnPropertyDescriptor(target, property) {
+      return typeof property === 'string' && globalRegistry.has(property)
+        ? {
+            value: globalRegistry.get(property),
+            writable: false,
+            enumerable: true,
+            configurable: true,
+          }
+        : undefined
+    },
+    set: () => false,
+    defineProperty: () => false,
+    deleteProperty: () => false,
+  },
+)
+
+/**
+ * Obtém o registro usado quando nenhum é informado (registro padrão acrescido
+ * dos distritos incluídos via addDistrict)
  */
-export const DISTRICTS: DistrictMap = districtsData
+export function getGlobalDistrictRegistry(): DistrictRegistry {
+  return globalRegistry
+}
 
 /**
  * Busca informações de distrito por chave
  */
 export function getDistrictInfo(key: string): DistrictInfo | null {
-  return DISTRICTS[key] || null
+  return globalRegistry.get(key)
 }
 
 /**
@@ -26,44 +78,61 @@ export function generateDistrictKey(
   return `${segment}.${court}.${sourceUnit}`
 }
 
+/**
+ * Verifica se a chave segue o formato de generateDistrictKey (J.CT.OOOO),
+ * com segmento válido
+ */
+export function isValidDistrictKey(key: string): boolean {
+  return /^\d\.\d{2}\.\d{4}$/.test(key) && isValidSegmentCode(key.charAt(0))
+}
+
 /**
  * Busca distritos por UF
  */
 export function getDistrictsByUF(uf: string): DistrictInfo[] {
-  return Object.keys(DISTRICTS)
-    .map((key) => DISTRICTS[key])
-    .filter((district) => district.uf === uf.toUpperCase())
+  return globalRegistry.getByUF(uf)
+}
+
+/**
+ * Busca chaves de distritos por UF
+ */
+export function getDistrictKeysByUF(uf: string): string[] {
+  return globalRegistry.getKeysByUF(uf)
 }
 
 /**
  * Busca distritos por segmento
  */
 export function getDistrictsBySegment(segment: string): DistrictInfo[] {
-  return Object.keys(DISTRICTS)
-    .filter((key) => key.startsWith(`${segment}.`))
-    .map((key) => DISTRICTS[key])
+  return globalRegistry.getBySegment(segment)
 }
 
 /**
- * Adiciona novo distrito à base (para extensão futura)
+ * Adiciona novo distrito à base global do processo
+ *
+ * @deprecated Afeta todos os chamadores do processo. Prefira um
+ * DistrictRegistry próprio, informado em `options.districts`.
  */
 export function addDistrict(key: string, district: DistrictInfo): void {
-  DISTRICTS[key] = district
+  if (globalRegistry.isFrozen) {
+    globalRegistry = globalRegistry.fork()
+  }
+  globalRegistry.extend({ [key]: district })
 }
 
 /**
  * Verifica se existe distrito para uma chave
  */
 export function hasDistrict(key: string): boolean {
-  return key in DISTRICTS
+  return globalRegistry.has(key)
 }
 
 /**
  * Estatísticas da base de dados
  */
 export function getDistrictsStats() {
-  const keys = Object.keys(DISTRICTS)
-  const ufs = new Set(Object.values(DISTRICTS).map((d) => d.uf))
+  const keys = globalRegistry.keys()
+  const ufs = new Set(globalRegistry.values().map((d) => d.uf))
 
   return {
     totalDistricts: keys.length,
@@ -0,0 +1,295 @@
+import {
+  Holiday,
+  HolidayTableField,
+  HolidayTableIssue,
+  HolidayTableOptions,
+  HolidayTableResult,
+} from '../types/deadline'
+import {
+  detectTableFormat,
+  isExistingDate,
+  isRecord,
+  matchColumns,
+  parseCSVRows,
+  parseTableDate,
+  readCell,
+} from '../utils/table'
+import { isValidDistrictKey } from './districts'
+
+/**
+ * Cabeçalhos aceitos para cada campo, já normalizados
+ */
+const DEFAULT_COLUMNS: Record<HolidayTableField, string[]> = {
+  key: ['key', 'chave', 'abrangencia', 'codigo_cnj'],
+  name: ['name', 'nome', 'feriado', 'descricao'],
+  date: ['date', 'data'],
+  easterOffset: ['easteroffset', 'dias_pascoa', 'deslocamento_pascoa'],
+  validFrom: ['validfrom', 'inicio_vigencia'],
+  validUntil: ['validuntil', 'fim_vigencia'],
+}
+
+/**
+ * Converte uma tabela de feriados locais
+ *
+ * Aceita CSV com cabeçalho — uma linha por feriado, com a chave do segmento
+ * ("4"), do tribunal ("8.26") ou da comarca ("8.26.0158") — ou JSON no
+ * formato HolidayTable. Datas podem vir em ISO ("MM-DD", "AAAA-MM-DD") ou
+ * no formato DD/MM e DD/MM/AAAA, e são convertidas para ISO.
+ *
+ * @param content Conteúdo da tabela
+ * @param options Formato, separador e nomes de colunas
+ * @returns Tabela pronta para `options.holidayTable` e linhas descartadas
+ * @throws Error se o JSON for inválido ou faltar a coluna de chave ou nome
+ *
+ * @example
+ * ```typescript
+ * const csv = 'chave;nome;data\n8.26.0158;Aniversário da cidade;01/08'
+ * const { table } = parseHolidayTable(csv)
+ * const holidayTable = mergeHolidayTables(LOCAL_HOLIDAYS, table)
+ * computeDeadline('0001327-64.2018.8.26.0158', '2024-07-31', 1, { holidayTable })
+ * // dueDate: "2024-08-02"
+ * ```
+ */
+export function parseHolidayTable(
+  content: string,
+  options: HolidayTableOptions = {},
+): HolidayTableResult {
+  const text = content.replace(/^\uFEFF/, '')
+  const format = options.format || detectTableFormat(text)
+  const result: HolidayTableResult = { table: {}, issues: [] }
+
+  if (format === 'json') {
+    readJSONTable(text, result)
+    return result
+  }
+
+  const rows = parseCSVRows(text, options.separator)
+  const columns = matchColumns(rows, DEFAULT_COLUMNS, options.columns)
+
+  const missing = (['key', 'name'] as const).find(
+    (field) => columns[field] === undefined,
+  )
+  if (rows.length > 0 && missing) {
+    throw new Error(
+      `Coluna obrigatória ausente na tabela de feriados: ${missing}`,
+    )
+  }
+
+  rows.forEach(({ row, values }) => {
+    const read = (field: HolidayTableField): string =>
+      readCell(values, columns[field])
+
+    addHoliday(result, row, read('key'), {
+      name: read('name'),
+      date: read('date'),
+      easterOffset: read('easterOffset'),
+      validFrom: read('validFrom'),
+      validUntil: read('validUntil'),
+    })
+  })
+
+  return result
+}
+
+/**
+ * Lê e converte um arquivo de feriados locais
+ *
+ * ⚠️ ATENÇÃO: Esta função funciona apenas no Node.js (servidor)
+ * Use parseHolidayTable() em ambientes browser.
+ *
+ * @param filePath Caminho do arquivo (.csv ou .json)
+ * @param options Opções de leitura (ver parseHolidayTable)
+ * @returns Tabela pronta para `options.holidayTable` e linhas descartadas
+ *
+ * @example
+ * ```typescript
+ * const { table, issues } = await loadHolidayTable('./feriados-tjsp.csv')
+ * computeDeadline(cnj, '2024-07-31', 1, {
+ *   holidayTable: mergeHolidayTables(LOCAL_HOLIDAYS, table),
+ * })
+ * ```
+ */
+export async function loadHolidayTable(
+  filePath: string,
+  options: HolidayTableOptions = {},
+): Promise<HolidayTableResult> {
+  if (typeof globalThis !== 'undefined' && 'window' in globalThis) {
+    throw new Error(
+      'loadHolidayTable() só funciona no Node.js. Use parseHolidayTable() para ambientes browser.',
+    )
+  }
+
+  const fs = await import('fs/promises')
+  const path = await import('path')
+
+  const { encoding = 'utf8' } = options
+  const content = await fs.readFile(filePath, encoding as BufferEncoding)
+  const extension = path.extname(filePath).toLowerCase()
+  const format =
+    options.format ||
+    (extension === '.json' ? 'json' : extension === '.csv' ? 'csv' : undefined)
+
+  return parseHolidayTable(content, { ...options, format })
+}
+
+/**
+ * Campos de um feriado como lidos da tabela
+ */
+interface RawHoliday {
+  name: string
+  date: string
+  easterOffset: string
+  validFrom: string
+  validUntil: string
+}
+
+/**
+ * Valida e normaliza um feriado, acumulando-o na chave ou registrando o
+ * problema encontrado
+ */
+function addHoliday(
+  result: HolidayTableResult,
+  row: number,
+  key: string,
+  raw: RawHoliday,
+): void {
+  if (!isValidHolidayKey(key)) {
+    result.issues.push(
+      issue(
+        row,
+        'INVALID_KEY',
+        `Chave de feriado fora dos formatos J, J.CT ou J.CT.OOOO: ${key}`,
+      ),
+    )
+    return
+  }
+
+  if (!raw.name) {
+    result.issues.push(
+      issue(row, 'MISSING_NAME', `Feriado sem nome na chave ${key}`),
+    )
+    return
+  }
+
+  const holiday: Holiday = { name: raw.name }
+
+  if (raw.date) {
+    const date = parseHolidayDate(raw.date)
+    if (!date) {
+      result.issues.push(invalidDate(row, raw.date))
+      return
+    }
+    holiday.date = date
+  } else if (/^[+-]?\d+$/.test(raw.easterOffset)) {
+    holiday.easterOffset = Number(raw.easterOffset)
+  } else {
+    result.issues.push(invalidDate(row, raw.easterOffset))
+    return
+  }
+
+  for (const field of ['validFrom', 'validUntil'] as const) {
+    if (raw[field]) {
+      const date = parseTableDate(raw[field])
+      if (!date) {
+        result.issues.push(invalidDate(row, raw[field]))
+        return
+      }
+      holiday[field] = date
+    }
+  }
+
+  if (
+    holiday.validFrom &&
+    holiday.validUntil &&
+    holiday.validFrom > holiday.validUntil
+  ) {
+    result.issues.push(
+      issue(
+        row,
+        'INVALID_DATE',
+        `Vigência invertida: ${raw.validFrom} a ${raw.validUntil}`,
+      ),
+    )
+    return
+  }
+
+  result.table[key] = [...(result.table[key] || []), holiday]
+}
+
+/**
+ * Verifica se a chave é de segmento ("4"), tribunal ("8.26") ou comarca
+ */
+function isValidHolidayKey(key: string): boolean {
+  return /^\d(\.\d{2})?$/.test(key) || isValidDistrictKey(key)
+}
+
+/**
+ * Converte a data de um feriado para "MM-DD" (todo ano) ou "AAAA-MM-DD"
+ */
+function parseHolidayDate(value: string): string | null {
+  const iso = /^(\d{2})-(\d{2})$/.exec(value)
+  const local = /^(\d{2})\/(\d{2})$/.exec(value)
+  const [month, day] = iso
+    ? [iso[1], iso[2]]
+    : local
+      ? [local[2], local[1]]
+      : []
+
+  if (month && day) {
+    // Ano bissexto, para aceitar 29/02
+    return isExistingDate(2024, Number(month), Number(day))
+      ? `${month}-${day}`
+      : null
+  }
+
+  return parseTableDate(value)
+}
+
+/**
+ * Lê uma tabela JSON no formato HolidayTable, descartando entradas inválidas
+ * @throws Error se o conteúdo não for um JSON válido
+ */
+function readJSONTable(content: string, result: HolidayTableResult): void {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Tabela de feriados em JSON inválida: ${message}`)
+  }
+
+  if (!isRecord(data)) {
+    throw new Error('Tabela de feriados em JSON inválida: esperado objeto')
+  }
+
+  const table = data
+  let row = 0
+  Object.keys(table).forEach((key) => {
+    const holidays = table[key]
+    ;(Array.isArray(holidays) ? holidays : [holidays]).forEach((holiday) => {
+      const entry = isRecord(holiday) ? holiday : {}
+      const text = (value: unknown): string =>
+        value === undefined || value === null ? '' : String(value).trim()
+
+      addHoliday(result, ++row, key, {
+        name: text(entry.name),
+        date: text(entry.date),
+        easterOffset: text(entry.easterOffset),
+        validFrom: text(entry.validFrom),
+        validUntil: text(entry.validUntil),
+      })
+    })
+  })
+}
+
+function invalidDate(row: number, value: string): HolidayTableIssue {
+  return issue(row, 'INVALID_DATE', `Data de feriado inválida: ${value}`)
+}
+
+function issue(
+  row: number,
+  code: HolidayTableIssue['code'],
+  message: string,
+): HolidayTableIssue {
+  return { row, code, message }
+}
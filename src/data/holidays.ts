@@ -0,0 +1,84 @@
+import { Holiday, HolidayTable } from '../types/deadline'
+
+/**
+ * Feriados nacionais e feriados forenses móveis (calculados a partir da Páscoa)
+ */
+export const NATIONAL_HOLIDAYS: Holiday[] = [
+  { name: 'Confraternização Universal', date: '01-01' },
+  { name: 'Carnaval (segunda-feira)', easterOffset: -48 },
+  { name: 'Carnaval (terça-feira)', easterOffset: -47 },
+  { name: 'Sexta-feira Santa', easterOffset: -2 },
+  { name: 'Tiradentes', date: '04-21' },
+  { name: 'Dia do Trabalho', date: '05-01' },
+  { name: 'Corpus Christi', easterOffset: 60 },
+  { name: 'Independência do Brasil', date: '09-07' },
+  { name: 'Nossa Senhora Aparecida', date: '10-12' },
+  { name: 'Finados', date: '11-02' },
+  { name: 'Proclamação da República', date: '11-15' },
+  {
+    name: 'Dia Nacional de Zumbi e da Consciência Negra',
+    date: '11-20',
+    validFrom: '2024-01-01',
+  },
+  { name: 'Natal', date: '12-25' },
+]
+
+/**
+ * Feriados locais indexados por segmento ("4"), tribunal ("8.26")
+ * ou comarca ("8.26.0158")
+ *
+ * A tabela é imutável; feriados locais adicionais são informados por
+ * cálculo em `options.holidayTable` (ver parseHolidayTable e
+ * mergeHolidayTables).
+ */
+export const LOCAL_HOLIDAYS: Readonly<HolidayTable> = Object.freeze({
+  // Justiça Federal - Lei 5.010/1966, art. 62
+  '4': [
+    { name: 'Quarta-feira Santa', easterOffset: -4 },
+    { name: 'Quinta-feira Santa', easterOffset: -3 },
+    { name: 'Dia da Criação dos Cursos Jurídicos', date: '08-11' },
+    { name: 'Todos os Santos', date: '11-01' },
+    { name: 'Dia da Justiça', date: '12-08' },
+  ],
+  // TJRJ
+  '8.19': [{ name: 'Dia de São Jorge', date: '04-23' }],
+  // TJSP
+  '8.26': [{ name: 'Revolução Constitucionalista', date: '07-09' }],
+})
+
+/**
+ * Obtém os feriados locais cadastrados para uma chave
+ * @param key Segmento, tribunal (segment.court) ou comarca (segment.court.sourceUnit)
+ * @param table Tabela de feriados locais (padrão: LOCAL_HOLIDAYS)
+ * @returns Feriados cadastrados (vazio se não houver)
+ */
+export function getLocalHolidays(
+  key: string,
+  table: Readonly<HolidayTable> = LOCAL_HOLIDAYS,
+): Holiday[] {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : []
+}
+
+/**
+ * Combina tabelas de feriados locais, acumulando os feriados de cada chave
+ * @param tables Tabelas a combinar, em ordem
+ * @returns Nova tabela (as tabelas recebidas não são alteradas)
+ *
+ * @example
+ * ```typescript
+ * const { table } = await loadHolidayTable('./feriados-tjsp.csv')
+ * const holidayTable = mergeHolidayTables(LOCAL_HOLIDAYS, table)
+ * computeDeadline(cnj, '2024-07-31', 1, { holidayTable })
+ * ```
+ */
+export function mergeHolidayTables(
+  ...tables: Array<Readonly<HolidayTable>>
+): HolidayTable {
+  const merged: HolidayTable = {}
+  tables.forEach((table) =>
+    Object.keys(table).forEach((key) => {
+      merged[key] = [...(merged[key] || []), ...table[key]]
+    }),
+  )
+  return merged
+}
@@ -0,0 +1,243 @@
+import {
+  DistrictIBGE,
+  IBGETable,
+  IBGETableField,
+  IBGETableIssue,
+  IBGETableOptions,
+  IBGETableResult,
+} from '../types/ibge'
+import {
+  detectTableFormat,
+  isRecord,
+  matchColumns,
+  normalizeLabel,
+  parseCSVRows,
+  readCell,
+} from '../utils/table'
+import { isValidDistrictKey } from './districts'
+import { getIBGEUF } from './ibge'
+
+/**
+ * Cabeçalhos aceitos para cada campo, já normalizados. Inclui os da DTB
+ * (Divisão Territorial Brasileira) publicada pelo IBGE.
+ */
+const DEFAULT_COLUMNS: Record<IBGETableField, string[]> = {
+  code: [
+    'code',
+    'codigo_municipio_completo',
+    'codigo_ibge',
+    'cod_ibge',
+    'ibge',
+    'codigo_municipio',
+  ],
+  municipality: ['municipality', 'nome_municipio', 'municipio', 'nome'],
+  key: ['key', 'chave', 'codigo_cnj'],
+  seat: ['seat', 'sede'],
+}
+
+/**
+ * Valores que marcam o município sede
+ */
+const SEAT_VALUES = ['1', 's', 'sim', 'x', 'true', 'yes']
+
+/**
+ * Converte uma tabela de municípios do IBGE
+ *
+ * Aceita CSV com cabeçalho — a DTB do IBGE (código e nome do município) ou
+ * uma tabela de jurisdição com a chave do distrito por linha — ou JSON no
+ * formato IBGETable. Nas tabelas de jurisdição, cada linha vincula um
+ * município ao distrito; a sede é a linha marcada na coluna `sede` ou, sem
+ * marcação, a primeira do distrito. A UF é derivada do próprio código.
+ *
+ * @param content Conteúdo da tabela
+ * @param options Formato, separador, nomes de colunas e versão
+ * @returns Tabela pronta para `options.ibge` e linhas descartadas
+ * @throws Error se o JSON for inválido ou faltar a coluna de código
+ *
+ * @example
+ * ```typescript
+ * const csv = 'chave;codigo_ibge;municipio;sede\n8.26.0001;3550308;São Paulo;S'
+ * const { table } = parseIBGETable(csv, { version: '2024-07' })
+ * analyzeCNJ('0000001-00.2020.8.26.0001', { ibge: table }).ibge?.seat // "3550308"
+ * ```
+ */
+export function parseIBGETable(
+  content: string,
+  options: IBGETableOptions = {},
+): IBGETableResult {
+  const text = content.replace(/^\uFEFF/, '')
+  const format = options.format || detectTableFormat(text)
+  const result: IBGETableResult = {
+    table: {
+      version: options.version || 'local',
+      municipalities: {},
+      districts: {},
+    },
+    issues: [],
+  }
+
+  if (format === 'json') {
+    readJSONTable(text, result)
+    return result
+  }
+
+  const rows = parseCSVRows(text, options.separator)
+  const columns = matchColumns(rows, DEFAULT_COLUMNS, options.columns)
+
+  if (rows.length > 0 && columns.code === undefined) {
+    throw new Error('Coluna obrigatória ausente na tabela do IBGE: code')
+  }
+
+  const seats = new Set<string>()
+  rows.forEach(({ row, values }) => {
+    const read = (field: IBGETableField): string =>
+      readCell(values, columns[field])
+    const code = read('code')
+    const key = read('key')
+
+    if (!getIBGEUF(code)) {
+      result.issues.push(invalidCode(row, code))
+      return
+    }
+
+    const name = read('municipality')
+    if (name) {
+      result.table.municipalities[code] = name
+    }
+
+    if (!key) {
+      return
+    }
+
+    if (!isValidDistrictKey(key)) {
+      result.issues.push(invalidKey(row, key))
+      return
+    }
+
+    const isSeat = SEAT_VALUES.indexOf(normalizeLabel(read('seat'))) !== -1
+    const district = result.table.districts[key]
+    if (!district) {
+      result.table.districts[key] = { seat: code, municipalities: [code] }
+    } else {
+      if (district.municipalities.indexOf(code) === -1) {
+        district.municipalities.push(code)
+      }
+      if (isSeat && !seats.has(key)) {
+        district.seat = code
+      }
+    }
+    if (isSeat) {
+      seats.add(key)
+    }
+  })
+
+  return result
+}
+
+/**
+ * Lê e converte um arquivo de municípios do IBGE
+ *
+ * ⚠️ ATENÇÃO: Esta função funciona apenas no Node.js (servidor)
+ * Use parseIBGETable() em ambientes browser.
+ *
+ * @param filePath Caminho do arquivo (.csv ou .json)
+ * @param options Opções de leitura (ver parseIBGETable)
+ * @returns Tabela pronta para `options.ibge` e linhas descartadas
+ *
+ * @example
+ * ```typescript
+ * const { table } = await loadIBGETable('./RELATORIO_DTB_BRASIL_MUNICIPIO.csv', {
+ *   encoding: 'latin1',
+ * })
+ * const ibge = { ...table, districts: { ...IBGE_TABLE.districts, ...table.districts } }
+ * ```
+ */
+export async function loadIBGETable(
+  filePath: string,
+  options: IBGETableOptions = {},
+): Promise<IBGETableResult> {
+  if (typeof globalThis !== 'undefined' && 'window' in globalThis) {
+    throw new Error(
+      'loadIBGETable() só funciona no Node.js. Use parseIBGETable() para ambientes browser.',
+    )
+  }
+
+  const fs = await import('fs/promises')
+  const path = await import('path')
+
+  const { encoding = 'utf8' } = options
+  const content = await fs.readFile(filePath, encoding as BufferEncoding)
+  const extension = path.extname(filePath).toLowerCase()
+  const format =
+    options.format ||
+    (extension === '.json' ? 'json' : extension === '.csv' ? 'csv' : undefined)
+
+  return parseIBGETable(content, { ...options, format })
+}
+
+/**
+ * Lê uma tabela JSON no formato IBGETable, descartando entradas inválidas
+ * @throws Error se o conteúdo não for um JSON válido
+ */
+function readJSONTable(content: string, result: IBGETableResult): void {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Tabela do IBGE em JSON inválida: ${message}`)
+  }
+
+  if (!isRecord(data)) {
+    throw new Error('Tabela do IBGE em JSON inválida: esperado objeto')
+  }
+
+  const table: Partial<IBGETable> = data
+  const { municipalities, districts } = result.table
+  if (typeof table.version === 'string') {
+    result.table.version = table.version
+  }
+
+  Object.keys(table.municipalities || {}).forEach((code, index) => {
+    if (getIBGEUF(code)) {
+      municipalities[code] = String(table.municipalities?.[code])
+    } else {
+      result.issues.push(invalidCode(index + 1, code))
+    }
+  })
+
+  Object.keys(table.districts || {}).forEach((key, index) => {
+    const district: Partial<DistrictIBGE> = table.districts?.[key] || {}
+    const codes = Array.isArray(district.municipalities)
+      ? district.municipalities
+      : []
+    const seat = String(district.seat)
+
+    if (!isValidDistrictKey(key)) {
+      result.issues.push(invalidKey(index + 1, key))
+    } else if (!getIBGEUF(seat) || codes.some((code) => !getIBGEUF(code))) {
+      result.issues.push(invalidCode(index + 1, seat))
+    } else {
+      districts[key] = {
+        seat,
+        municipalities: codes.indexOf(seat) === -1 ? [seat, ...codes] : codes,
+      }
+    }
+  })
+}
+
+function invalidCode(row: number, code: string): IBGETableIssue {
+  return {
+    row,
+    code: 'INVALID_CODE',
+    message: `Código de município do IBGE inválido: ${code}`,
+  }
+}
+
+function invalidKey(row: number, key: string): IBGETableIssue {
+  return {
+    row,
+    code: 'INVALID_KEY',
+    message: `Chave de distrito fora do formato J.CT.OOOO: ${key}`,
+  }
+}
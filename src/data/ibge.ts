@@ -0,0 +1,126 @@
+import { DistrictIBGE, IBGECode, IBGETable } from '../types/ibge'
+
+/**
+ * UFs pelo código do IBGE (2 primeiros dígitos do código de município)
+ */
+export const IBGE_UF_CODES: Record<string, string> = {
+  '11': 'RO',
+  '12': 'AC',
+  '13': 'AM',
+  '14': 'RR',
+  '15': 'PA',
+  '16': 'AP',
+  '17': 'TO',
+  '21': 'MA',
+  '22': 'PI',
+  '23': 'CE',
+  '24': 'RN',
+  '25': 'PB',
+  '26': 'PE',
+  '27': 'AL',
+  '28': 'SE',
+  '29': 'BA',
+  '31': 'MG',
+  '32': 'ES',
+  '33': 'RJ',
+  '35': 'SP',
+  '41': 'PR',
+  '42': 'SC',
+  '43': 'RS',
+  '50': 'MS',
+  '51': 'MT',
+  '52': 'GO',
+  '53': 'DF',
+}
+
+/**
+ * Município de São Paulo
+ */
+const SAO_PAULO: DistrictIBGE = {
+  seat: '3550308',
+  municipalities: ['3550308'],
+}
+
+/**
+ * Tabela embutida mínima: 37 municípios (capitais e principais municípios
+ * paulistas) e vínculos explícitos só para os foros da Capital (TJSP), cujos
+ * nomes não são nomes de município. Não é a DTB: os demais distritos ficam
+ * sem vínculo ou com vínculo inferido pelo nome. Para sede e jurisdição de
+ * cada distrito, carregue a DTB do IBGE ou uma tabela de jurisdição com
+ * loadIBGETable.
+ */
+export const IBGE_TABLE: IBGETable = {
+  version: '2024-06-01',
+  municipalities: {
+    '1100205': 'Porto Velho',
+    '1200401': 'Rio Branco',
+    '1302603': 'Manaus',
+    '1400100': 'Boa Vista',
+    '1501402': 'Belém',
+    '1600303': 'Macapá',
+    '1721000': 'Palmas',
+    '2111300': 'São Luís',
+    '2211001': 'Teresina',
+    '2304400': 'Fortaleza',
+    '2408102': 'Natal',
+    '2507507': 'João Pessoa',
+    '2611606': 'Recife',
+    '2704302': 'Maceió',
+    '2800308': 'Aracaju',
+    '2927408': 'Salvador',
+    '3106200': 'Belo Horizonte',
+    '3205309': 'Vitória',
+    '3304557': 'Rio de Janeiro',
+    '3509502': 'Campinas',
+    '3518800': 'Guarulhos',
+    '3525904': 'Jundiaí',
+    '3534401': 'Osasco',
+    '3543402': 'Ribeirão Preto',
+    '3547809': 'Santo André',
+    '3548500': 'Santos',
+    '3548708': 'São Bernardo do Campo',
+    '3549904': 'São José dos Campos',
+    '3550308': 'São Paulo',
+    '3552205': 'Sorocaba',
+    '4106902': 'Curitiba',
+    '4205407': 'Florianópolis',
+    '4314902': 'Porto Alegre',
+    '5002704': 'Campo Grande',
+    '5103403': 'Cuiabá',
+    '5208707': 'Goiânia',
+    '5300108': 'Brasília',
+  },
+  districts: [
+    '0001', // Santana
+    '0002', // Santo Amaro
+    '0003', // Jabaquara
+    '0004', // Lapa
+    '0005', // São Miguel Paulista
+    '0006', // Penha de França
+    '0007', // Itaquera
+    '0008', // Tatuapé
+    '0009', // Vila Prudente
+    '0010', // Ipiranga
+    '0011', // Pinheiros
+    '0020', // Nossa Senhora do Ó
+    '0050', // Central
+    '0053', // Central
+    '0100', // Central
+  ].reduce(
+    (districts, sourceUnit) => {
+      districts[`8.26.${sourceUnit}`] = SAO_PAULO
+      return districts
+    },
+    {} as Record<string, DistrictIBGE>,
+  ),
+}
+
+/**
+ * Obtém a UF de um código de município do IBGE
+ * @returns Sigla da UF ou null se o código for inválido
+ */
+export function getIBGEUF(code: IBGECode): string | null {
+  return /^\d{7}$/.test(code)
+    ? IBGE_UF_CODES[code.substring(0, 2)] || null
+    : null
+}
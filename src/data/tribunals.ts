@@ -0,0 +1,316 @@
+import { SegmentCode } from '../types/segment'
+import { Tribunal, TribunalKey } from '../types/tribunal'
+import { ValidityPeriod } from '../types/validity'
+
+/**
+ * Todas as UFs, usadas pelos tribunais com jurisdição nacional
+ */
+const ALL_UFS = [
+  'AC',
+  'AL',
+  'AP',
+  'AM',
+  'BA',
+  'CE',
+  'DF',
+  'ES',
+  'GO',
+  'MA',
+  'MT',
+  'MS',
+  'MG',
+  'PA',
+  'PB',
+  'PR',
+  'PE',
+  'PI',
+  'RJ',
+  'RN',
+  'RS',
+  'RO',
+  'RR',
+  'SC',
+  'SE',
+  'SP',
+  'TO',
+]
+
+/**
+ * UFs na ordem dos códigos de tribunal da Justiça Estadual e Eleitoral
+ * [código, UF, nome com preposição, capital]
+ */
+const STATES: ReadonlyArray<[string, string, string, string]> = [
+  ['01', 'AC', 'do Acre', 'Rio Branco'],
+  ['02', 'AL', 'de Alagoas', 'Maceió'],
+  ['03', 'AP', 'do Amapá', 'Macapá'],
+  ['04', 'AM', 'do Amazonas', 'Manaus'],
+  ['05', 'BA', 'da Bahia', 'Salvador'],
+  ['06', 'CE', 'do Ceará', 'Fortaleza'],
+  ['07', 'DF', 'do Distrito Federal', 'Brasília'],
+  ['08', 'ES', 'do Espírito Santo', 'Vitória'],
+  ['09', 'GO', 'de Goiás', 'Goiânia'],
+  ['10', 'MA', 'do Maranhão', 'São Luís'],
+  ['11', 'MT', 'de Mato Grosso', 'Cuiabá'],
+  ['12', 'MS', 'de Mato Grosso do Sul', 'Campo Grande'],
+  ['13', 'MG', 'de Minas Gerais', 'Belo Horizonte'],
+  ['14', 'PA', 'do Pará', 'Belém'],
+  ['15', 'PB', 'da Paraíba', 'João Pessoa'],
+  ['16', 'PR', 'do Paraná', 'Curitiba'],
+  ['17', 'PE', 'de Pernambuco', 'Recife'],
+  ['18', 'PI', 'do Piauí', 'Teresina'],
+  ['19', 'RJ', 'do Rio de Janeiro', 'Rio de Janeiro'],
+  ['20', 'RN', 'do Rio Grande do Norte', 'Natal'],
+  ['21', 'RS', 'do Rio Grande do Sul', 'Porto Alegre'],
+  ['22', 'RO', 'de Rondônia', 'Porto Velho'],
+  ['23', 'RR', 'de Roraima', 'Boa Vista'],
+  ['24', 'SC', 'de Santa Catarina', 'Florianópolis'],
+  ['25', 'SE', 'de Sergipe', 'Aracaju'],
+  ['26', 'SP', 'de São Paulo', 'São Paulo'],
+  ['27', 'TO', 'do Tocantins', 'Palmas'],
+]
+
+/**
+ * Regiões da Justiça Federal [código, sede (UF), sede (cidade), UFs]
+ */
+const FEDERAL_REGIONS: ReadonlyArray<[string, string, string, string[]]> = [
+  [
+    '01',
+    'DF',
+    'Brasília',
+    [
+      'AC',
+      'AM',
+      'AP',
+      'BA',
+      'DF',
+      'GO',
+      'MA',
+      'MT',
+      'PA',
+      'PI',
+      'RO',
+      'RR',
+      'TO',
+    ],
+  ],
+  ['02', 'RJ', 'Rio de Janeiro', ['RJ', 'ES']],
+  ['03', 'SP', 'São Paulo', ['SP', 'MS']],
+  ['04', 'RS', 'Porto Alegre', ['RS', 'PR', 'SC']],
+  ['05', 'PE', 'Recife', ['PE', 'AL', 'CE', 'PB', 'RN', 'SE']],
+  ['06', 'MG', 'Belo Horizonte', ['MG']],
+]
+
+/**
+ * Regiões da Justiça do Trabalho [código, sede (UF), sede (cidade), UFs]
+ */
+const LABOR_REGIONS: ReadonlyArray<[string, string, string, string[]]> = [
+  ['01', 'RJ', 'Rio de Janeiro', ['RJ']],
+  ['02', 'SP', 'São Paulo', ['SP']],
+  ['03', 'MG', 'Belo Horizonte', ['MG']],
+  ['04', 'RS', 'Porto Alegre', ['RS']],
+  ['05', 'BA', 'Salvador', ['BA']],
+  ['06', 'PE', 'Recife', ['PE']],
+  ['07', 'CE', 'Fortaleza', ['CE']],
+  ['08', 'PA', 'Belém', ['PA', 'AP']],
+  ['09', 'PR', 'Curitiba', ['PR']],
+  ['10', 'DF', 'Brasília', ['DF', 'TO']],
+  ['11', 'AM', 'Manaus', ['AM', 'RR']],
+  ['12', 'SC', 'Florianópolis', ['SC']],
+  ['13', 'PB', 'João Pessoa', ['PB']],
+  ['14', 'RO', 'Porto Velho', ['RO', 'AC']],
+  ['15', 'SP', 'Campinas', ['SP']],
+  ['16', 'MA', 'São Luís', ['MA']],
+  ['17', 'ES', 'Vitória', ['ES']],
+  ['18', 'GO', 'Goiânia', ['GO']],
+  ['19', 'AL', 'Maceió', ['AL']],
+  ['20', 'SE', 'Aracaju', ['SE']],
+  ['21', 'RN', 'Natal', ['RN']],
+  ['22', 'PI', 'Teresina', ['PI']],
+  ['23', 'MT', 'Cuiabá', ['MT']],
+  ['24', 'MS', 'Campo Grande', ['MS']],
+]
+
+/**
+ * Circunscrições Judiciárias Militares [código, sede (UF), sede (cidade), UFs]
+ */
+const MILITARY_CIRCUITS: ReadonlyArray<[string, string, string, string[]]> = [
+  ['01', 'RJ', 'Rio de Janeiro', ['RJ', 'ES']],
+  ['02', 'SP', 'São Paulo', ['SP']],
+  ['03', 'RS', 'Porto Alegre', ['RS']],
+  ['04', 'MG', 'Juiz de Fora', ['MG']],
+  ['05', 'PR', 'Curitiba', ['PR', 'SC']],
+  ['06', 'BA', 'Salvador', ['BA', 'SE']],
+  ['07', 'PE', 'Recife', ['PE', 'RN', 'PB', 'AL']],
+  ['08', 'PA', 'Belém', ['PA', 'AP', 'MA']],
+  ['09', 'MS', 'Campo Grande', ['MS', 'MT']],
+  ['10', 'CE', 'Fortaleza', ['CE', 'PI']],
+  ['11', 'DF', 'Brasília', ['DF', 'GO', 'TO']],
+  ['12', 'AM', 'Manaus', ['AM', 'AC', 'RR', 'RO']],
+]
+
+/**
+ * Tribunais Militares estaduais [código, UF, nome com preposição, capital]
+ */
+const STATE_MILITARY_COURTS = STATES.filter(
+  ([, uf]) => ['MG', 'RS', 'SP'].indexOf(uf) !== -1,
+)
+
+/**
+ * Data de instalação dos tribunais e conselhos criados após 1998
+ * (ano de protocolo mais antigo aceito)
+ */
+const TRIBUNAL_VALIDITY: Record<TribunalKey, ValidityPeriod> = {
+  '2.00': { validFrom: '2005-06-14' }, // CNJ (EC 45/2004)
+  '5.90': { validFrom: '2005-06-15' }, // CSJT (EC 45/2004)
+  '4.06': { validFrom: '2022-08-19' }, // TRF6 (Lei 14.226/2021)
+}
+
+/**
+ * Tribunais e conselhos com sede em Brasília e jurisdição nacional
+ */
+function nationalTribunal(
+  segment: SegmentCode,
+  court: string,
+  acronym: string,
+  name: string,
+): Tribunal {
+  return {
+    segment,
+    court,
+    acronym,
+    name,
+    seat: { uf: 'DF', city: 'Brasília' },
+    ufs: ALL_UFS,
+  }
+}
+
+/**
+ * Registro completo de tribunais e conselhos, indexado por segment.court
+ */
+export const TRIBUNALS: Record<TribunalKey, Tribunal> = [
+  nationalTribunal(SegmentCode.STF, '00', 'STF', 'Supremo Tribunal Federal'),
+  nationalTribunal(
+    SegmentCode.CNJ,
+    '00',
+    'CNJ',
+    'Conselho Nacional de Justiça',
+  ),
+  nationalTribunal(
+    SegmentCode.STJ,
+    '00',
+    'STJ',
+    'Superior Tribunal de Justiça',
+  ),
+  nationalTribunal(SegmentCode.TRF, '90', 'CJF', 'Conselho da Justiça Federal'),
+  nationalTribunal(
+    SegmentCode.TRT,
+    '00',
+    'TST',
+    'Tribunal Superior do Trabalho',
+  ),
+  nationalTribunal(
+    SegmentCode.TRT,
+    '90',
+    'CSJT',
+    'Conselho Superior da Justiça do Trabalho',
+  ),
+  nationalTribunal(SegmentCode.TRE, '00', 'TSE', 'Tribunal Superior Eleitoral'),
+  nationalTribunal(SegmentCode.STM, '00', 'STM', 'Superior Tribunal Militar'),
+  ...FEDERAL_REGIONS.map(([court, uf, city, ufs]) => ({
+    segment: SegmentCode.TRF,
+    court,
+    acronym: `TRF${parseInt(court, 10)}`,
+    name: `Tribunal Regional Federal da ${parseInt(court, 10)}ª Região`,
+    seat: { uf, city },
+    ufs,
+  })),
+  ...LABOR_REGIONS.map(([court, uf, city, ufs]) => ({
+    segment: SegmentCode.TRT,
+    court,
+    acronym: `TRT${parseInt(court, 10)}`,
+    name: `Tribunal Regional do Trabalho da ${parseInt(court, 10)}ª Região`,
+    seat: { uf, city },
+    ufs,
+  })),
+  ...STATES.map(([court, uf, name, city]) => ({
+    segment: SegmentCode.TRE,
+    court,
+    acronym: `TRE-${uf}`,
+    name: `Tribunal Regional Eleitoral ${name}`,
+    seat: { uf, city },
+    ufs: [uf],
+  })),
+  ...MILITARY_CIRCUITS.map(([court, uf, city, ufs]) => ({
+    segment: SegmentCode.STM,
+    court,
+    acronym: `${parseInt(court, 10)}ª CJM`,
+    name: `${parseInt(court, 10)}ª Circunscrição Judiciária Militar`,
+    seat: { uf, city },
+    ufs,
+  })),
+  ...STATES.map(([court, uf, name, city]) => ({
+    segment: SegmentCode.TJ,
+    court,
+    acronym: uf === 'DF' ? 'TJDFT' : `TJ${uf}`,
+    name:
+      uf === 'DF'
+        ? 'Tribunal de Justiça do Distrito Federal e dos Territórios'
+        : `Tribunal de Justiça do Estado ${name}`,
+    seat: { uf, city },
+    ufs: [uf],
+  })),
+  ...STATE_MILITARY_COURTS.map(([court, uf, name, city]) => ({
+    segment: SegmentCode.TJM,
+    court,
+    acronym: `TJM${uf}`,
+    name: `Tribunal de Justiça Militar do Estado ${name}`,
+    seat: { uf, city },
+    ufs: [uf],
+  })),
+].reduce(
+  (tribunals, tribunal) => {
+    const key = generateTribunalKey(tribunal.segment, tribunal.court)
+    tribunals[key] = { ...tribunal, ...TRIBUNAL_VALIDITY[key] }
+    return tribunals
+  },
+  {} as Record<TribunalKey, Tribunal>,
+)
+
+/**
+ * Gera chave de tribunal no formato: segment.court
+ */
+export function generateTribunalKey(
+  segment: string | number,
+  court: string | number,
+): TribunalKey {
+  return `${parseInt(String(segment), 10)}.${String(court).padStart(2, '0')}`
+}
+
+/**
+ * Busca um tribunal pelo segmento e código do tribunal
+ * @param segment Código do segmento (J)
+ * @param court Código do tribunal (CT)
+ * @returns Tribunal ou null se a combinação não existir
+ */
+export function getTribunal(
+  segment: string | number,
+  court: string | number,
+): Tribunal | null {
+  return TRIBUNALS[generateTribunalKey(segment, court)] || null
+}
+
+/**
+ * Lista todos os tribunais do registro
+ */
+export function getAllTribunals(): Tribunal[] {
+  return Object.keys(TRIBUNALS).map((key) => TRIBUNALS[key])
+}
+
+/**
+ * Busca tribunais cuja jurisdição abrange a UF
+ */
+export function getTribunalsByUF(uf: string): Tribunal[] {
+  return getAllTribunals().filter(
+    (tribunal) => tribunal.ufs.indexOf(uf.toUpperCase()) !== -1,
+  )
+}
@@ -0,0 +1,209 @@
+/**
+ * Tests for DataJud alias mapping, request builder and client
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { analyzeCNJ } from '../../core/analyzer'
+import { buildCNJ } from '../../core/builder'
+import { DataJudFetch } from '../../types/datajud'
+import { CNJValidationError } from '../../types/errors'
+import {
+  buildDataJudQuery,
+  buildDataJudRequest,
+  createDataJudClient,
+  DATAJUD_BASE_URL,
+  getDataJudAlias,
+} from '../client'
+
+describe('DataJud', () => {
+  const tjspCNJ = '0001327-64.2018.8.26.0158'
+  const cnj = (segment: number, court: number, sourceUnit: number) =>
+    buildCNJ({
+      lawsuitNumber: 1,
+      protocolYear: 2020,
+      segment,
+      court,
+      sourceUnit,
+    }).formatted
+  const alias = (value: string) => getDataJudAlias(analyzeCNJ(value))
+
+  const hitsPayload = {
+    hits: {
+      total: { value: 1, relation: 'eq' },
+      hits: [
+        {
+          _index: 'api_publica_tjsp',
+          _source: {
+            numeroProcesso: '00013276420188260158',
+            tribunal: 'TJSP',
+            grau: 'G1',
+          },
+        },
+      ],
+    },
+  }
+
+  describe('getDataJudAlias', () => {
+    test('should map state, federal, labor and electoral tribunals', () => {
+      expect(alias(tjspCNJ)).toBe('api_publica_tjsp')
+      expect(alias(cnj(8, 7, 1))).toBe('api_publica_tjdft')
+      expect(alias(cnj(4, 3, 6100))).toBe('api_publica_trf3')
+      expect(alias(cnj(5, 2, 61))).toBe('api_publica_trt2')
+      expect(alias(cnj(6, 26, 1))).toBe('api_publica_tre-sp')
+      expect(alias(cnj(9, 26, 1))).toBe('api_publica_tjmsp')
+    })
+
+    test('should map superior courts', () => {
+      expect(alias(cnj(3, 0, 0))).toBe('api_publica_stj')
+      expect(alias(cnj(5, 0, 0))).toBe('api_publica_tst')
+      expect(alias(cnj(6, 0, 0))).toBe('api_publica_tse')
+      expect(alias(cnj(7, 0, 0))).toBe('api_publica_stm')
+    })
+
+    test('should return null for tribunals without index', () => {
+      expect(alias(cnj(1, 0, 0))).toBeNull()
+      expect(alias(cnj(2, 0, 0))).toBeNull()
+      expect(alias(cnj(4, 90, 0))).toBeNull()
+      expect(alias(cnj(7, 1, 1))).toBeNull()
+    })
+  })
+
+  describe('buildDataJudQuery', () => {
+    test('should match the unformatted number', () => {
+      expect(buildDataJudQuery(tjspCNJ)).toEqual({
+        query: { match: { numeroProcesso: '00013276420188260158' } },
+        size: 10,
+      })
+      expect(buildDataJudQuery(tjspCNJ, 1).size).toBe(1)
+    })
+  })
+
+  describe('buildDataJudRequest', () => {
+    test('should build the search request', () => {
+      const request = buildDataJudRequest(tjspCNJ, { apiKey: 'secret' })
+
+      expect(request).toEqual({
+        alias: 'api_publica_tjsp',
+        url: `${DATAJUD_BASE_URL}/api_publica_tjsp/_search`,
+        method: 'POST',
+        headers: {
+          Authorization: 'APIKey secret',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(buildDataJudQuery(tjspCNJ)),
+      })
+    })
+
+    test('should honor a custom base URL', () => {
+      const request = buildDataJudRequest(tjspCNJ, {
+        apiKey: 'secret',
+        baseUrl: 'http://localhost:9200/',
+      })
+
+      expect(request.url).toBe('http://localhost:9200/api_publica_tjsp/_search')
+    })
+
+    test('should throw for tribunals without index', () => {
+      expect(() =>
+        buildDataJudRequest(cnj(1, 0, 0), { apiKey: 'secret' }),
+      ).toThrow(CNJValidationError)
+
+      try {
+        buildDataJudRequest(cnj(1, 0, 0), { apiKey: 'secret' })
+      } catch (error) {
+        expect((error as CNJValidationError).code).toBe(
+          'DATAJUD_ALIAS_NOT_FOUND',
+        )
+      }
+    })
+  })
+
+  describe('createDataJudClient', () => {
+    test('should send the request through the injected fetch', async () => {
+      const fetch = jest.fn<ReturnType<DataJudFetch>, Parameters<DataJudFetch>>(
+        async () => ({ ok: true, status: 200, json: async () => hitsPayload }),
+      )
+      const client = createDataJudClient({ apiKey: 'secret', fetch })
+
+      const result = await client.search(tjspCNJ)
+
+      expect(fetch).toHaveBeenCalledWith(
+        `${DATAJUD_BASE_URL}/api_publica_tjsp/_search`,
+        expect.objectContaining({ method: 'POST' }),
+      )
+      expect(result).toEqual({
+        alias: 'api_publica_tjsp',
+        total: 1,
+        processes: [hitsPayload.hits.hits[0]._source],
+      })
+    })
+
+    test('should reject on HTTP errors', async () => {
+      const client = createDataJudClient({
+        apiKey: 'secret',
+        fetch: async () => ({ ok: false, status: 401, json: async () => ({}) }),
+      })
+
+      await expect(client.search(tjspCNJ)).rejects.toThrow(
+        'Falha na consulta ao DataJud (HTTP 401)',
+      )
+    })
+
+    test('should handle empty responses', async () => {
+      const client = createDataJudClient({
+        apiKey: 'secret',
+        fetch: async () => ({ ok: true, status: 200, json: async () => ({}) }),
+      })
+
+      expect(await client.search(tjspCNJ)).toEqual({
+        alias: 'api_publica_tjsp',
+        total: 0,
+        processes: [],
+      })
+    })
+
+    describe('against a local server', () => {
+      let server: Server
+      let baseUrl: string
+      const received: Array<{ url?: string; auth?: string; body: string }> = []
+
+      beforeAll(async () => {
+        server = createServer((req: IncomingMessage, res: ServerResponse) => {
+          let body = ''
+          req.on('data', (chunk) => (body += chunk))
+          req.on('end', () => {
+            received.push({
+              url: req.url,
+              auth: req.headers.authorization,
+              body,
+            })
+            res.setHeader('Content-Type', 'application/json')
+            res.end(JSON.stringify(hitsPayload))
+          })
+        })
+        await new Promise<void>((resolve) => server.listen(0, resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      })
+
+      afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve))
+      })
+
+      test('should query the server with the global fetch', async () => {
+        const client = createDataJudClient({ apiKey: 'secret', baseUrl })
+
+        const result = await client.search(tjspCNJ)
+
+        expect(result.total).toBe(1)
+        expect(received).toEqual([
+          {
+            url: '/api_publica_tjsp/_search',
+            auth: 'APIKey secret',
+            body: JSON.stringify(buildDataJudQuery(tjspCNJ)),
+          },
+        ])
+      })
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { analyzeCNJ } from '../core/analyzer'
+import { normalizeCNJ } from '../core/validator'
+import { getTribunal } from '../data/tribunals'
+import { AnalysisCNJ } from '../types/analysis'
+import {
+  DataJudAlias,
+  DataJudClient,
+  DataJudClientOptions,
+  DataJudFetch,
+  DataJudProcess,
+  DataJudQuery,
+  DataJudRequest,
+  DataJudSearchResult,
+} from '../types/datajud'
+import { CNJErrorType, CNJValidationError } from '../types/errors'
+import { SegmentCode } from '../types/segment'
+
+/**
+ * URL base da API Pública do DataJud
+ */
+export const DATAJUD_BASE_URL = 'https://api-publica.datajud.cnj.jus.br'
+
+/**
+ * Quantidade padrão de documentos por consulta
+ */
+const DEFAULT_SIZE = 10
+
+/**
+ * Segmentos sem índice no DataJud (STF e CNJ)
+ */
+const UNINDEXED_SEGMENTS: number[] = [SegmentCode.STF, SegmentCode.CNJ]
+
+/**
+ * Obtém o alias do índice do DataJud para o tribunal de uma análise
+ *
+ * O alias é derivado da sigla do registro de tribunais em minúsculas
+ * (TJSP → api_publica_tjsp, TRT2 → api_publica_trt2, TRE-SP →
+ * api_publica_tre-sp, TST → api_publica_tst). STF, CNJ, conselhos (código 90)
+ * e circunscrições da Justiça Militar da União não têm índice próprio.
+ *
+ * @param analysis Análise do CNJ (analyzeCNJ)
+ * @returns Alias do índice ou null se o tribunal não estiver no DataJud
+ *
+ * @example
+ * ```typescript
+ * getDataJudAlias(analyzeCNJ('0001327-64.2018.8.26.0158')) // "api_publica_tjsp"
+ * ```
+ */
+export function getDataJudAlias(analysis: AnalysisCNJ): DataJudAlias | null {
+  const { segment, court } = analysis.detailed
+  const tribunal = analysis.tribunal || getTribunal(segment, court)
+
+  if (
+    !tribunal ||
+    UNINDEXED_SEGMENTS.includes(tribunal.segment) ||
+    tribunal.court === '90' ||
+    (tribunal.segment === SegmentCode.STM && tribunal.court !== '00')
+  ) {
+    return null
+  }
+
+  return `api_publica_${tribunal.acronym.toLowerCase()}`
+}
+
+/**
+ * Monta o corpo de consulta pelo número do processo
+ * @param cnj Número CNJ (formatado ou não)
+ * @param size Quantidade máxima de documentos (padrão: 10)
+ * @returns Consulta no formato Elasticsearch
+ */
+export function buildDataJudQuery(
+  cnj: string,
+  size: number = DEFAULT_SIZE,
+): DataJudQuery {
+  return {
+    query: { match: { numeroProcesso: normalizeCNJ(cnj) } },
+    size,
+  }
+}
+
+/**
+ * Monta a requisição HTTP de consulta de um processo
+ * @param cnj Número CNJ
+ * @param options Chave da API, URL base e tamanho da página
+ * @returns Requisição pronta para envio
+ * @throws CNJValidationError se o tribunal não tiver índice no DataJud
+ *
+ * @example
+ * ```typescript
+ * const request = buildDataJudRequest('0001327-64.2018.8.26.0158', { apiKey })
+ * console.log(request.url)
+ * // "https://api-publica.datajud.cnj.jus.br/api_publica_tjsp/_search"
+ * ```
+ */
+export function buildDataJudRequest(
+  cnj: string,
+  options: Omit<DataJudClientOptions, 'fetch'>,
+): DataJudRequest {
+  const analysis = analyzeCNJ(cnj)
+  const alias = getDataJudAlias(analysis)
+
+  if (!alias) {
+    throw new CNJValidationError(
+      CNJErrorType.INVALID_COURT,
+      `Tribunal ${analysis.detailed.segment}.${analysis.detailed.court} não possui índice no DataJud`,
+      'DATAJUD_ALIAS_NOT_FOUND',
+      { segment: analysis.detailed.segment, court: analysis.detailed.court },
+    )
+  }
+
+  const baseUrl = (options.baseUrl || DATAJUD_BASE_URL).replace(/\/+$/, '')
+
+  return {
+    alias,
+    url: `${baseUrl}/${alias}/_search`,
+    method: 'POST',
+    headers: {
+      Authorization: `APIKey ${options.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(buildDataJudQuery(cnj, options.size)),
+  }
+}
+
+/**
+ * Cria um cliente da API Pública do DataJud
+ *
+ * O transporte é injetável (`fetch`), o que permite apontar o cliente para
+ * um servidor local nos testes ou usar um agente HTTP próprio.
+ *
+ * @param options Chave da API, URL base, transporte e tamanho da página
+ * @returns Cliente com buildRequest e search
+ * @throws Error se nenhum transporte for informado e não houver fetch global
+ *
+ * @example
+ * ```typescript
+ * const client = createDataJudClient({
+ *   apiKey: process.env.DATAJUD_API_KEY!,
+ *   baseUrl: 'http://localhost:9200',
+ *   fetch: mockFetch,
+ * })
+ * const result = await client.search('0001327-64.2018.8.26.0158')
+ * console.log(result.alias, result.total)
+ * ```
+ */
+export function createDataJudClient(
+  options: DataJudClientOptions,
+): DataJudClient {
+  const globalFetch = (globalThis as { fetch?: DataJudFetch }).fetch
+  const transport: DataJudFetch | undefined =
+    options.fetch ||
+    (globalFetch && ((url, init) => globalFetch.call(globalThis, url, init)))
+
+  if (!transport) {
+    throw new Error('Nenhum transporte HTTP disponível: informe options.fetch')
+  }
+
+  const buildRequest = (cnj: string) => buildDataJudRequest(cnj, options)
+
+  return {
+    buildRequest,
+
+    async search(cnj: string): Promise<DataJudSearchResult> {
+      const { alias, url, method, headers, body } = buildRequest(cnj)
+      const response = await transport(url, { method, headers, body })
+
+      if (!response.ok) {
+        throw new Error(
+          `Falha na consulta ao DataJud (HTTP ${response.status})`,
+        )
+      }
+
+      const payload = (await response.json()) as {
+        hits?: {
+          total?: { value?: number } | number
+          hits?: Array<{ _source: DataJudProcess }>
+        }
+      }
+      const hits = payload.hits?.hits || []
+      const total = payload.hits?.total
+
+      return {
+        alias,
+        total:
+          typeof total === 'number' ? total : (total?.value ?? hits.length),
+        processes: hits.map((hit) => hit._source),
+      }
+    },
+  }
+}
@@ -22,14 +22,16 @@
  */
 
 import { analyzeCNJ } from './core/analyzer'
-import { isValidCNJ } from './core/validator'
+import { DEFAULT_VALIDATION_CONFIG, isValidCNJ } from './core/validator'
 
 // Core functions - Funções principais
 export {
   calculateVerifyingDigit,
+  DEFAULT_VALIDATION_CONFIG,
   detectCNJFormat,
   formatCNJ,
   isValidCNJ,
+  MIN_PROTOCOL_YEAR,
   normalizeCNJ,
   validateCNJ,
   validateCNJFormat,
@@ -37,9 +39,48 @@ export {
 
 export { decomposeCNJ, validateCNJComponents } from './core/decomposer'
 
+export { parseCNJ } from './core/parser'
+
+export { diagnoseCNJ } from './core/diagnostics'
+
+export { getComponentToken, tokenizeCNJ } from './core/tokenizer'
+
+export { suggestCorrections } from './core/corrections'
+
+export { completeCNJ, UNKNOWN_DIGIT } from './core/completion'
+
+export { buildCNJ, createCNJBuilder } from './core/builder'
+
+export { createCNJFaker } from './core/faker'
+
+export { extractCNJs } from './core/extractor'
+
+export { pseudonymizeCNJs, redactCNJs, restoreCNJs } from './core/redaction'
+
+export { normalizeCNJLenient } from './core/normalizer'
+
+export {
+  findCourtCode,
+  findCourtCodes,
+  resolveTribunal,
+} from './core/tribunal-resolver'
+
+export { checkCourtValidity, isWithinPeriod } from './core/validity'
+
+export {
+  getLegacyParsers,
+  isLegacyNumber,
+  parseLegacyNumber,
+  registerLegacyParser,
+  unregisterLegacyParser,
+} from './core/legacy-parsers'
+
+export { createTJSPLegacyParser } from './core/legacy-tjsp'
+
 export {
   analyzeCNJ,
   analyzeCNJBatch,
+  filterByInstance,
   getBatchStatistics,
   isValidCNJComplete,
   writeCNJ,
@@ -53,6 +94,23 @@ export {
 
 export { getMaxCourtBySegment, getOriginCourt } from './core/court-analyzer'
 
+export { getInstance, parseInstanceLevel } from './core/instance-analyzer'
+
+export { buildConsultationLinks } from './core/consultation-links'
+
+export { findDistrictGaps, getDistrictCoverage } from './core/district-coverage'
+
+export { searchDistricts } from './core/district-search'
+
+export { findIBGECode, getDistrictIBGE } from './core/ibge'
+
+export {
+  computeDeadline,
+  getEasterDate,
+  getHolidaysForYear,
+  isInRecess,
+} from './core/deadline'
+
 // CSV Processing - Processamento CSV (Browser-safe)
 export {
   generateCSV,
@@ -61,6 +119,15 @@ export {
   validateCSVFormat,
 } from './csv/processor'
 
+// DataJud - API Pública do CNJ
+export {
+  buildDataJudQuery,
+  buildDataJudRequest,
+  createDataJudClient,
+  DATAJUD_BASE_URL,
+  getDataJudAlias,
+} from './datajud/client'
+
 // Data functions - Funções de dados
 export {
   getAllSegments,
@@ -74,11 +141,53 @@ export {
   DISTRICTS,
   generateDistrictKey,
   getDistrictInfo,
+  getDistrictKeysByUF,
   getDistrictsBySegment,
   getDistrictsByUF,
+  getGlobalDistrictRegistry,
   hasDistrict,
+  isValidDistrictKey,
 } from './data/districts'
 
+export {
+  DEFAULT_DISTRICT_REGISTRY,
+  DistrictRegistry,
+} from './data/district-registry'
+
+export {
+  createDistrictChunkStore,
+  DISTRICT_SEGMENTS,
+} from './data/district-chunks'
+
+export { DEFAULT_DISTRICT_INDEX } from './data/district-data'
+
+export { createDistrictIndex } from './data/district-index'
+
+export { loadDistrictTable, parseDistrictTable } from './data/district-loader'
+
+export { getIBGEUF, IBGE_TABLE } from './data/ibge'
+
+export { loadIBGETable, parseIBGETable } from './data/ibge-loader'
+
+export {
+  generateTribunalKey,
+  getAllTribunals,
+  getTribunal,
+  getTribunalsByUF,
+  TRIBUNALS,
+} from './data/tribunals'
+
+export {
+  getLocalHolidays,
+  LOCAL_HOLIDAYS,
+  mergeHolidayTables,
+  NATIONAL_HOLIDAYS,
+} from './data/holidays'
+
+export { loadHolidayTable, parseHolidayTable } from './data/holiday-loader'
+
+export { CONSULTATION_LINKS } from './data/consultation-links'
+
 // Utilities - Utilitários
 export {
   capitalizeWords,
@@ -96,6 +205,7 @@ export {
 // Types - Tipos TypeScript
 export type {
   AnalysisCNJ,
+  AnalysisOptions,
   BatchAnalysisResult,
   CNJFormat,
   CSVOptions,
@@ -104,6 +214,7 @@ export type {
   CSVProcessingResultAdvanced,
   CSVStatistics,
   DecomposedCNJ,
+  ParsedCNJ,
   Result,
   ValidationConfig,
   ValidationResult,
@@ -112,20 +223,175 @@ export type {
 // Namespace with utility types
 export { CNJTypes } from './types/analysis'
 
+export type { BuiltCNJ, CNJBuildComponents, CNJBuilder } from './types/builder'
+
+export type { CompletionOptions } from './types/completion'
+
+export type {
+  ConsultationLink,
+  ConsultationLinksResult,
+  ConsultationLinkTable,
+  ConsultationLinkTemplate,
+  ConsultationSystem,
+  ConsultationUnsupportedReason,
+} from './types/consultation'
+
+export type {
+  CNJCorrection,
+  CorrectionKind,
+  CorrectionOptions,
+} from './types/corrections'
+
+export type { CNJMatch, ExtractionOptions } from './types/extraction'
+
+export type {
+  DataJudAlias,
+  DataJudClient,
+  DataJudClientOptions,
+  DataJudFetch,
+  DataJudFetchResponse,
+  DataJudProcess,
+  DataJudQuery,
+  DataJudRequest,
+  DataJudSearchResult,
+} from './types/datajud'
+
+export type {
+  LenientNormalizationResult,
+  NormalizationTransformation,
+  NormalizationTransformationKind,
+} from './types/normalization'
+
+export type {
+  LegacyCNJLookup,
+  LegacyNumberFields,
+  LegacyNumberParser,
+  LegacyNumberResult,
+  LegacyParsedNumber,
+} from './types/legacy'
+
+export type {
+  CourtValidity,
+  ValidityIssue,
+  ValidityOptions,
+  ValidityPeriod,
+} from './types/validity'
+
+export type {
+  CourtCode,
+  CourtCodeQuery,
+  Tribunal,
+  TribunalKey,
+  TribunalSeat,
+} from './types/tribunal'
+
+export type {
+  CNJRedaction,
+  MaskRedactionStrategy,
+  PartialRedactionStrategy,
+  PseudonymizationOptions,
+  RedactionResult,
+  RedactionStrategy,
+} from './types/redaction'
+
+export type {
+  CNJFaker,
+  CNJFakerOptions,
+  FakeCNJ,
+  FakeCNJErrorType,
+} from './types/faker'
+
+export type {
+  CNJDiagnostics,
+  CNJIssue,
+  CNJIssueSeverity,
+  CNJSpan,
+} from './types/diagnostics'
+
+export type {
+  CNJComponentName,
+  CNJComponentToken,
+  CNJMissingSeparator,
+  CNJSeparatorToken,
+  CNJTokens,
+  CNJUnexpectedToken,
+} from './types/tokens'
+
 export type { Segment, SegmentCode } from './types/segment'
 
 export type { SourceUnit, SourceUnitType } from './types/source-unit'
 
 export type { CourtType, OriginCourt, SpecialCourtCode } from './types/court'
 
+export type { CNJInstance } from './types/instance'
+
+export type {
+  DatedHoliday,
+  DeadlineOptions,
+  DeadlineResult,
+  Holiday,
+  HolidayScope,
+  HolidayTable,
+  HolidayTableField,
+  HolidayTableIssue,
+  HolidayTableOptions,
+  HolidayTableResult,
+  NonBusinessDay,
+} from './types/deadline'
+
 export type {
   BrazilianStates,
   DistrictInfo,
   DistrictKey,
   DistrictMap,
+  DistrictRegistryOptions,
   MilitaryCourtCodes,
 } from './types/district'
 
+export type {
+  DistrictChunkLoader,
+  DistrictChunkOptions,
+  DistrictChunkStore,
+} from './types/district-chunks'
+
+export type { DistrictIndex, PackedDistricts } from './types/district-index'
+
+export type {
+  DistrictConflict,
+  DistrictTableField,
+  DistrictTableFormat,
+  DistrictTableIssue,
+  DistrictTableIssueCode,
+  DistrictTableOptions,
+  DistrictTableResult,
+} from './types/district-table'
+
+export type {
+  DistrictSearchOptions,
+  DistrictSearchResult,
+} from './types/district-search'
+
+export type {
+  DistrictIBGE,
+  DistrictIBGELink,
+  IBGECode,
+  IBGELinkSource,
+  IBGEOptions,
+  IBGETable,
+  IBGETableField,
+  IBGETableIssue,
+  IBGETableOptions,
+  IBGETableResult,
+} from './types/ibge'
+
+export type {
+  CourtCoverage,
+  DistrictBatchCoverage,
+  DistrictCoverageReport,
+  DistrictGap,
+  SegmentCoverage,
+} from './types/coverage'
+
 export { CNJErrorType, CNJValidationError } from './types/errors'
 
 // Constants - Constantes
@@ -135,6 +401,8 @@ export { SOURCE_UNIT_CONFIG } from './types/source-unit'
 
 export { MAX_COURT_BY_SEGMENT } from './types/court'
 
+export { InstanceLevel } from './types/instance'
+
 /**
  * Versão da biblioteca
  */
@@ -161,11 +429,8 @@ export const DEFAULT_CONFIG = {
     includeHeader: true,
     encoding: 'utf8' as const,
   },
-  validation: {
-    strictMode: true,
-    allowFormattedInput: true,
-    allowUnformattedInput: true,
-  },
+  // Cópia: alterá-la não muda as regras de validateCNJ
+  validation: { ...DEFAULT_VALIDATION_CONFIG },
 }
 
 /**
@@ -219,6 +219,20 @@ describe('Error Types', () => {
         })
       })
 
+      describe('invalidYear', () => {
+        test('should create INVALID_YEAR error', () => {
+          const error = CNJValidationError.invalidYear('1990', 1998, 2027)
+
+          expect(error.type).toBe(CNJErrorType.INVALID_YEAR)
+          expect(error.code).toBe('INVALID_YEAR')
+          expect(error.message).toContain('Ano de protocolo inválido')
+          expect(error.message).toContain('1990')
+          expect(error.details?.year).toBe('1990')
+          expect(error.details?.minYear).toBe(1998)
+          expect(error.details?.maxYear).toBe(2027)
+        })
+      })
+
       describe('districtNotFound', () => {
         test('should create DISTRICT_NOT_FOUND error', () => {
           const key = '8.26.0158'
@@ -1,3 +1,9 @@
+import { DistrictRegistryOptions } from './district'
+import { DistrictIBGELink, IBGEOptions } from './ibge'
+import { CNJInstance, InstanceLevel } from './instance'
+import { Tribunal } from './tribunal'
+import { CourtValidity, ValidityOptions } from './validity'
+
 /**
  * Estrutura principal de análise CNJ contendo todas as informações processadas
  *
@@ -33,8 +39,36 @@ export interface AnalysisCNJ {
   readonly courtNumber: string
   /** Informações detalhadas decompostas do CNJ */
   readonly detailed: DecomposedCNJ
+  /** Tribunal identificado pelo par segmento/tribunal (quando conhecido) */
+  readonly tribunal?: Tribunal
+  /** Existência do tribunal e da unidade no ano de protocolo e na data de referência */
+  readonly validity?: CourtValidity
+  /** Instância inferida do tribunal e da unidade de origem */
+  readonly instance?: CNJInstance
+  /**
+   * Municípios do IBGE vinculados à unidade de origem (quando conhecidos);
+   * `source: "inferred"` indica vínculo deduzido pelo nome da unidade
+   */
+  readonly ibge?: DistrictIBGELink
 }
 
+/**
+ * Opções de análise: data de referência, registro de distritos e tabela do
+ * IBGE
+ *
+ * @example
+ * ```typescript
+ * const options: AnalysisOptions = {
+ *   asOf: new Date('2021-01-01'),
+ *   districts: tenantRegistry,
+ * }
+ * analyzeCNJ('0001327-64.2018.8.26.0158', options)
+ * ```
+ */
+export type AnalysisOptions = ValidityOptions &
+  DistrictRegistryOptions &
+  IBGEOptions
+
 /**
  * CNJ decomosto em seus componentes individuais
  * Formato: [NNNNNNN]-[DD].[AAAA].[J].[CT].[0000]
@@ -64,6 +98,12 @@ export interface DecomposedCNJ {
   tj: string
 }
 
+/**
+ * Componentes de um CNJ obtidos apenas da leitura do número, sem consulta às
+ * tabelas de distritos
+ */
+export type ParsedCNJ = Omit<DecomposedCNJ, 'district' | 'uf' | 'tj'>
+
 /**
  * Resultado de validação simples
  *
@@ -112,6 +152,8 @@ export interface CSVOptions {
   readonly outputFileName?: string
   /** Codificação do arquivo (padrão: 'utf8') */
   readonly encoding?: 'utf8' | 'latin1' | 'ascii'
+  /** Exporta apenas os CNJs dessas instâncias (padrão: todas) */
+  readonly instances?: readonly InstanceLevel[]
 }
 
 /**
@@ -0,0 +1,78 @@
+import { DistrictInfo, DistrictKey } from './district'
+import { Tribunal } from './tribunal'
+
+/**
+ * Componentes para montagem de um número CNJ (sem o dígito verificador)
+ *
+ * Valores numéricos são completados com zeros à esquerda
+ * (ex.: `court: 8` vira "08", `lawsuitNumber: 1327` vira "0001327").
+ */
+export interface CNJBuildComponents {
+  /** Número sequencial do processo (até 7 dígitos) */
+  lawsuitNumber: string | number
+  /** Ano de protocolo (4 dígitos) */
+  protocolYear: string | number
+  /** Segmento do Judiciário (1 dígito) */
+  segment: string | number
+  /** Código do tribunal (até 2 dígitos) */
+  court: string | number
+  /** Código da unidade de origem (até 4 dígitos) */
+  sourceUnit: string | number
+}
+
+/**
+ * Número CNJ montado a partir dos componentes
+ */
+export interface BuiltCNJ {
+  /** CNJ formatado (NNNNNNN-DD.AAAA.J.CT.0000) */
+  formatted: string
+  /** CNJ sem formatação (20 dígitos) */
+  unformatted: string
+  /** Dígito verificador calculado */
+  verifyingDigit: string
+  /** Componentes normalizados, incluindo o dígito verificador */
+  components: {
+    lawsuitNumber: string
+    verifyingDigit: string
+    protocolYear: string
+    segment: string
+    court: string
+    sourceUnit: string
+  }
+}
+
+/**
+ * Construtor tipado e imutável de números CNJ
+ *
+ * Cada método retorna um novo construtor, permitindo reaproveitar uma base
+ * (ex.: tribunal e unidade) para vários números.
+ *
+ * @example
+ * ```typescript
+ * const tjsp = createCNJBuilder().fromDistrict('8.26.0158')
+ * tjsp.lawsuitNumber(1327).protocolYear(2018).build().formatted
+ * // "0001327-64.2018.8.26.0158"
+ * ```
+ */
+export interface CNJBuilder {
+  /** Define o número sequencial do processo */
+  lawsuitNumber(value: string | number): CNJBuilder
+  /** Define o ano de protocolo */
+  protocolYear(value: string | number): CNJBuilder
+  /** Define o segmento do Judiciário */
+  segment(value: string | number): CNJBuilder
+  /** Define o código do tribunal */
+  court(value: string | number): CNJBuilder
+  /** Define o código da unidade de origem */
+  sourceUnit(value: string | number): CNJBuilder
+  /** Define segmento, tribunal e unidade a partir de um distrito da base */
+  fromDistrict(district: DistrictKey | DistrictInfo): CNJBuilder
+  /** Define segmento e tribunal a partir da UF (padrão: Justiça Estadual) */
+  fromUF(uf: string, segment?: string | number): CNJBuilder
+  /** Define segmento e tribunal a partir da sigla ou do registro do tribunal */
+  fromTribunal(tribunal: string | Tribunal): CNJBuilder
+  /** Componentes definidos até o momento */
+  readonly components: Readonly<Partial<CNJBuildComponents>>
+  /** Monta o CNJ, validando os componentes e calculando o DV */
+  build(): BuiltCNJ
+}
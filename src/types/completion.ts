@@ -0,0 +1,26 @@
+import { DistrictRegistryOptions } from './district'
+
+/**
+ * Opções para completar CNJs com dígitos desconhecidos
+ *
+ * @example
+ * ```typescript
+ * const options: CompletionOptions = {
+ *   limit: 20,
+ *   knownDistrictsOnly: true
+ * }
+ * for (const cnj of completeCNJ('00013?7-64.2018.8.26.0158', options)) {
+ *   console.log(cnj)
+ * }
+ * ```
+ */
+export interface CompletionOptions extends DistrictRegistryOptions {
+  /** Quantidade máxima de candidatos gerados (padrão: 100) */
+  readonly limit?: number
+  /** Considera apenas segmento/tribunal/unidade existentes na base de distritos (padrão: false) */
+  readonly knownDistrictsOnly?: boolean
+  /** Descarta anos fora do intervalo 1998 a ano corrente + 1 (padrão: true) */
+  readonly validateYear?: boolean
+  /** Quantidade máxima de dígitos desconhecidos, inclusive os de segmento/tribunal/unidade (padrão: 7) */
+  readonly maxUnknownDigits?: number
+}
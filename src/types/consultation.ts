@@ -0,0 +1,87 @@
+import { InstanceLevel } from './instance'
+
+/**
+ * Sistema de processo eletrônico usado na consulta
+ */
+export type ConsultationSystem = 'esaj' | 'pje' | 'eproc' | 'projudi' | 'portal'
+
+/**
+ * Modelo de link de consulta processual
+ *
+ * A URL aceita os marcadores {cnj} (formatado), {unformatted} (20 dígitos),
+ * {lawsuitNumber}, {verifyingDigit}, {protocolYear}, {segment}, {court} e
+ * {sourceUnit}. URLs sem marcadores levam à página de pesquisa do sistema.
+ */
+export interface ConsultationLinkTemplate {
+  /** Sistema de processo eletrônico */
+  system: ConsultationSystem
+  /** Rótulo exibido ao usuário */
+  label: string
+  /** URL com marcadores */
+  url: string
+  /** Instâncias atendidas (ausente = todas) */
+  instances?: InstanceLevel[]
+}
+
+/**
+ * Tabela versionada de links, indexada por tribunal ("8.26") ou, como
+ * alternativa, por segmento ("6")
+ */
+export interface ConsultationLinkTable {
+  /** Data de revisão da tabela (AAAA-MM-DD) */
+  version: string
+  /** Modelos por tribunal ou segmento */
+  links: Record<string, ConsultationLinkTemplate[]>
+}
+
+/**
+ * Link de consulta pronto para uso
+ *
+ * @example
+ * ```typescript
+ * const [link] = buildConsultationLinks('0001327-64.2018.8.26.0158').links
+ * console.log(link.system) // "esaj"
+ * console.log(link.prefilled) // true
+ * ```
+ */
+export interface ConsultationLink {
+  /** Sistema de processo eletrônico */
+  system: ConsultationSystem
+  /** Rótulo exibido ao usuário */
+  label: string
+  /** URL de consulta */
+  url: string
+  /** Indica se a URL já leva o número do processo */
+  prefilled: boolean
+}
+
+/**
+ * Motivo de um tribunal não ter links de consulta
+ * - TRIBUNAL_NOT_COVERED: tribunal (e segmento) fora da tabela
+ * - INSTANCE_NOT_COVERED: tribunal na tabela, mas sem link para a instância
+ */
+export type ConsultationUnsupportedReason =
+  'TRIBUNAL_NOT_COVERED' | 'INSTANCE_NOT_COVERED'
+
+/**
+ * Resultado de buildConsultationLinks
+ *
+ * @example
+ * ```typescript
+ * const result = buildConsultationLinks('0001327-64.2018.8.13.0024')
+ * console.log(result.supported) // false
+ * console.log(result.reason) // "TRIBUNAL_NOT_COVERED"
+ * ```
+ */
+export interface ConsultationLinksResult {
+  /** Tribunal decodificado do CNJ ("8.26") */
+  tribunal: string
+  /** Indica se a tabela tem links para o tribunal e a instância */
+  supported: boolean
+  /** Motivo, quando supported é false */
+  reason?: ConsultationUnsupportedReason
+  /** Links aplicáveis (vazio quando supported é false) */
+  links: ConsultationLink[]
+  /** Versão da tabela consultada */
+  tableVersion: string
+}
@@ -0,0 +1,47 @@
+import { DistrictRegistryOptions } from './district'
+
+/**
+ * Tipo de erro de digitação que uma sugestão corrige
+ * - substitution: um dígito digitado no lugar de outro
+ * - transposition: dois dígitos adjacentes trocados de lugar
+ * - swapped-verifying-digit: os dois dígitos do DV invertidos
+ * - verifying-digit: DV recalculado mantendo os demais dígitos
+ */
+export type CorrectionKind =
+  | 'substitution'
+  | 'transposition'
+  | 'swapped-verifying-digit'
+  | 'verifying-digit'
+
+/**
+ * Sugestão de correção para um CNJ com dígito verificador inválido
+ *
+ * @example
+ * ```typescript
+ * const [best]: CNJCorrection[] = suggestCorrections('0001327-46.2018.8.26.0158')
+ * console.log(best.cnj) // "0001327-64.2018.8.26.0158"
+ * console.log(best.kind) // "swapped-verifying-digit"
+ * ```
+ */
+export interface CNJCorrection {
+  /** CNJ sugerido, formatado */
+  readonly cnj: string
+  /** Tipo de correção aplicada */
+  readonly kind: CorrectionKind
+  /** Posições (0-19, nos 20 dígitos) alteradas em relação à entrada */
+  readonly positions: readonly number[]
+  /** Plausibilidade da sugestão (0-1, maior é mais provável) */
+  readonly score: number
+  /** Descrição da alteração */
+  readonly description: string
+}
+
+/**
+ * Opções para geração de sugestões de correção
+ */
+export interface CorrectionOptions extends DistrictRegistryOptions {
+  /** Quantidade máxima de sugestões (padrão: 10) */
+  readonly limit?: number
+  /** Exige que segmento/tribunal/unidade exista na base de distritos (padrão: true) */
+  readonly requireKnownDistrict?: boolean
+}
@@ -34,7 +34,7 @@ export const MAX_COURT_BY_SEGMENT: Record<number, number> = {
   1: 0, // STF - Não tem limite (processo originário)
   2: 0, // CNJ - Não tem limite (processo originário)
   3: 0, // STJ - Não tem limite (processo originário)
-  4: 5, // TRF - 5 regiões
+  4: 6, // TRF - 6 regiões (TRF6 instalado em 2022)
   5: 24, // TRT - 24 regiões
   6: 27, // TRE - 27 unidades federativas
   7: 12, // STM - 12 circunscrições
@@ -0,0 +1,70 @@
+import { DistrictKey } from './district'
+import { TribunalKey } from './tribunal'
+
+/**
+ * Cobertura da base de distritos para um tribunal
+ */
+export interface CourtCoverage {
+  /** Chave do tribunal (segment.court) */
+  key: TribunalKey
+  /** Código do tribunal com 2 dígitos (CT) */
+  court: string
+  /** Sigla do tribunal, se estiver no registro de tribunais */
+  acronym?: string
+  /** Quantidade de unidades de origem conhecidas */
+  units: number
+}
+
+/**
+ * Cobertura da base de distritos para um segmento
+ */
+export interface SegmentCoverage {
+  /** Código do segmento (J) */
+  segment: string
+  /** Nome do segmento */
+  name: string
+  /** Quantidade de unidades de origem conhecidas */
+  units: number
+  /** Tribunais do segmento (registro de tribunais e base de distritos) */
+  courts: CourtCoverage[]
+  /** Tribunais do segmento sem nenhuma unidade cadastrada */
+  emptyCourts: TribunalKey[]
+}
+
+/**
+ * Relatório de cobertura da base de distritos
+ */
+export interface DistrictCoverageReport {
+  /** Total de unidades de origem na base */
+  totalUnits: number
+  /** Cobertura por segmento, em ordem de código */
+  segments: SegmentCoverage[]
+  /** Todos os tribunais sem nenhuma unidade cadastrada */
+  emptyCourts: TribunalKey[]
+}
+
+/**
+ * Chave de distrito usada por um lote de CNJs mas ausente da base
+ */
+export interface DistrictGap {
+  /** Chave do distrito (segment.court.sourceUnit) */
+  key: DistrictKey
+  /** Quantidade de CNJs do lote com essa chave */
+  count: number
+  /** Primeiros CNJs do lote com essa chave */
+  examples: string[]
+}
+
+/**
+ * Cobertura da base de distritos para um lote de CNJs
+ */
+export interface DistrictBatchCoverage {
+  /** Total de CNJs no lote */
+  total: number
+  /** CNJs cuja unidade de origem está na base */
+  resolved: number
+  /** Chaves ausentes da base, das mais frequentes para as menos */
+  missing: DistrictGap[]
+  /** Entradas que não puderam ser decompostas */
+  invalid: string[]
+}
@@ -0,0 +1,112 @@
+/**
+ * Alias do índice de um tribunal na API Pública do DataJud
+ * (ex.: "api_publica_tjsp", "api_publica_trt2", "api_publica_tre-sp")
+ */
+export type DataJudAlias = string
+
+/**
+ * Corpo de consulta (Elasticsearch) pelo número do processo
+ *
+ * @example
+ * ```typescript
+ * const query: DataJudQuery = buildDataJudQuery('0001327-64.2018.8.26.0158')
+ * // { query: { match: { numeroProcesso: "00013276420188260158" } }, size: 10 }
+ * ```
+ */
+export interface DataJudQuery {
+  query: {
+    match: {
+      /** Número do processo sem formatação (20 dígitos) */
+      numeroProcesso: string
+    }
+  }
+  /** Quantidade máxima de documentos retornados */
+  size: number
+}
+
+/**
+ * Requisição HTTP pronta para envio à API do DataJud
+ */
+export interface DataJudRequest {
+  /** Alias do índice consultado */
+  alias: DataJudAlias
+  /** URL completa do endpoint de busca */
+  url: string
+  method: 'POST'
+  headers: Record<string, string>
+  /** Corpo JSON serializado */
+  body: string
+}
+
+/**
+ * Resposta HTTP mínima esperada do transporte
+ */
+export interface DataJudFetchResponse {
+  ok: boolean
+  status: number
+  json(): Promise<unknown>
+}
+
+/**
+ * Transporte HTTP compatível com `fetch`, injetável para testes
+ */
+export type DataJudFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string },
+) => Promise<DataJudFetchResponse>
+
+/**
+ * Opções do cliente DataJud
+ */
+export interface DataJudClientOptions {
+  /** Chave pública da API (enviada como "Authorization: APIKey ...") */
+  apiKey: string
+  /** URL base da API (padrão: https://api-publica.datajud.cnj.jus.br) */
+  baseUrl?: string
+  /** Transporte HTTP (padrão: fetch global) */
+  fetch?: DataJudFetch
+  /** Quantidade máxima de documentos por consulta (padrão: 10) */
+  size?: number
+}
+
+/**
+ * Processo retornado pelo DataJud (campos principais; demais campos são
+ * preservados como vieram da API)
+ */
+export interface DataJudProcess {
+  numeroProcesso: string
+  tribunal?: string
+  grau?: string
+  dataAjuizamento?: string
+  classe?: { codigo: number; nome: string }
+  orgaoJulgador?: { codigo: number; nome: string }
+  [field: string]: unknown
+}
+
+/**
+ * Resultado de uma consulta por número
+ */
+export interface DataJudSearchResult {
+  /** Alias do índice consultado */
+  alias: DataJudAlias
+  /** Total de documentos encontrados */
+  total: number
+  /** Documentos encontrados (_source de cada hit) */
+  processes: DataJudProcess[]
+}
+
+/**
+ * Cliente da API Pública do DataJud
+ *
+ * @example
+ * ```typescript
+ * const client = createDataJudClient({ apiKey: process.env.DATAJUD_API_KEY! })
+ * const { processes } = await client.search('0001327-64.2018.8.26.0158')
+ * ```
+ */
+export interface DataJudClient {
+  /** Monta a requisição sem enviá-la */
+  buildRequest(cnj: string): DataJudRequest
+  /** Consulta o processo no índice do tribunal identificado pelo CNJ */
+  search(cnj: string): Promise<DataJudSearchResult>
+}
@@ -0,0 +1,159 @@
+import { ValidityPeriod } from './validity'
+
+/**
+ * Feriado forense
+ *
+ * Informe `date` para feriados de data fixa ("MM-DD", todo ano, ou
+ * "AAAA-MM-DD", só naquele dia) ou `easterOffset` para feriados móveis,
+ * contados em dias a partir do domingo de Páscoa (ex.: -2 = Sexta-feira Santa).
+ * O período de validade limita os anos em que o feriado se aplica.
+ *
+ * @example
+ * ```typescript
+ * const holidays: Holiday[] = [
+ *   { name: 'Revolução Constitucionalista', date: '07-09' },
+ *   { name: 'Corpus Christi', easterOffset: 60 },
+ *   { name: 'Consciência Negra', date: '11-20', validFrom: '2024-01-01' },
+ * ]
+ * ```
+ */
+export interface Holiday extends ValidityPeriod {
+  /** Nome do feriado */
+  name: string
+  /** Data fixa ("MM-DD" ou "AAAA-MM-DD") */
+  date?: string
+  /** Distância em dias do domingo de Páscoa */
+  easterOffset?: number
+}
+
+/**
+ * Abrangência de uma tabela de feriados
+ * - national: feriados nacionais e forenses
+ * - segment: segmento do Judiciário (ex.: "4", Justiça Federal)
+ * - tribunal: tribunal (ex.: "8.26", TJSP)
+ * - district: comarca/unidade de origem (ex.: "8.26.0158")
+ */
+export type HolidayScope = 'national' | 'segment' | 'tribunal' | 'district'
+
+/**
+ * Tabela de feriados locais indexada por segmento ("4"), tribunal ("8.26")
+ * ou comarca ("8.26.0158")
+ *
+ * @example
+ * ```typescript
+ * const table: HolidayTable = {
+ *   '8.26': [{ name: 'Revolução Constitucionalista', date: '07-09' }],
+ *   '8.26.0158': [{ name: 'Aniversário da cidade', date: '08-01' }],
+ * }
+ * ```
+ */
+export type HolidayTable = Record<string, Holiday[]>
+
+/**
+ * Feriado resolvido para uma data concreta
+ */
+export interface DatedHoliday {
+  /** Data do feriado (AAAA-MM-DD) */
+  date: string
+  /** Nome do feriado */
+  name: string
+  /** Tabela de origem */
+  scope: HolidayScope
+}
+
+/**
+ * Dia não útil encontrado na contagem do prazo
+ */
+export interface NonBusinessDay {
+  /** Data (AAAA-MM-DD) */
+  date: string
+  /** Motivo: fim de semana, feriado ou recesso (CPC art. 220) */
+  reason: 'weekend' | 'holiday' | 'recess'
+  /** Feriado correspondente, quando o motivo é "holiday" */
+  holiday?: DatedHoliday
+}
+
+/**
+ * Opções do cálculo de prazo
+ */
+export interface DeadlineOptions {
+  /** Feriados adicionais (ex.: suspensões de expediente do tribunal) */
+  holidays?: Holiday[]
+  /** Suspende a contagem entre 20/12 e 20/01 (padrão: true) */
+  recess?: boolean
+  /**
+   * Feriados locais por segmento, tribunal e comarca (padrão: LOCAL_HOLIDAYS).
+   * Substitui a tabela embutida; use mergeHolidayTables para acumular.
+   */
+  holidayTable?: HolidayTable
+}
+
+/**
+ * Resultado do cálculo de prazo em dias úteis
+ *
+ * @example
+ * ```typescript
+ * const deadline = computeDeadline('0001327-64.2018.8.26.0158', '2024-07-05', 5)
+ * console.log(deadline.dueDate) // "2024-07-15"
+ * ```
+ */
+export interface DeadlineResult {
+  /** CNJ recebido */
+  readonly cnj: string
+  /** Sigla do tribunal usado para os feriados locais (quando conhecido) */
+  readonly tribunal?: string
+  /** UF do tribunal/comarca */
+  readonly uf: string
+  /** Comarca/unidade de origem */
+  readonly district: string
+  /** Data de início (AAAA-MM-DD); não é contada */
+  readonly startDate: string
+  /** Último dia do prazo (AAAA-MM-DD) */
+  readonly dueDate: string
+  /** Quantidade de dias úteis contados */
+  readonly businessDays: number
+  /** Dias não úteis ignorados entre o início e o vencimento */
+  readonly skipped: NonBusinessDay[]
+}
+
+/**
+ * Campos reconhecidos nas tabelas de feriados locais
+ */
+export type HolidayTableField =
+  'key' | 'name' | 'date' | 'easterOffset' | 'validFrom' | 'validUntil'
+
+/**
+ * Opções de leitura de uma tabela de feriados locais
+ */
+export interface HolidayTableOptions {
+  /** Formato do conteúdo (padrão: detectado pelo conteúdo ou extensão) */
+  format?: 'csv' | 'json'
+  /** Separador do CSV (padrão: detectado no cabeçalho entre ";", "," e tab) */
+  separator?: string
+  /** Codificação do arquivo, em loadHolidayTable (padrão: utf8) */
+  encoding?: string
+  /** Nome da coluna de cada campo, quando diferente dos cabeçalhos padrão */
+  columns?: Partial<Record<HolidayTableField, string>>
+}
+
+/**
+ * Linha descartada durante a leitura da tabela de feriados
+ */
+export interface HolidayTableIssue {
+  /** Linha no arquivo (CSV, contando o cabeçalho) ou posição no JSON */
+  row: number
+  /** Código do problema */
+  code: 'INVALID_KEY' | 'INVALID_DATE' | 'MISSING_NAME'
+  /** Descrição do problema */
+  message: string
+}
+
+/**
+ * Resultado da leitura de uma tabela de feriados locais
+ */
+export interface HolidayTableResult {
+  /** Tabela pronta para `options.holidayTable` */
+  table: HolidayTable
+  /** Linhas descartadas */
+  issues: HolidayTableIssue[]
+}
@@ -0,0 +1,55 @@
+import { CNJErrorType } from './errors'
+
+/**
+ * Gravidade de um problema encontrado no diagnóstico
+ * - error: torna o CNJ inválido
+ * - warning: não invalida o CNJ, mas merece atenção (ex.: distrito desconhecido)
+ */
+export type CNJIssueSeverity = 'error' | 'warning'
+
+/**
+ * Trecho da entrada original ao qual um problema se refere
+ * (início inclusivo, fim exclusivo, como em String.prototype.slice)
+ */
+export interface CNJSpan {
+  /** Posição inicial na entrada original */
+  readonly start: number
+  /** Posição final (exclusiva) na entrada original */
+  readonly end: number
+}
+
+/**
+ * Problema individual encontrado em um número CNJ
+ */
+export interface CNJIssue {
+  /** Tipo do erro */
+  readonly type: CNJErrorType
+  /** Código do erro (para tratamento programático) */
+  readonly code: string
+  /** Gravidade do problema */
+  readonly severity: CNJIssueSeverity
+  /** Descrição do problema */
+  readonly message: string
+  /** Trecho da entrada ao qual o problema se refere */
+  readonly span: CNJSpan
+}
+
+/**
+ * Relatório de diagnóstico com todos os problemas de um CNJ
+ *
+ * @example
+ * ```typescript
+ * const report: CNJDiagnostics = diagnoseCNJ('0001327-65.2018.0.26.0158')
+ * report.issues.forEach((issue) => console.log(issue.code, issue.span))
+ * // INVALID_VERIFYING_DIGIT { start: 8, end: 10 }
+ * // INVALID_SEGMENT { start: 16, end: 17 }
+ * ```
+ */
+export interface CNJDiagnostics {
+  /** Entrada original recebida */
+  readonly input: string
+  /** Indica se não há problemas de gravidade 'error' */
+  readonly isValid: boolean
+  /** Lista de problemas encontrados, na ordem em que aparecem na entrada */
+  readonly issues: readonly CNJIssue[]
+}
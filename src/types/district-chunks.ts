@@ -0,0 +1,45 @@
+import { DistrictInfo, DistrictKey, DistrictMap } from './district'
+
+/**
+ * Função que obtém os distritos de um segmento (código J). Pode devolver o
+ * módulo JSON importado dinamicamente ou o próprio mapa.
+ */
+export type DistrictChunkLoader = (
+  segment: string,
+) => Promise<DistrictMap | { default: DistrictMap }>
+
+/**
+ * Opções do carregamento de distritos por segmento
+ */
+export interface DistrictChunkOptions {
+  /**
+   * Carrega o arquivo de um segmento (padrão: import dinâmico de
+   * districts/J.json da própria biblioteca)
+   */
+  loader?: DistrictChunkLoader
+}
+
+/**
+ * Distritos carregados sob demanda, um segmento por vez
+ *
+ * As consultas síncronas só respondem por segmentos já carregados com
+ * load() ou informados com preload().
+ */
+export interface DistrictChunkStore {
+  /** Carrega um segmento (uma única vez) e devolve seus distritos */
+  load(segment: string | number): Promise<DistrictMap>
+  /** Carrega o segmento do CNJ e devolve o distrito (null se não houver) */
+  loadFor(cnj: string): Promise<DistrictInfo | null>
+  /** Registra distritos de um segmento já disponíveis (ex.: importados no build) */
+  preload(segment: string | number, districts: DistrictMap): void
+  /** Indica se o segmento já está disponível para as consultas síncronas */
+  isLoaded(segment: string | number): boolean
+  /** Busca um distrito pela chave; segmento não carregado gera erro */
+  get(key: DistrictKey): DistrictInfo | null
+  /** Busca o distrito do CNJ; segmento não carregado gera erro */
+  lookup(cnj: string): DistrictInfo | null
+  /** Segmentos disponíveis para as consultas síncronas */
+  loadedSegments(): string[]
+  /** Distritos de todos os segmentos carregados */
+  toMap(): DistrictMap
+}
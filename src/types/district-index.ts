@@ -0,0 +1,39 @@
+import { DistrictInfo, DistrictKey, DistrictMap } from './district'
+
+/**
+ * Base de distritos codificada: tabela de strings e chaves numéricas
+ *
+ * Gerada por scripts/build-district-index.js a partir de districts/J.json.
+ * A chave J.CT.OOOO vira o número JCTOOOO (ex.: "8.26.0158" → 8260158).
+ */
+export interface PackedDistricts {
+  /** Versão do formato */
+  format: number
+  /** Nomes, UFs e datas, sem repetição */
+  strings: string[]
+  /** Chaves numéricas em ordem crescente, como diferença para a anterior */
+  keys: number[]
+  /** Índices de sourceUnit, uf e district em `strings`, três por distrito */
+  values: number[]
+  /** Vigência: linha, validFrom e validUntil (-1 se ausente), três por distrito */
+  periods: number[]
+}
+
+/**
+ * Índice de consulta sobre a base codificada
+ *
+ * Os distritos são decodificados sob demanda, na primeira consulta; a busca
+ * pela chave usa um índice numérico, sem objeto indexado por string.
+ */
+export interface DistrictIndex {
+  /** Quantidade de distritos */
+  readonly size: number
+  /** Busca e decodifica um distrito pela chave */
+  get(key: DistrictKey): DistrictInfo | null
+  /** Verifica se existe distrito para a chave (sem decodificar) */
+  has(key: DistrictKey): boolean
+  /** Lista as chaves em ordem crescente */
+  keys(): DistrictKey[]
+  /** Decodifica todos os distritos em um mapa indexado por chave */
+  toMap(): DistrictMap
+}
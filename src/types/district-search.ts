@@ -0,0 +1,29 @@
+import { DistrictInfo, DistrictKey, DistrictRegistryOptions } from './district'
+
+/**
+ * Filtros da busca de distritos por nome
+ */
+export interface DistrictSearchOptions extends DistrictRegistryOptions {
+  /** Restringe a busca a uma UF */
+  uf?: string
+  /** Restringe a busca a um segmento (código J) */
+  segment?: string | number
+  /** Quantidade máxima de resultados (padrão: 20) */
+  limit?: number
+}
+
+/**
+ * Distrito encontrado pela busca por nome
+ */
+export interface DistrictSearchResult {
+  /** Chave do distrito (segment.court.sourceUnit) */
+  key: DistrictKey
+  /** Dados do distrito */
+  info: DistrictInfo
+  /**
+   * Distância da consulta ao nome: 0 para correspondência exata (ignorando
+   * acentos, caixa e abreviações), somando as letras trocadas nos erros de
+   * digitação e 0,5 por palavra completada
+   */
+  distance: number
+}
@@ -0,0 +1,91 @@
+import type { DistrictRegistry } from '../data/district-registry'
+import { DistrictInfo, DistrictKey, DistrictMap } from './district'
+
+/**
+ * Formatos aceitos para tabelas de unidades judiciárias
+ */
+export type DistrictTableFormat = 'csv' | 'json'
+
+/**
+ * Campos reconhecidos nas tabelas de unidades judiciárias
+ */
+export type DistrictTableField =
+  | 'key'
+  | 'segment'
+  | 'court'
+  | 'sourceUnitCode'
+  | 'sourceUnit'
+  | 'uf'
+  | 'district'
+  | 'validFrom'
+  | 'validUntil'
+
+/**
+ * Opções de leitura de uma tabela de unidades judiciárias
+ */
+export interface DistrictTableOptions {
+  /** Formato do conteúdo (padrão: detectado pelo conteúdo ou extensão) */
+  format?: DistrictTableFormat
+  /** Separador do CSV (padrão: detectado no cabeçalho entre ";", "," e tab) */
+  separator?: string
+  /** Codificação do arquivo, em loadDistrictTable (padrão: utf8) */
+  encoding?: string
+  /** Nome da coluna de cada campo, quando diferente dos cabeçalhos padrão */
+  columns?: Partial<Record<DistrictTableField, string>>
+  /** Registro usado na comparação (padrão: DEFAULT_DISTRICT_REGISTRY) */
+  base?: DistrictRegistry
+}
+
+/**
+ * Códigos de problemas encontrados nas linhas da tabela
+ */
+export type DistrictTableIssueCode =
+  | 'INVALID_KEY'
+  | 'MISSING_FIELD'
+  | 'INVALID_UF'
+  | 'INVALID_DATE'
+  | 'DUPLICATE_KEY'
+
+/**
+ * Linha descartada durante a importação
+ */
+export interface DistrictTableIssue {
+  /** Linha no arquivo (CSV, contando o cabeçalho) ou posição no JSON */
+  row: number
+  /** Código do problema */
+  code: DistrictTableIssueCode
+  /** Descrição do problema */
+  message: string
+  /** Chave do distrito, quando identificada */
+  key?: DistrictKey
+}
+
+/**
+ * Distrito cuja versão importada difere da base de comparação
+ */
+export interface DistrictConflict {
+  /** Chave do distrito */
+  key: DistrictKey
+  /** Dados da base de comparação */
+  bundled: DistrictInfo
+  /** Dados importados */
+  imported: DistrictInfo
+  /** Campos divergentes */
+  fields: Array<keyof DistrictInfo>
+}
+
+/**
+ * Resultado da importação de uma tabela de unidades judiciárias
+ */
+export interface DistrictTableResult {
+  /** Distritos válidos da tabela, prontos para DistrictRegistry.extend */
+  districts: DistrictMap
+  /** Chaves ausentes da base de comparação */
+  added: DistrictKey[]
+  /** Chaves presentes na base com dados idênticos */
+  unchanged: DistrictKey[]
+  /** Chaves presentes na base com dados divergentes */
+  conflicts: DistrictConflict[]
+  /** Linhas descartadas */
+  issues: DistrictTableIssue[]
+}
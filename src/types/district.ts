@@ -1,7 +1,10 @@
+import type { DistrictRegistry } from '../data/district-registry'
+import { ValidityPeriod } from './validity'
+
 /**
  * Informações sobre distrito/comarca onde o processo foi iniciado
  */
-export interface DistrictInfo {
+export interface DistrictInfo extends ValidityPeriod {
   /** Nome da unidade de origem (comarca, cidade, etc.) */
   sourceUnit: string
   /** Sigla da Unidade Federativa */
@@ -20,6 +23,14 @@ export type DistrictKey = string
  */
 export type DistrictMap = Record<DistrictKey, DistrictInfo>
 
+/**
+ * Opções para consultar um registro de distritos específico
+ */
+export interface DistrictRegistryOptions {
+  /** Registro de distritos (padrão: registro global do processo) */
+  districts?: DistrictRegistry
+}
+
 /**
  * Estados brasileiros com suas siglas
  */
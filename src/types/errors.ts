@@ -100,6 +100,22 @@ export class CNJValidationError extends Error {
     )
   }
 
+  /**
+   * Cria erro para ano de protocolo fora do intervalo aceito
+   */
+  static invalidYear(
+    year: string,
+    minYear: number,
+    maxYear: number,
+  ): CNJValidationError {
+    return new CNJValidationError(
+      CNJErrorType.INVALID_YEAR,
+      `Ano de protocolo inválido: ${year}. Deve estar entre ${minYear} e ${maxYear}`,
+      'INVALID_YEAR',
+      { year, minYear, maxYear },
+    )
+  }
+
   /**
    * Cria erro para distrito não encontrado
    */
@@ -0,0 +1,39 @@
+import { ValidationResult } from './analysis'
+
+/**
+ * Número CNJ encontrado em um texto
+ *
+ * @example
+ * ```typescript
+ * const [match]: CNJMatch[] = extractCNJs('Processo 0001327-64.2018.8.26.0158.')
+ * console.log(match.start) // 9
+ * console.log(match.normalized) // "0001327-64.2018.8.26.0158"
+ * ```
+ */
+export interface CNJMatch {
+  /** Trecho exatamente como aparece no texto */
+  readonly text: string
+  /** Posição inicial do trecho no texto */
+  readonly start: number
+  /** Posição final do trecho no texto (exclusiva) */
+  readonly end: number
+  /** CNJ formatado (NNNNNNN-DD.AAAA.J.CT.0000) */
+  readonly normalized: string
+  /** Resultado de validateCNJ para o número normalizado */
+  readonly validation: ValidationResult
+}
+
+/**
+ * Opções para extração de CNJs em texto
+ */
+export interface ExtractionOptions {
+  /** Retorna apenas números com dígito verificador válido (padrão: false) */
+  readonly validOnly?: boolean
+  /** Quantidade máxima de resultados (padrão: sem limite) */
+  readonly limit?: number
+  /**
+   * Descarta candidatos com segmento 0 ou ano de protocolo fora de 1998 até o
+   * ano seguinte ao corrente (padrão: true)
+   */
+  readonly plausibleOnly?: boolean
+}
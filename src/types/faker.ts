@@ -0,0 +1,74 @@
+import { CNJErrorType } from './errors'
+import { DistrictKey, DistrictRegistryOptions } from './district'
+
+/**
+ * Tipos de erro que o gerador consegue injetar
+ */
+export type FakeCNJErrorType =
+  | CNJErrorType.INVALID_FORMAT
+  | CNJErrorType.INVALID_LENGTH
+  | CNJErrorType.INVALID_VERIFYING_DIGIT
+  | CNJErrorType.INVALID_SEGMENT
+  | CNJErrorType.INVALID_COURT
+  | CNJErrorType.INVALID_YEAR
+  | CNJErrorType.DISTRICT_NOT_FOUND
+
+/**
+ * Opções do gerador de CNJs fictícios
+ */
+export interface CNJFakerOptions extends DistrictRegistryOptions {
+  /** Restringe às UFs informadas */
+  uf?: string | readonly string[]
+  /** Restringe aos segmentos informados */
+  segment?: string | number | ReadonlyArray<string | number>
+  /** Menor ano de protocolo (padrão: 2010) */
+  minYear?: number
+  /** Maior ano de protocolo (padrão: 2024, fixo para manter a reprodutibilidade) */
+  maxYear?: number
+  /** Gera números formatados (padrão: true) */
+  formatted?: boolean
+  /**
+   * Proporção (0-1) de números inválidos por tipo de erro
+   * Ex.: `{ INVALID_VERIFYING_DIGIT: 0.05 }` gera 5% com DV errado
+   *
+   * Nos erros INVALID_SEGMENT, INVALID_COURT, INVALID_YEAR e
+   * DISTRICT_NOT_FOUND o DV é recalculado: `validateCNJ(cnj)` sem
+   * configuração aceita esses números. Use diagnoseCNJ() para detectá-los ou,
+   * no caso do ano, `validateCNJ(cnj, {})`, que aplica o ano mínimo padrão.
+   */
+  invalidRatio?: Partial<Record<FakeCNJErrorType, number>>
+}
+
+/**
+ * Número CNJ gerado pelo faker
+ */
+export interface FakeCNJ {
+  /** Número gerado */
+  cnj: string
+  /** Indica se o número é válido */
+  isValid: boolean
+  /** Erro injetado, quando inválido */
+  errorType?: FakeCNJErrorType
+  /** Distrito da base usado como origem */
+  districtKey: DistrictKey
+}
+
+/**
+ * Gerador determinístico de CNJs fictícios
+ *
+ * @example
+ * ```typescript
+ * const faker = createCNJFaker(42, { uf: 'SP' })
+ * faker.cnj() // sempre o mesmo número para a mesma semente
+ * ```
+ */
+export interface CNJFaker {
+  /** Semente numérica em uso */
+  readonly seed: number
+  /** Gera o próximo número (válido ou com erro injetado) */
+  next(): FakeCNJ
+  /** Gera o próximo número válido */
+  cnj(): string
+  /** Gera vários números */
+  take(count: number): FakeCNJ[]
+}
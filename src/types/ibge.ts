@@ -0,0 +1,112 @@
+import { DistrictKey } from './district'
+
+/**
+ * Código de município do IBGE com 7 dígitos (os 2 primeiros indicam a UF)
+ */
+export type IBGECode = string
+
+/**
+ * Municípios do IBGE vinculados a um distrito/comarca
+ *
+ * @example
+ * ```typescript
+ * const ibge: DistrictIBGE = { seat: '3550308', municipalities: ['3550308'] }
+ * ```
+ */
+export interface DistrictIBGE {
+  /** Município sede da unidade */
+  seat: IBGECode
+  /**
+   * Municípios sob a jurisdição da unidade, incluindo a sede (apenas a sede
+   * quando a jurisdição não é conhecida)
+   */
+  municipalities: IBGECode[]
+}
+
+/**
+ * Origem do vínculo entre um distrito e o IBGE
+ * - table: vínculo explícito da tabela (`districts`)
+ * - inferred: município da mesma UF com o nome da unidade de origem; é uma
+ *   suposição, não a jurisdição oficial da unidade
+ */
+export type IBGELinkSource = 'table' | 'inferred'
+
+/**
+ * Municípios do IBGE vinculados a um distrito, com a origem do vínculo
+ *
+ * @example
+ * ```typescript
+ * const link: DistrictIBGELink = getDistrictIBGE('8.13.0024')!
+ * console.log(link.source) // "inferred"
+ * ```
+ */
+export interface DistrictIBGELink extends DistrictIBGE {
+  /** Origem do vínculo */
+  source: IBGELinkSource
+}
+
+/**
+ * Tabela de vínculo entre distritos e municípios do IBGE
+ */
+export interface IBGETable {
+  /** Versão da tabela */
+  version: string
+  /**
+   * Nomes dos municípios por código; distritos cujo nome coincide com o de um
+   * município da mesma UF são vinculados a ele
+   */
+  municipalities: Record<IBGECode, string>
+  /** Vínculos explícitos por distrito, com precedência sobre os nomes */
+  districts: Record<DistrictKey, DistrictIBGE>
+}
+
+/**
+ * Opções para consultar uma tabela do IBGE específica
+ */
+export interface IBGEOptions {
+  /** Tabela do IBGE (padrão: IBGE_TABLE embutida) */
+  ibge?: IBGETable
+}
+
+/**
+ * Campos reconhecidos nas tabelas de municípios do IBGE
+ */
+export type IBGETableField = 'code' | 'municipality' | 'key' | 'seat'
+
+/**
+ * Opções de leitura de uma tabela de municípios do IBGE
+ */
+export interface IBGETableOptions {
+  /** Formato do conteúdo (padrão: detectado pelo conteúdo ou extensão) */
+  format?: 'csv' | 'json'
+  /** Separador do CSV (padrão: detectado no cabeçalho entre ";", "," e tab) */
+  separator?: string
+  /** Codificação do arquivo, em loadIBGETable (padrão: utf8) */
+  encoding?: string
+  /** Nome da coluna de cada campo, quando diferente dos cabeçalhos padrão */
+  columns?: Partial<Record<IBGETableField, string>>
+  /** Versão atribuída à tabela lida (padrão: "local") */
+  version?: string
+}
+
+/**
+ * Linha descartada durante a leitura da tabela do IBGE
+ */
+export interface IBGETableIssue {
+  /** Linha no arquivo (CSV, contando o cabeçalho) ou posição no JSON */
+  row: number
+  /** Código do problema */
+  code: 'INVALID_CODE' | 'INVALID_KEY'
+  /** Descrição do problema */
+  message: string
+}
+
+/**
+ * Resultado da leitura de uma tabela de municípios do IBGE
+ */
+export interface IBGETableResult {
+  /** Tabela pronta para `options.ibge` */
+  table: IBGETable
+  /** Linhas descartadas */
+  issues: IBGETableIssue[]
+}
@@ -1,6 +1,28 @@
 export * from './analysis'
+export * from './builder'
+export * from './completion'
+export * from './consultation'
+export * from './corrections'
 export * from './court'
+export * from './coverage'
+export * from './datajud'
+export * from './deadline'
+export * from './diagnostics'
 export * from './district'
+export * from './district-chunks'
+export * from './district-index'
+export * from './district-search'
+export * from './district-table'
 export * from './errors'
+export * from './extraction'
+export * from './faker'
+export * from './ibge'
+export * from './instance'
+export * from './legacy'
+export * from './normalization'
+export * from './redaction'
 export * from './segment'
 export * from './source-unit'
+export * from './tokens'
+export * from './tribunal'
+export * from './validity'
@@ -0,0 +1,27 @@
+/**
+ * Instância (grau de jurisdição) em que o processo tramita
+ */
+export enum InstanceLevel {
+  SUPERIOR_COURT = 'tribunal superior',
+  SECOND_GRADE = 'segundo grau',
+  APPEALS_PANEL = 'turma recursal',
+  FIRST_GRADE = 'primeiro grau',
+  COUNCIL = 'conselho',
+}
+
+/**
+ * Instância inferida a partir do segmento, tribunal e unidade de origem
+ *
+ * @example
+ * ```typescript
+ * const instance: CNJInstance = analyzeCNJ('0001327-64.2018.8.26.0158').instance!
+ * console.log(instance.level) // "primeiro grau"
+ * console.log(instance.explanation) // "Unidade de origem 0158 (foro): primeiro grau"
+ * ```
+ */
+export interface CNJInstance {
+  /** Instância classificada */
+  level: InstanceLevel
+  /** Regra que levou à classificação */
+  explanation: string
+}
@@ -0,0 +1,88 @@
+import { TribunalKey } from './tribunal'
+
+/**
+ * Campos extraídos de um número no formato anterior à numeração única
+ *
+ * Cada formato legado tem seus próprios campos (ex.: comarca, foro, ano,
+ * sequencial e dígito), por isso são expostos como um mapa nome → valor.
+ */
+export type LegacyNumberFields = Record<string, string>
+
+/**
+ * Número legado decomposto por um parser
+ */
+export interface LegacyParsedNumber {
+  /** Número legado na forma canônica do tribunal */
+  formatted: string
+  /** Campos existentes no formato legado */
+  fields: LegacyNumberFields
+}
+
+/**
+ * Correspondência entre números legados e CNJs unificados
+ *
+ * Tabela indexada pelo número legado na forma canônica do parser (ex.: a
+ * conversão publicada pelo tribunal) ou função de consulta. Os tribunais
+ * atribuíram novos sequenciais na migração, por isso o CNJ não pode ser
+ * derivado dos campos do número antigo.
+ *
+ * @example
+ * ```typescript
+ * const lookup: LegacyCNJLookup = {
+ *   '583.00.2005.123456-7': '0012345-19.2005.8.26.0100',
+ * }
+ * ```
+ */
+export type LegacyCNJLookup =
+  | Readonly<Record<string, string>>
+  | ((parsed: LegacyParsedNumber) => string | null | undefined)
+
+/**
+ * Parser de numeração legada (anterior à Resolução CNJ 65/2008)
+ *
+ * @example
+ * ```typescript
+ * const parser: LegacyNumberParser = {
+ *   id: 'tjxx-legacy',
+ *   tribunal: '8.99',
+ *   description: 'Numeração antiga do TJXX (AAAA/NNNNN)',
+ *   recognize: (input) => /^\d{4}\/\d{5}$/.test(input.trim()),
+ *   parse: (input) => {
+ *     const [year, sequential] = input.trim().split('/')
+ *     return { formatted: input.trim(), fields: { year, sequential } }
+ *   },
+ * }
+ * registerLegacyParser(parser)
+ * ```
+ */
+export interface LegacyNumberParser {
+  /** Identificador único do parser */
+  id: string
+  /** Tribunal de origem do formato (segmento.tribunal, ex.: "8.26") */
+  tribunal: TribunalKey
+  /** Descrição do formato reconhecido */
+  description: string
+  /** Indica se a entrada está no formato deste parser */
+  recognize(input: string): boolean
+  /** Decompõe a entrada, ou retorna null se não estiver no formato */
+  parse(input: string): LegacyParsedNumber | null
+  /**
+   * Vincula o número legado ao CNJ unificado, quando há correspondência
+   * conhecida (opcional)
+   */
+  toCNJ?(parsed: LegacyParsedNumber): string | null
+}
+
+/**
+ * Resultado da análise de um número legado
+ */
+export interface LegacyNumberResult extends LegacyParsedNumber {
+  /** Entrada original */
+  input: string
+  /** Identificador do parser que reconheceu a entrada */
+  parser: string
+  /** Tribunal de origem (segmento.tribunal) */
+  tribunal: TribunalKey
+  /** CNJ unificado correspondente, ou null se não houver vínculo conhecido */
+  cnj: string | null
+}
@@ -0,0 +1,52 @@
+import { CNJSpan } from './diagnostics'
+
+/**
+ * Tipo de transformação aplicada na normalização tolerante
+ * - prefix-removed: texto antes do número (ex.: "Processo nº")
+ * - suffix-removed: pontuação ou texto após o número
+ * - unicode-dash: travessão/hífen Unicode trocado por "-"
+ * - whitespace-removed: espaço (inclusive não separável) dentro do número
+ * - ocr-substitution: letra confundida com dígito (ex.: "O" → "0")
+ * - character-removed: caractere não reconhecido descartado
+ */
+export type NormalizationTransformationKind =
+  | 'prefix-removed'
+  | 'suffix-removed'
+  | 'unicode-dash'
+  | 'whitespace-removed'
+  | 'ocr-substitution'
+  | 'character-removed'
+
+/**
+ * Transformação aplicada a um trecho da entrada
+ */
+export interface NormalizationTransformation {
+  /** Tipo da transformação */
+  readonly kind: NormalizationTransformationKind
+  /** Trecho original */
+  readonly from: string
+  /** Texto resultante (vazio quando o trecho foi removido) */
+  readonly to: string
+  /** Posição do trecho na entrada original */
+  readonly span: CNJSpan
+}
+
+/**
+ * Resultado da normalização tolerante
+ *
+ * @example
+ * ```typescript
+ * const result: LenientNormalizationResult = normalizeCNJLenient('Processo nº OOO1327-64.2O18.8.26.0158.')
+ * console.log(result.normalized) // "00013276420188260158"
+ * ```
+ */
+export interface LenientNormalizationResult {
+  /** Entrada original */
+  readonly input: string
+  /** Apenas os dígitos, após as transformações */
+  readonly normalized: string
+  /** CNJ formatado, ou null se o resultado não tiver 20 dígitos */
+  readonly formatted: string | null
+  /** Transformações aplicadas, na ordem da entrada */
+  readonly transformations: NormalizationTransformation[]
+}
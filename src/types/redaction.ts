@@ -0,0 +1,76 @@
+import { CNJComponentName } from './tokens'
+
+/**
+ * Mascaramento completo: todos os dígitos são substituídos
+ * Ex.: "*******-**.****.*.**.****"
+ */
+export interface MaskRedactionStrategy {
+  type: 'mask'
+  /** Caractere de máscara (padrão: "*") */
+  maskChar?: string
+}
+
+/**
+ * Mascaramento parcial: mantém alguns componentes visíveis
+ * Ex.: "*******-**.****.8.26.****"
+ */
+export interface PartialRedactionStrategy {
+  type: 'partial'
+  /** Caractere de máscara (padrão: "*") */
+  maskChar?: string
+  /** Componentes mantidos (padrão: segmento e tribunal) */
+  keep?: readonly CNJComponentName[]
+}
+
+/**
+ * Opções de pseudonimização: cada CNJ vira um token estável derivado de
+ * HMAC-SHA256
+ * Ex.: "CNJ-1f3a9c0b7d2e4a68"
+ */
+export interface PseudonymizationOptions {
+  /** Chave secreta do HMAC */
+  key: string
+  /** Prefixo do token (padrão: "CNJ-") */
+  prefix?: string
+  /** Quantidade de caracteres hexadecimais do token (padrão: 16) */
+  tokenLength?: number
+}
+
+/**
+ * Estratégia de anonimização de CNJs
+ */
+export type RedactionStrategy = MaskRedactionStrategy | PartialRedactionStrategy
+
+/**
+ * Substituição feita no texto
+ */
+export interface CNJRedaction {
+  /** Posição inicial no texto original */
+  readonly start: number
+  /** Posição final no texto original (exclusiva) */
+  readonly end: number
+  /** Trecho original */
+  readonly original: string
+  /** CNJ formatado correspondente ao trecho */
+  readonly normalized: string
+  /** Texto que substituiu o trecho */
+  readonly replacement: string
+}
+
+/**
+ * Resultado da anonimização
+ *
+ * @example
+ * ```typescript
+ * const result: RedactionResult = redactCNJs(text, { type: 'mask' })
+ * console.log(result.text)
+ * ```
+ */
+export interface RedactionResult {
+  /** Texto com os CNJs substituídos */
+  readonly text: string
+  /** Substituições feitas, na ordem do texto */
+  readonly redactions: CNJRedaction[]
+  /** Tabela token → CNJ formatado (apenas em pseudonymizeCNJs) */
+  readonly mapping: Record<string, string>
+}
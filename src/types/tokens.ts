@@ -0,0 +1,92 @@
+import { CNJSpan } from './diagnostics'
+
+/**
+ * Nomes dos componentes de um número CNJ
+ * Formato: [lawsuitNumber]-[verifyingDigit].[protocolYear].[segment].[court].[sourceUnit]
+ */
+export type CNJComponentName =
+  | 'lawsuitNumber'
+  | 'verifyingDigit'
+  | 'protocolYear'
+  | 'segment'
+  | 'court'
+  | 'sourceUnit'
+
+/**
+ * Componente do CNJ com sua posição na entrada original
+ */
+export interface CNJComponentToken {
+  /** Nome do componente */
+  readonly name: CNJComponentName
+  /** Texto encontrado para o componente (pode conter caracteres inválidos) */
+  readonly value: string
+  /** Quantidade de dígitos esperada para o componente */
+  readonly expectedLength: number
+  /** Indica se todas as posições do componente foram preenchidas */
+  readonly complete: boolean
+  /** Trecho da entrada ocupado pelo componente */
+  readonly span: CNJSpan
+}
+
+/**
+ * Separador encontrado entre dois componentes
+ */
+export interface CNJSeparatorToken {
+  /** Caractere recebido */
+  readonly value: string
+  /** Caractere esperado nessa posição ('-' ou '.') */
+  readonly expected: string
+  /** Trecho da entrada ocupado pelo separador */
+  readonly span: CNJSpan
+}
+
+/**
+ * Trecho que não pertence a nenhum componente nem separador válido
+ * - character: caracteres que não são dígitos nem separadores
+ * - separator: separador fora de uma fronteira entre componentes ou repetido
+ * - digit: dígitos além da 20ª posição
+ */
+export interface CNJUnexpectedToken {
+  /** Tipo do trecho inesperado */
+  readonly kind: 'character' | 'separator' | 'digit'
+  /** Texto do trecho */
+  readonly text: string
+  /** Trecho da entrada */
+  readonly span: CNJSpan
+}
+
+/**
+ * Separador ausente em uma entrada formatada
+ */
+export interface CNJMissingSeparator {
+  /** Caractere esperado */
+  readonly expected: string
+  /** Posição da entrada onde o separador deveria estar */
+  readonly position: number
+}
+
+/**
+ * Resultado da tokenização de um número CNJ
+ *
+ * @example
+ * ```typescript
+ * const tokens: CNJTokens = tokenizeCNJ('0001327-64.2018.8.26.0158')
+ * tokens.components[2] // { name: 'protocolYear', value: '2018', span: { start: 11, end: 15 }, ... }
+ * ```
+ */
+export interface CNJTokens {
+  /** Entrada original */
+  readonly input: string
+  /** Indica se a entrada utiliza separadores */
+  readonly formatted: boolean
+  /** Quantidade de dígitos encontrados */
+  readonly digitCount: number
+  /** Componentes encontrados, na ordem do formato CNJ */
+  readonly components: readonly CNJComponentToken[]
+  /** Separadores encontrados nas fronteiras entre componentes */
+  readonly separators: readonly CNJSeparatorToken[]
+  /** Separadores esperados e ausentes (apenas entradas formatadas) */
+  readonly missingSeparators: readonly CNJMissingSeparator[]
+  /** Trechos inesperados */
+  readonly unexpected: readonly CNJUnexpectedToken[]
+}
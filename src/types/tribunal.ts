@@ -0,0 +1,70 @@
+import { ValidityPeriod } from './validity'
+
+/**
+ * Chave de tribunal no formato: segment.court (ex.: "8.26")
+ */
+export type TribunalKey = string
+
+/**
+ * Sede de um tribunal
+ */
+export interface TribunalSeat {
+  /** Sigla da UF da sede */
+  uf: string
+  /** Cidade da sede */
+  city: string
+}
+
+/**
+ * Tribunal ou conselho identificado pelo par J.CT do número CNJ
+ *
+ * @example
+ * ```typescript
+ * const tjsp: Tribunal = getTribunal('8', '26')!
+ * console.log(tjsp.acronym) // "TJSP"
+ * console.log(tjsp.ufs) // ["SP"]
+ * ```
+ */
+export interface Tribunal extends ValidityPeriod {
+  /** Código do segmento (J) */
+  segment: number
+  /** Código do tribunal com 2 dígitos (CT) */
+  court: string
+  /** Sigla oficial (ex.: "TJSP", "TRT2", "TRE-SP", "1ª CJM") */
+  acronym: string
+  /** Nome oficial por extenso */
+  name: string
+  /** Sede do tribunal */
+  seat: TribunalSeat
+  /** UFs abrangidas pela jurisdição */
+  ufs: string[]
+}
+
+/**
+ * Critérios para localizar o par J.CT de um tribunal
+ *
+ * @example
+ * ```typescript
+ * const query: CourtCodeQuery = { segment: 'Eleitoral', uf: 'BA' }
+ * ```
+ */
+export interface CourtCodeQuery {
+  /** Segmento: código (6), sigla ("TRE") ou ramo ("Eleitoral") */
+  segment?: string | number
+  /** UF abrangida pelo tribunal */
+  uf?: string
+}
+
+/**
+ * Par J.CT de um tribunal, pronto para filtrar ou montar números CNJ
+ */
+export interface CourtCode {
+  /** Código do segmento (J) */
+  segment: string
+  /** Código do tribunal (CT) */
+  court: string
+  /** Par no formato usado no número (ex.: "8.13") */
+  code: string
+  /** Tribunal correspondente */
+  tribunal: Tribunal
+}
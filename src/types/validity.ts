@@ -0,0 +1,53 @@
+import { CNJErrorType } from './errors'
+
+/**
+ * Período de existência de um tribunal ou unidade (datas ISO "AAAA-MM-DD")
+ * Limites ausentes significam "desde sempre" / "até hoje".
+ */
+export interface ValidityPeriod {
+  /** Data de criação/instalação */
+  validFrom?: string
+  /** Último dia de funcionamento (extinção ou incorporação) */
+  validUntil?: string
+}
+
+/**
+ * Opções de avaliação temporal
+ */
+export interface ValidityOptions {
+  /**
+   * Data de referência (padrão: hoje). Um número só é válido nessa data se
+   * o tribunal já existia e o ano de protocolo não é posterior a ela.
+   */
+  asOf?: Date
+}
+
+/**
+ * Problema temporal encontrado na análise
+ */
+export interface ValidityIssue {
+  /** Tipo do erro */
+  readonly type: CNJErrorType
+  /** Código do erro (para tratamento programático) */
+  readonly code: string
+  /** Mensagem descritiva */
+  readonly message: string
+}
+
+/**
+ * Resultado da verificação temporal de tribunal e unidade de origem
+ *
+ * @example
+ * ```typescript
+ * const { validity } = analyzeCNJ('0000001-61.2019.4.06.3800')
+ * console.log(validity?.isValid) // false (TRF6 instalado em 2022)
+ * ```
+ */
+export interface CourtValidity {
+  /** Indica se tribunal e unidade existiam no ano de protocolo e na data de referência */
+  readonly isValid: boolean
+  /** Data de referência usada (AAAA-MM-DD; "Invalid Date" se inválida) */
+  readonly asOf: string
+  /** Problemas encontrados */
+  readonly issues: ValidityIssue[]
+}
@@ -0,0 +1,195 @@
+/**
+ * Utilitários para leitura de tabelas externas (CSV/JSON)
+ */
+
+/**
+ * Linha da tabela com o número usado nos relatórios
+ */
+export interface TableRow {
+  /** Linha no arquivo (CSV, contando o cabeçalho) ou posição no JSON */
+  row: number
+  /** Valores indexados pelo cabeçalho original */
+  values: Record<string, unknown>
+}
+
+/**
+ * Detecta o formato pelo primeiro caractere significativo
+ */
+export function detectTableFormat(content: string): 'csv' | 'json' {
+  const first = content.trimStart().charAt(0)
+  return first === '[' || first === '{' ? 'json' : 'csv'
+}
+
+/**
+ * Normaliza cabeçalhos e nomes para comparação (minúsculas, sem acentos, "_" no
+ * lugar de espaços e pontuação)
+ */
+export function normalizeLabel(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+/**
+ * Associa cada campo à primeira coluna da tabela com cabeçalho aceito
+ * @param rows Linhas da tabela
+ * @param aliases Cabeçalhos aceitos por campo, já normalizados
+ * @param overrides Nome da coluna de cada campo, quando fora do padrão
+ * @returns Cabeçalho original de cada campo encontrado
+ */
+export function matchColumns<F extends string>(
+  rows: TableRow[],
+  aliases: Record<F, string[]>,
+  overrides: Partial<Record<F, string>> = {},
+): Partial<Record<F, string>> {
+  const headers = new Map<string, string>()
+  rows.forEach(({ values }) =>
+    Object.keys(values).forEach((header) => {
+      if (!headers.has(normalizeLabel(header))) {
+        headers.set(normalizeLabel(header), header)
+      }
+    }),
+  )
+
+  const columns: Partial<Record<F, string>> = {}
+  ;(Object.keys(aliases) as F[]).forEach((field) => {
+    const override = overrides[field]
+    const candidates = override ? [normalizeLabel(override)] : aliases[field]
+    const match = candidates.find((candidate) => headers.has(candidate))
+    if (match !== undefined) {
+      columns[field] = headers.get(match)
+    }
+  })
+
+  return columns
+}
+
+/**
+ * Lê o valor de uma coluna como texto, sem espaços nas pontas
+ */
+export function readCell(
+  values: Record<string, unknown>,
+  column?: string,
+): string {
+  const value = column === undefined ? undefined : values[column]
+  return value === undefined || value === null ? '' : String(value).trim()
+}
+
+/**
+ * Verifica se o valor é um objeto simples
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Lê linhas de um CSV com cabeçalho (aceita campos entre aspas)
+ * @param content Conteúdo do CSV
+ * @param separator Separador (padrão: detectado no cabeçalho entre ";", "," e tab)
+ */
+export function parseCSVRows(content: string, separator?: string): TableRow[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => line.trim())
+  if (headerIndex === -1) {
+    return []
+  }
+
+  const actualSeparator = separator || detectSeparator(lines[headerIndex])
+  const headers = splitCSVLine(lines[headerIndex], actualSeparator)
+  const rows: TableRow[] = []
+
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    if (!lines[index].trim()) {
+      continue
+    }
+    const cells = splitCSVLine(lines[index], actualSeparator)
+    const values: Record<string, string> = {}
+    headers.forEach((header, column) => {
+      values[header] = cells[column] ?? ''
+    })
+    rows.push({ row: index + 1, values })
+  }
+
+  return rows
+}
+
+/**
+ * Escolhe o separador mais frequente no cabeçalho
+ */
+function detectSeparator(header: string): string {
+  return [';', ',', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length
+      ? candidate
+      : best,
+  )
+}
+
+/**
+ * Divide uma linha CSV respeitando aspas duplas ("" escapa aspas)
+ */
+function splitCSVLine(line: string, separator: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (line.startsWith(separator, index)) {
+      cells.push(current)
+      current = ''
+      index += separator.length - 1
+    } else {
+      current += char
+    }
+  }
+  cells.push(current)
+
+  return cells.map((cell) => cell.trim())
+}
+
+/**
+ * Converte uma data de tabela para ISO ("AAAA-MM-DD")
+ * @param value Data em ISO ou no formato DD/MM/AAAA das tabelas do CNJ
+ * @returns Data ISO, ou null se o valor não for uma data existente
+ */
+export function parseTableDate(value: string): string | null {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  const local = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value)
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : local
+      ? [local[3], local[2], local[1]]
+      : []
+
+  if (!year || !isExistingDate(Number(year), Number(month), Number(day))) {
+    return null
+  }
+
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Verifica se dia e mês existem no ano informado
+ */
+export function isExistingDate(
+  year: number,
+  month: number,
+  day: number,
+): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
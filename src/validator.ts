@@ -0,0 +1,52 @@
+/**
+ * CNJ Validate - Validador sem dados embutidos (`cnj-validate/validator`)
+ *
+ * @description
+ * Ponto de entrada para front-ends: reúne validação, formatação e leitura dos
+ * números CNJ sem importar as tabelas de distritos, que ficam de fora do
+ * bundle. Os distritos podem ser carregados por segmento, sob demanda, com
+ * createDistrictChunkStore.
+ *
+ * @example
+ * ```typescript
+ * import { isValidCNJ, parseCNJ } from 'cnj-validate/validator'
+ *
+ * isValidCNJ('0001327-64.2018.8.26.0158') // true
+ * parseCNJ('0001327-64.2018.8.26.0158').court // "26"
+ * ```
+ */
+
+export {
+  calculateVerifyingDigit,
+  DEFAULT_VALIDATION_CONFIG,
+  detectCNJFormat,
+  formatCNJ,
+  isValidCNJ,
+  MIN_PROTOCOL_YEAR,
+  normalizeCNJ,
+  validateCNJ,
+  validateCNJFormat,
+} from './core/validator'
+
+export { parseCNJ } from './core/parser'
+
+export {
+  createDistrictChunkStore,
+  DISTRICT_SEGMENTS,
+} from './data/district-chunks'
+
+export type {
+  ParsedCNJ,
+  ValidationConfig,
+  ValidationResult,
+} from './types/analysis'
+
+export type { DistrictInfo, DistrictKey, DistrictMap } from './types/district'
+
+export type {
+  DistrictChunkLoader,
+  DistrictChunkOptions,
+  DistrictChunkStore,
+} from './types/district-chunks'
+
+export { CNJErrorType, CNJValidationError } from './types/errors'
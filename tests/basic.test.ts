@@ -2,7 +2,14 @@
  * Testes básicos para CNJ Validate
  */
 
-import { analyzeCNJ, formatCNJ, isValidCNJ, validateCNJ } from '../src/index'
+import {
+  analyzeCNJ,
+  DEFAULT_CONFIG,
+  DEFAULT_VALIDATION_CONFIG,
+  formatCNJ,
+  isValidCNJ,
+  validateCNJ,
+} from '../src/index'
 
 describe('CNJ Validation Tests', () => {
   test('validates correct CNJ', () => {
@@ -24,6 +31,16 @@ describe('CNJ Validation Tests', () => {
     const result = validateCNJ('invalid-cnj')
     expect(result.isValid).toBe(false)
   })
+
+  test('DEFAULT_CONFIG.validation does not change validation rules', () => {
+    expect(DEFAULT_CONFIG.validation).toEqual(DEFAULT_VALIDATION_CONFIG)
+    DEFAULT_CONFIG.validation.allowUnformattedInput = false
+    try {
+      expect(validateCNJ('00013276420188260158', {}).isValid).toBe(true)
+    } finally {
+      DEFAULT_CONFIG.validation.allowUnformattedInput = true
+    }
+  })
 })
 
 describe('CNJ Analysis Tests', () => {
@@ -0,0 +1,65 @@
+/**
+ * Testes da CLI de processamento de arquivos (scripts/process-file.js)
+ *
+ * Executa o script sobre o build em dist/, como o binário publicado.
+ */
+
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+describe('process-file CLI', () => {
+  const script = path.join(__dirname, '..', 'scripts', 'process-file.js')
+  const firstGrade = '0001327-64.2018.8.26.0158'
+  const secondGrade = '0000001-87.2020.8.26.0000'
+  let directory: string
+  let input: string
+  let output: string
+
+  const run = (...args: string[]) =>
+    execFileSync(process.execPath, [script, ...args], { encoding: 'utf8' })
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cnj-cli-'))
+    input = path.join(directory, 'input.csv')
+    output = path.join(directory, 'output.csv')
+    fs.writeFileSync(input, `${firstGrade}\n${secondGrade}\n`)
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should write the instance column', () => {
+    run(input, output)
+
+    const lines = fs.readFileSync(output, 'utf8').split('\n')
+    expect(lines[0].endsWith(',Instância')).toBe(true)
+    expect(lines[1].endsWith(',primeiro grau')).toBe(true)
+    expect(lines[2].endsWith(',segundo grau')).toBe(true)
+  })
+
+  it('should filter rows with --instance', () => {
+    const stdout = run(input, output, '--instance', 'segundo-grau')
+
+    const lines = fs.readFileSync(output, 'utf8').split('\n')
+    expect(lines).toHaveLength(2)
+    expect(lines[1]).toContain(secondGrade)
+    expect(stdout).toContain('CNJs exportados: 1')
+  })
+
+  it('should accept comma-separated levels with --instance=', () => {
+    run(input, output, '--instance=primeiro-grau,SECOND_GRADE')
+
+    expect(fs.readFileSync(output, 'utf8').split('\n')).toHaveLength(3)
+  })
+
+  it('should reject unknown levels', () => {
+    expect(() =>
+      execFileSync(process.execPath, [script, input, '--instance', 'x'], {
+        stdio: 'pipe',
+      }),
+    ).toThrow('Instância desconhecida: x')
+  })
+})
@@ -168,6 +168,83 @@ describe('Module Compatibility Tests', () => {
     })
   })
 
+  describe('Validator Entry Point', () => {
+    it('should export the validator via package subpath', () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const packageJson = require('../package.json')
+
+      expect(packageJson.exports['./validator']).toEqual({
+        types: './dist/validator.d.ts',
+        import: './dist/validator.mjs',
+        require: './dist/validator.js',
+      })
+      expect(packageJson.exports['./districts/*']).toBe(
+        './dist/data/districts/*',
+      )
+    })
+
+    it('should validate without the main module', () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const validator = require('../dist/validator.js')
+
+      expect(validator.isValidCNJ(testCNJ)).toBe(true)
+      expect(validator.validateCNJ(invalidCNJ).isValid).toBe(false)
+      expect(validator.parseCNJ(testCNJ).sourceUnit).toBe('0158')
+      expect(validator.analyzeCNJ).toBeUndefined()
+      expect(validator.DISTRICTS).toBeUndefined()
+
+      const esmContent = fs.readFileSync(
+        path.join(process.cwd(), 'dist', 'validator.mjs'),
+        'utf8',
+      )
+      expect(esmContent).toContain("import cjsModule from './validator.js'")
+      expect(esmContent).toContain(
+        'export const isValidCNJ = cjsModule.isValidCNJ',
+      )
+    })
+
+    it('should not require district data', () => {
+      const visited = new Set<string>()
+      const visit = (file: string): void => {
+        if (visited.has(file)) {
+          return
+        }
+        visited.add(file)
+        const content = fs.readFileSync(file, 'utf8')
+        for (const [, request] of content.matchAll(/require\("(\.[^"]+)"\)/g)) {
+          const target = path.resolve(path.dirname(file), request)
+          visit(target.endsWith('.json') ? target : `${target}.js`)
+        }
+      }
+
+      visit(path.join(process.cwd(), 'dist', 'validator.js'))
+
+      const files = Array.from(visited).map((file) =>
+        path.relative(path.join(process.cwd(), 'dist'), file),
+      )
+      expect(files).toContain('data/district-chunks.js')
+      expect(files.filter((file) => file.endsWith('.json'))).toEqual([])
+      expect(files).not.toContain('data/districts.js')
+      expect(files).not.toContain('data/district-data.js')
+    })
+
+    it('should load district chunks from the built package', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { createDistrictChunkStore } = require('../dist/validator.js')
+      const store = createDistrictChunkStore()
+
+      const info = await store.loadFor(testCNJ)
+
+      expect(info.uf).toBe('SP')
+      expect(store.loadedSegments()).toEqual(['8'])
+      expect(
+        fs.existsSync(
+          path.join(process.cwd(), 'dist', 'data', 'districts', '8.json'),
+        ),
+      ).toBe(true)
+    })
+  })
+
   describe('Functional Tests', () => {
     it('should maintain consistent validation results', () => {
       // eslint-disable-next-line @typescript-eslint/no-var-requires